@@ -0,0 +1,140 @@
+/**
+ * Active-time segments of a session: when during the session the user actually worked
+ */
+
+import { ActiveSegment, TimeSession } from './types';
+
+/**
+ * Activity this close to the end of the last segment continues it. Covers the time between
+ * an activity event and the next timer tick.
+ */
+const MERGE_GAP = 5 * 1000;
+
+/**
+ * Shorter stretches without activity are not reported as idle time
+ */
+const MIN_IDLE_GAP = 60 * 1000;
+
+/**
+ * Record that the user was active from `from` to `to`, extending the last segment where possible.
+ * Empty ranges are ignored.
+ */
+export const addActiveTime = (session: TimeSession, from: Date, to: Date): void => {
+  if (from >= to) {
+    return;
+  }
+  const segments = session.activeSegments ?? (session.activeSegments = []);
+  const last = segments[segments.length - 1];
+  if (last && from.getTime() - last.end.getTime() <= MERGE_GAP) {
+    if (to > last.end) {
+      last.end = new Date(to);
+    }
+    return;
+  }
+  segments.push({ start: new Date(from), end: new Date(to) });
+};
+
+/**
+ * Sort segments and combine overlapping or adjacent ones
+ */
+export const normalizeSegments = (segments: ActiveSegment[]): ActiveSegment[] => {
+  const result: ActiveSegment[] = [];
+  segments
+    .slice()
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .forEach(segment => {
+      const last = result[result.length - 1];
+      if (last && segment.start.getTime() - last.end.getTime() <= MERGE_GAP) {
+        last.end = segment.end > last.end ? new Date(segment.end) : last.end;
+      } else {
+        result.push({ start: new Date(segment.start), end: new Date(segment.end) });
+      }
+    });
+  return result;
+};
+
+/**
+ * The parts of segments within a time span
+ */
+export const clipSegments = (segments: ActiveSegment[], start: Date, end: Date): ActiveSegment[] => {
+  return segments
+    .map(segment => ({
+      start: segment.start < start ? new Date(start) : new Date(segment.start),
+      end: segment.end > end ? new Date(end) : new Date(segment.end)
+    }))
+    .filter(segment => segment.end > segment.start);
+};
+
+/**
+ * The parts of segments not covered by any of the removed segments
+ */
+export const subtractSegments = (segments: ActiveSegment[], removed: ActiveSegment[]): ActiveSegment[] => {
+  return removed.reduce(
+    (remaining, cut) => remaining.flatMap(segment => [
+      ...clipSegments([segment], segment.start, cut.start),
+      ...clipSegments([segment], cut.end, segment.end)
+    ]),
+    segments.filter(segment => segment.end > segment.start)
+  );
+};
+
+/**
+ * Segments of a session; sessions recorded before segments existed, and manual entries,
+ * count as one segment over their whole span
+ * @param now End of a session that is still running
+ */
+export const getActiveSegments = (session: TimeSession, now: Date = new Date()): ActiveSegment[] => {
+  if (session.activeSegments?.length) {
+    return session.activeSegments;
+  }
+  return [{ start: session.startTime, end: session.endTime ?? now }];
+};
+
+export const getSegmentsTime = (segments: ActiveSegment[]): number => {
+  return segments.reduce((total, segment) => total + segment.end.getTime() - segment.start.getTime(), 0);
+};
+
+/**
+ * Share of a session's active time that falls into a time span, from its segments
+ * @returns A fraction between 0 and 1, or undefined if the session has no segments
+ */
+export const getSegmentShareInRange = (
+  segments: ActiveSegment[] | undefined,
+  rangeStart: Date,
+  rangeEnd: Date
+): number | undefined => {
+  const total = segments ? getSegmentsTime(segments) : 0;
+  if (!segments || total <= 0) {
+    return undefined;
+  }
+  return getSegmentsTime(clipSegments(segments, rangeStart, rangeEnd)) / total;
+};
+
+/**
+ * Stretches of a session without activity: before the first segment, between segments and
+ * after the last one
+ * @param minLength Shorter gaps are left out
+ * @param now End of a session that is still running
+ */
+export const getIdleGaps = (
+  session: TimeSession,
+  minLength: number = MIN_IDLE_GAP,
+  now: Date = new Date()
+): ActiveSegment[] => {
+  const segments = session.activeSegments;
+  if (!segments?.length) {
+    return [];
+  }
+
+  const gaps: ActiveSegment[] = [];
+  let idleSince = session.startTime;
+  [...segments, { start: session.endTime ?? now, end: session.endTime ?? now }].forEach(segment => {
+    if (segment.start.getTime() - idleSince.getTime() >= minLength) {
+      gaps.push({ start: idleSince, end: segment.start });
+    }
+    if (segment.end > idleSince) {
+      idleSince = segment.end;
+    }
+  });
+  return gaps;
+};
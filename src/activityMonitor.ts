@@ -5,6 +5,17 @@
 import * as vscode from 'vscode';
 import { ActivityState, ActivityEvent, ExtensionConfig, Logger, DisposableResource } from './types';
 
+/**
+ * Debug adapter requests that follow user actions: stepping, continuing and selecting
+ * a stack frame, which loads its scopes
+ */
+const DEBUG_USER_REQUESTS = new Set([
+  'next', 'stepIn', 'stepOut', 'stepBack', 'continue', 'reverseContinue', 'pause', 'restartFrame', 'goto', 'scopes'
+]);
+
+/** Debug adapter requests after which the program runs again */
+const DEBUG_RESUME_REQUESTS = new Set(['next', 'stepIn', 'stepOut', 'stepBack', 'continue', 'reverseContinue', 'restartFrame', 'goto']);
+
 /**
  * Monitors user activity in VS Code to determine when to track time
  */
@@ -15,6 +26,7 @@ export class ActivityMonitor {
   private readonly logger: Logger;
   private readonly config: ExtensionConfig;
   private activityCallbacks: Array<(event: ActivityEvent) => void> = [];
+  private readonly stoppedDebugSessions = new Set<string>(); // IDs of debug sessions halted at a breakpoint or step
   
   // Sleep/Wake detection
   private lastHeartbeat: Date;
@@ -47,7 +59,8 @@ export class ActivityMonitor {
     
     // If there's been a significant time gap, consider it as idle regardless of focus
     const hasSleepGap = timeSinceLastHeartbeat > this.SLEEP_THRESHOLD;
-    const isIdle = timeSinceLastActivity > idleThresholdMs || hasSleepGap;
+    // Reading variables at a breakpoint is work, even without any events
+    const isIdle = (timeSinceLastActivity > idleThresholdMs && !this.isDebugging()) || hasSleepGap;
 
     if (this.isWindowFocused) {
       return isIdle ? ActivityState.IDLE_FOREGROUND : ActivityState.ACTIVE_FOREGROUND;
@@ -68,6 +81,13 @@ export class ActivityMonitor {
     return state === ActivityState.ACTIVE_FOREGROUND || state === ActivityState.ACTIVE_BACKGROUND;
   }
 
+  /**
+   * Check if the debugger is halted in a debug session, e.g. at a breakpoint or after a step
+   */
+  isDebugging(): boolean {
+    return this.stoppedDebugSessions.size > 0;
+  }
+
   /**
    * Get last activity timestamp
    */
@@ -152,6 +172,15 @@ export class ActivityMonitor {
       vscode.window.onDidChangeActiveTerminal(this.onTerminalChange.bind(this))
     );
 
+    // Debug sessions, breakpoint hits, stepping and stack frame changes
+    this.subscriptions.push(
+      vscode.debug.onDidStartDebugSession(this.onDebugSessionStart.bind(this)),
+      vscode.debug.onDidTerminateDebugSession(this.onDebugSessionEnd.bind(this)),
+      vscode.debug.registerDebugAdapterTrackerFactory('*', {
+        createDebugAdapterTracker: session => this.createDebugAdapterTracker(session)
+      })
+    );
+
     this.logger.debug('Activity event listeners setup complete');
   }
 
@@ -173,6 +202,7 @@ export class ActivityMonitor {
       type: 'text_change',
       timestamp: new Date(),
       documentUri: event.document.uri,
+      languageId: event.document.languageId,
       data: {
         changeCount: event.contentChanges.length,
         fileName: this.getFileName(event.document.uri)
@@ -201,6 +231,7 @@ export class ActivityMonitor {
       type: 'cursor_change',
       timestamp: new Date(),
       documentUri: event.textEditor.document.uri,
+      languageId: event.textEditor.document.languageId,
       data: {
         selections: event.selections.length,
         fileName: this.getFileName(event.textEditor.document.uri),
@@ -225,6 +256,7 @@ export class ActivityMonitor {
         type: 'cursor_change',
         timestamp: new Date(),
         documentUri: editor.document.uri,
+        languageId: editor.document.languageId,
         data: {
           action: 'editor_switch',
           fileName: this.getFileName(editor.document.uri)
@@ -255,6 +287,62 @@ export class ActivityMonitor {
     }
   }
 
+  /**
+   * Handle the start of a debug session
+   */
+  private onDebugSessionStart(session: vscode.DebugSession): void {
+    this.recordDebugActivity(session, { action: 'debug_start' });
+    this.logger.debug('Debug session started', { name: session.name, debugType: session.type });
+  }
+
+  /**
+   * Handle the end of a debug session
+   */
+  private onDebugSessionEnd(session: vscode.DebugSession): void {
+    this.stoppedDebugSessions.delete(session.id);
+    this.recordDebugActivity(session, { action: 'debug_end' });
+    this.logger.debug('Debug session ended', { name: session.name, debugType: session.type });
+  }
+
+  /**
+   * Watch the messages between VS Code and a debug adapter for breakpoint hits and user actions
+   */
+  private createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+    return {
+      onDidSendMessage: (message: any) => {
+        if (message?.type !== 'event') {
+          return;
+        }
+        if (message.event === 'stopped') {
+          this.stoppedDebugSessions.add(session.id);
+          this.recordDebugActivity(session, { action: 'debug_stopped', reason: message.body?.reason });
+        } else if (message.event === 'continued') {
+          this.stoppedDebugSessions.delete(session.id);
+        }
+      },
+      onWillReceiveMessage: (message: any) => {
+        if (message?.type !== 'request' || !DEBUG_USER_REQUESTS.has(message.command)) {
+          return;
+        }
+        if (DEBUG_RESUME_REQUESTS.has(message.command)) {
+          this.stoppedDebugSessions.delete(session.id);
+        }
+        this.recordDebugActivity(session, { action: 'debug_request', command: message.command });
+      },
+      onExit: () => {
+        this.stoppedDebugSessions.delete(session.id);
+      }
+    };
+  }
+
+  private recordDebugActivity(session: vscode.DebugSession, data: Record<string, unknown>): void {
+    this.recordActivity({
+      type: 'debug',
+      timestamp: new Date(),
+      data: { ...data, name: session.name, debugType: session.type }
+    });
+  }
+
   /**
    * Record activity and notify callbacks
    */
@@ -0,0 +1,266 @@
+/**
+ * Rotating point-in-time backups of tracking data
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TrackingData, Logger } from './types';
+import { migrateTrackingData } from './dataMigrations';
+import { serializeTrackingData, deserializeTrackingData, parseStoredJson } from './trackingDataCodec';
+import { writeFileAtomic, fileExists } from './fileUtils';
+import { getWorkspaceStorageDir } from './workspaceStorage';
+import { DataEncryption } from './dataEncryption';
+import { getDayKey, getTrackingDay } from './timeUtils';
+
+/**
+ * Kind of backup snapshot
+ */
+export type BackupKind = 'daily' | 'weekly' | 'pre-restore' | 'pre-repair' | 'pre-relocate';
+
+/**
+ * Summary of a backup snapshot on disk
+ */
+export interface BackupInfo {
+  kind: BackupKind;
+
+  /** Period key, e.g. 2024-05-13 for daily or 2024-W20 for weekly */
+  period: string;
+
+  filePath: string;
+  createdAt: Date;
+  projectCount: number;
+  sessionCount: number;
+  totalTime: number;
+}
+
+/**
+ * Differences between the current data and a backup
+ */
+export interface BackupDiff {
+  /** Projects that only exist in the backup */
+  projectsOnlyInBackup: string[];
+
+  /** Projects that only exist in the current data */
+  projectsOnlyInCurrent: string[];
+
+  /** Sessions that only exist in the backup */
+  sessionsOnlyInBackup: number;
+
+  /** Sessions that only exist in the current data */
+  sessionsOnlyInCurrent: number;
+
+  /** Backup total time minus current total time, in milliseconds */
+  totalTimeDelta: number;
+}
+
+/**
+ * Retention configuration for backups
+ */
+export interface BackupRetention {
+  /** Number of daily snapshots to keep */
+  days: number;
+
+  /** Number of weekly snapshots to keep */
+  weeks: number;
+}
+
+/**
+ * Writes daily and weekly snapshots next to the data file and prunes old ones
+ */
+export class BackupManager {
+  private readonly backupDir: string;
+  private readonly logger: Logger;
+  private readonly encryption: DataEncryption;
+  private readonly SAFETY_SNAPSHOT_KEEP = 5;
+
+  constructor(context: vscode.ExtensionContext, logger: Logger, encryption: DataEncryption) {
+    this.logger = logger;
+    this.encryption = encryption;
+    this.backupDir = path.join(getWorkspaceStorageDir(context), 'backups');
+  }
+
+  /**
+   * Write the daily and weekly snapshot for the current period if missing, then prune
+   */
+  async createScheduledSnapshots(data: TrackingData, retention: BackupRetention): Promise<void> {
+    try {
+      const now = new Date();
+      const created: string[] = [];
+
+      if (retention.days > 0) {
+        // Snapshots roll over with the tracking day (local zone and `dayStartsAt`), not at UTC midnight
+        const dailyPath = this.getSnapshotPath('daily', getDayKey(now));
+        if (!(await fileExists(dailyPath))) {
+          await this.writeSnapshot(dailyPath, data);
+          created.push(dailyPath);
+        }
+      }
+
+      if (retention.weeks > 0) {
+        const weeklyPath = this.getSnapshotPath('weekly', this.getWeekKey(getTrackingDay(now)));
+        if (!(await fileExists(weeklyPath))) {
+          await this.writeSnapshot(weeklyPath, data);
+          created.push(weeklyPath);
+        }
+      }
+
+      if (created.length > 0) {
+        this.logger.info('Backup snapshots created', { created });
+        await this.prune(retention);
+      }
+    } catch (error) {
+      this.logger.error('Failed to create backup snapshots', error as Error);
+      // Don't throw - backup failure shouldn't prevent tracking
+    }
+  }
+
+  /**
+   * Write a safety snapshot of data that is about to be replaced by a restore, repair or relocation
+   */
+  async createSafetySnapshot(kind: 'pre-restore' | 'pre-repair' | 'pre-relocate', data: TrackingData): Promise<void> {
+    const period = new Date().toISOString().replace(/[:.]/g, '-');
+    await this.writeSnapshot(this.getSnapshotPath(kind, period), data);
+    await this.pruneKind(kind, this.SAFETY_SNAPSHOT_KEEP);
+  }
+
+  /**
+   * List all snapshots, newest first
+   */
+  async listSnapshots(): Promise<BackupInfo[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.backupDir);
+    } catch {
+      return [];
+    }
+
+    const snapshots: BackupInfo[] = [];
+    for (const fileName of fileNames) {
+      const parsed = this.parseFileName(fileName);
+      if (!parsed) {
+        continue;
+      }
+
+      const filePath = path.join(this.backupDir, fileName);
+      try {
+        const data = await this.loadSnapshot(filePath);
+        let sessionCount = 0;
+        let totalTime = 0;
+        data.projects.forEach(project => {
+          sessionCount += project.sessions.length;
+          totalTime += project.totalTime;
+        });
+
+        snapshots.push({
+          ...parsed,
+          filePath,
+          createdAt: data.lastSaved,
+          projectCount: data.projects.size,
+          sessionCount,
+          totalTime
+        });
+      } catch (error) {
+        this.logger.warn('Skipping unreadable backup snapshot', { filePath, error: (error as Error).message });
+      }
+    }
+
+    return snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Load the data stored in a snapshot
+   */
+  async loadSnapshot(filePath: string): Promise<TrackingData> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return deserializeTrackingData(migrateTrackingData(parseStoredJson(this.encryption.decode(content))).data);
+  }
+
+  /**
+   * Compare current data with a backup
+   */
+  diff(current: TrackingData, backup: TrackingData): BackupDiff {
+    const collectIds = (data: TrackingData): Set<string> => {
+      const ids = new Set<string>();
+      data.projects.forEach(project => project.sessions.forEach(session => ids.add(session.id)));
+      return ids;
+    };
+    const sumTime = (data: TrackingData): number => {
+      let total = 0;
+      data.projects.forEach(project => {
+        total += project.totalTime;
+      });
+      return total;
+    };
+
+    const currentIds = collectIds(current);
+    const backupIds = collectIds(backup);
+
+    return {
+      projectsOnlyInBackup: Array.from(backup.projects.values())
+        .filter(project => !current.projects.has(project.projectPath))
+        .map(project => project.projectName),
+      projectsOnlyInCurrent: Array.from(current.projects.values())
+        .filter(project => !backup.projects.has(project.projectPath))
+        .map(project => project.projectName),
+      sessionsOnlyInBackup: Array.from(backupIds).filter(id => !currentIds.has(id)).length,
+      sessionsOnlyInCurrent: Array.from(currentIds).filter(id => !backupIds.has(id)).length,
+      totalTimeDelta: sumTime(backup) - sumTime(current)
+    };
+  }
+
+  /**
+   * Remove snapshots beyond the retention limits
+   */
+  private async prune(retention: BackupRetention): Promise<void> {
+    await this.pruneKind('daily', retention.days);
+    await this.pruneKind('weekly', retention.weeks);
+  }
+
+  /**
+   * Keep only the newest `keep` snapshots of a kind
+   */
+  private async pruneKind(kind: BackupKind, keep: number): Promise<void> {
+    const fileNames = (await fs.readdir(this.backupDir))
+      .filter(fileName => this.parseFileName(fileName)?.kind === kind)
+      .sort()
+      .reverse();
+
+    for (const fileName of fileNames.slice(Math.max(keep, 0))) {
+      await fs.unlink(path.join(this.backupDir, fileName));
+      this.logger.debug('Pruned backup snapshot', { fileName });
+    }
+  }
+
+  /**
+   * Serialize data into a snapshot file
+   */
+  private async writeSnapshot(filePath: string, data: TrackingData): Promise<void> {
+    await fs.mkdir(this.backupDir, { recursive: true });
+    await writeFileAtomic(filePath, this.encryption.encode(JSON.stringify(serializeTrackingData(data), null, 2)));
+  }
+
+  private getSnapshotPath(kind: BackupKind, period: string): string {
+    return path.join(this.backupDir, `${kind}-${period}.json`);
+  }
+
+  private parseFileName(fileName: string): { kind: BackupKind; period: string } | undefined {
+    const match = /^(daily|weekly|pre-restore|pre-repair|pre-relocate)-(.+)\.json$/.exec(fileName);
+    if (!match || !match[1] || !match[2]) {
+      return undefined;
+    }
+    return { kind: match[1] as BackupKind, period: match[2] };
+  }
+
+  /**
+   * Get ISO week key (e.g. 2024-W05) for a date
+   */
+  private getWeekKey(date: Date): string {
+    const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    const dayNum = d.getUTCDay() || 7;
+    d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+    const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+    const weekNumber = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
+    return `${d.getUTCFullYear()}-W${weekNumber.toString().padStart(2, '0')}`;
+  }
+}
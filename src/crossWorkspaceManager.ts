@@ -5,7 +5,14 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { TrackingData, ProjectStats, Logger } from './types';
+import { TrackingData, TimeSession, ProjectStats, Logger } from './types';
+import { migrateTrackingData } from './dataMigrations';
+import { readJournalData } from './journalStorageManager';
+import { deserializeTrackingData, parseStoredJson } from './trackingDataCodec';
+import { DataEncryption } from './dataEncryption';
+import { fileExists } from './fileUtils';
+import { WORKSPACES_DIR, belongsToOtherWorkspace } from './workspaceStorage';
+import { DeviceSync, DeviceOverlap, UnreadableSyncFile, mergeRemoteWorkspaces } from './deviceSync';
 
 export interface AggregatedData {
   /** All projects from all workspaces */
@@ -25,34 +32,72 @@ export interface AggregatedData {
     name: string;
     path: string;
     data: TrackingData;
+    /** Device that published the workspace, for workspaces only known from the sync folder */
+    device?: string;
   }>;
+  
+  /** Overlapping sessions of different devices, counted only once */
+  deviceOverlaps: DeviceOverlap[];
+
+  /** Files of other devices in the sync folder that could not be read */
+  unreadableSyncFiles: UnreadableSyncFile[];
 }
 
+/**
+ * Load the data of one workspace directory, whichever storage backend wrote it.
+ * Files that fail validation are left alone: the directory may belong to a window that
+ * is open right now, and only its storage manager quarantines them.
+ * @throws if the files cannot be read, so that the caller skips the workspace
+ */
+export const loadWorkspaceData = async (
+  workspaceDir: string,
+  encryption: DataEncryption
+): Promise<TrackingData | undefined> => {
+  const dataFile = path.join(workspaceDir, 'timeTrackingData.json');
+  
+  if (await fileExists(dataFile)) {
+    const fileContent = await fs.readFile(dataFile, 'utf-8');
+    // Upgrade in memory only - the owning window persists migrations itself
+    const rawData = migrateTrackingData(parseStoredJson(encryption.decode(fileContent))).data;
+    return deserializeTrackingData(rawData);
+  }
+  
+  return readJournalData(workspaceDir, encryption);
+};
+
 export class CrossWorkspaceManager {
   private readonly logger: Logger;
+  private readonly encryption: DataEncryption;
+  private readonly deviceSync: DeviceSync;
   private readonly globalStoragePath: string;
   private cachedData: AggregatedData | undefined;
   private lastCacheUpdate = 0;
   private readonly CACHE_DURATION = 30000; // 30 seconds
 
-  constructor(context: vscode.ExtensionContext, logger: Logger) {
+  constructor(context: vscode.ExtensionContext, logger: Logger, encryption: DataEncryption) {
     this.logger = logger;
+    this.encryption = encryption;
+    this.deviceSync = new DeviceSync(context, logger, encryption);
     this.globalStoragePath = context.globalStorageUri.fsPath;
   }
 
   /**
    * Get aggregated data from all workspaces
+   * @param maxAge How old cached data may be, in milliseconds
    */
-  async getAggregatedData(): Promise<AggregatedData> {
+  async getAggregatedData(maxAge: number = this.CACHE_DURATION): Promise<AggregatedData> {
     const now = Date.now();
     
     // Return cached data if still valid
-    if (this.cachedData && (now - this.lastCacheUpdate) < this.CACHE_DURATION) {
+    if (this.cachedData && (now - this.lastCacheUpdate) < maxAge) {
       return this.cachedData;
     }
 
     try {
-      const workspacesDir = path.join(this.globalStoragePath, 'workspaces');
+      // Encrypted workspaces can only be read once the keys are loaded
+      await this.encryption.initialize();
+      
+      const workspacesDir = path.join(this.globalStoragePath, WORKSPACES_DIR);
       const aggregatedData = await this.loadAllWorkspaceData(workspacesDir);
       
       this.cachedData = aggregatedData;
@@ -71,6 +116,22 @@ export class CrossWorkspaceManager {
     }
   }
 
+  /**
+   * Sessions of all other workspaces and devices started since a point in time: completed
+   * sessions and the running session of each. The open workspace is left out, its window
+   * has the live data.
+   * @param maxAge How old cached data may be, in milliseconds
+   */
+  async getOtherWorkspaceSessions(since: Date, maxAge: number): Promise<TimeSession[]> {
+    const aggregatedData = await this.getAggregatedData(maxAge);
+    return aggregatedData.workspaces
+      .filter(workspace => workspace.device || belongsToOtherWorkspace(workspace.data))
+      .flatMap(workspace => Array.from(workspace.data.projects.values()).flatMap(project => project.sessions.filter(session =>
+        // Sessions without an end that are not running were left behind by a crash
+        (session.endTime || session.id === workspace.data.currentSession?.id) && session.startTime >= since
+      )));
+  }
+
   /**
    * Force refresh of cached data
    */
@@ -85,7 +146,7 @@ export class CrossWorkspaceManager {
    */
   private async loadAllWorkspaceData(workspacesDir: string): Promise<AggregatedData> {
     const allProjects = new Map<string, ProjectStats>();
-    const workspaces: Array<{ name: string; path: string; data: TrackingData }> = [];
+    const workspaces: AggregatedData['workspaces'] = [];
     let totalTime = 0;
 
     try {
@@ -96,12 +157,12 @@ export class CrossWorkspaceManager {
       
       for (const workspaceHash of workspaceDirs) {
         const workspacePath = path.join(workspacesDir, workspaceHash);
-        const dataFile = path.join(workspacePath, 'timeTrackingData.json');
         
         try {
-          const fileContent = await fs.readFile(dataFile, 'utf-8');
-          const rawData = JSON.parse(fileContent);
-          const trackingData = this.deserializeData(rawData);
+          const trackingData = await loadWorkspaceData(workspacePath, this.encryption);
+          if (!trackingData) {
+            continue;
+          }
           
           // Add workspace to list
           workspaces.push({
@@ -110,16 +171,6 @@ export class CrossWorkspaceManager {
             data: trackingData
           });
           
-          // Merge projects (use full path as key to avoid conflicts)
-          trackingData.projects.forEach((project, projectPath) => {
-            const uniqueKey = `${trackingData.workspaceName || workspaceHash}:${projectPath}`;
-            allProjects.set(uniqueKey, {
-              ...project,
-              projectName: `${project.projectName} (${trackingData.workspaceName || 'Unknown'})`
-            });
-            totalTime += project.totalTime;
-          });
-          
         } catch (error) {
           this.logger.warn(`Failed to load workspace data from ${workspaceHash}`, error as Error);
         }
@@ -128,62 +179,34 @@ export class CrossWorkspaceManager {
       this.logger.debug('Workspaces directory does not exist or is empty');
     }
 
+    // Sessions from other devices join before totals are taken
+    const remote = await this.deviceSync.loadRemoteWorkspaces();
+    const deviceOverlaps = mergeRemoteWorkspaces(workspaces, remote.workspaces, this.deviceSync.deviceName);
+    if (deviceOverlaps.length > 0) {
+      this.logger.info('Overlapping sessions between devices counted once', { overlaps: deviceOverlaps.length });
+    }
+
+    // Merge projects (use full path as key to avoid conflicts)
+    workspaces.forEach(workspace => {
+      workspace.data.projects.forEach((project, projectPath) => {
+        const uniqueKey = `${workspace.data.workspaceName || workspace.name}:${projectPath}${workspace.device ? `@${workspace.device}` : ''}`;
+        allProjects.set(uniqueKey, {
+          ...project,
+          projectName: `${project.projectName} (${workspace.device ? workspace.name : workspace.data.workspaceName || 'Unknown'})`
+        });
+        totalTime += project.totalTime;
+      });
+    });
+
     return {
       allProjects,
       totalTime,
       workspaceCount: workspaces.length,
       lastUpdated: new Date(),
-      workspaces
-    };
-  }
-
-  /**
-   * Deserialize tracking data from JSON
-   */
-  private deserializeData(rawData: any): TrackingData {
-    const projects = new Map<string, ProjectStats>();
-    
-    if (rawData.projects && Array.isArray(rawData.projects)) {
-      rawData.projects.forEach((entry: any) => {
-        const projectStats: ProjectStats = {
-          ...entry.value,
-          lastActivity: new Date(entry.value.lastActivity),
-          firstSession: new Date(entry.value.firstSession),
-          sessions: entry.value.sessions?.map((session: any) => ({
-            ...session,
-            startTime: new Date(session.startTime),
-            endTime: session.endTime ? new Date(session.endTime) : undefined,
-            lastActivity: new Date(session.lastActivity),
-            lastActiveTime: new Date(session.lastActiveTime || session.lastActivity)
-          })) || []
-        };
-        projects.set(entry.key, projectStats);
-      });
-    }
-
-    const data: TrackingData = {
-      projects,
-      currentSession: rawData.currentSession ? {
-        ...rawData.currentSession,
-        startTime: new Date(rawData.currentSession.startTime),
-        endTime: rawData.currentSession.endTime ? new Date(rawData.currentSession.endTime) : undefined,
-        lastActivity: new Date(rawData.currentSession.lastActivity),
-        lastActiveTime: new Date(rawData.currentSession.lastActiveTime || rawData.currentSession.lastActivity)
-      } : undefined,
-      lastActivity: new Date(rawData.lastActivity || new Date()),
-      totalTimeTracked: rawData.totalTimeTracked || 0,
-      version: rawData.version || '1.0.0',
-      lastSaved: new Date(rawData.lastSaved || new Date())
+      workspaces,
+      deviceOverlaps,
+      unreadableSyncFiles: remote.unreadable
     };
-
-    if (rawData.workspacePath) {
-      data.workspacePath = rawData.workspacePath;
-    }
-    if (rawData.workspaceName) {
-      data.workspaceName = rawData.workspaceName;
-    }
-
-    return data;
   }
 
   /**
@@ -195,7 +218,9 @@ export class CrossWorkspaceManager {
       totalTime: 0,
       workspaceCount: 0,
       lastUpdated: new Date(),
-      workspaces: []
+      workspaces: [],
+      deviceOverlaps: [],
+      unreadableSyncFiles: []
     };
   }
 } 
\ No newline at end of file
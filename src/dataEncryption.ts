@@ -0,0 +1,300 @@
+/**
+ * Optional encryption at rest for tracking data files
+ */
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './types';
+import { DataValidationError } from './trackingDataCodec';
+import { FileLock } from './fileLock';
+import { writeFileAtomic } from './fileUtils';
+import { ARCHIVE_DIR } from './sessionArchive';
+import { WORKSPACES_DIR } from './workspaceStorage';
+
+/** SecretStorage key holding the encryption keys */
+const KEYS_SECRET = 'o3-time-tracker.dataEncryptionKeys';
+
+/** Marker every encrypted file starts with */
+const ENVELOPE_PREFIX = '{"o3enc":1,';
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Keys as stored in SecretStorage
+ */
+interface StoredKeys {
+  /** Key used for new writes; encryption is disabled when unset */
+  activeKeyId?: string;
+
+  /** Base64 encoded keys by ID, including keys still needed to read older files */
+  keys: Record<string, string>;
+}
+
+/**
+ * Encrypted file content
+ */
+interface EncryptedEnvelope {
+  o3enc: 1;
+  keyId: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Raised when a file is encrypted with a key that is not in SecretStorage
+ */
+export class EncryptionKeyUnavailableError extends Error {
+  constructor(public readonly keyId: string) {
+    super(`Tracking data is encrypted with unknown key ${keyId}`);
+    this.name = 'EncryptionKeyUnavailableError';
+  }
+}
+
+/**
+ * Result of re-encoding all stored files
+ */
+export interface ReencodeResult {
+  rewritten: number;
+  failed: string[];
+}
+
+/**
+ * Encrypts and decrypts file content with AES-256-GCM using keys kept in SecretStorage.
+ * Plaintext files stay readable at all times, so enabling and disabling never strands data.
+ */
+export class DataEncryption implements vscode.Disposable {
+  private readonly secrets: vscode.SecretStorage;
+  private readonly logger: Logger;
+  private stored: StoredKeys = { keys: {} };
+  private initialized: Promise<void> | undefined;
+  private secretListener: vscode.Disposable | undefined;
+
+  constructor(secrets: vscode.SecretStorage, logger: Logger) {
+    this.secrets = secrets;
+    this.logger = logger;
+  }
+
+  /**
+   * Load keys from SecretStorage and follow changes made by other windows. Safe to call repeatedly.
+   */
+  initialize(): Promise<void> {
+    if (!this.initialized) {
+      this.secretListener = this.secrets.onDidChange(event => {
+        if (event.key === KEYS_SECRET) {
+          this.reloadKeys().catch(error => this.logger.error('Failed to reload encryption keys', error as Error));
+        }
+      });
+      this.initialized = this.reloadKeys();
+    }
+    return this.initialized;
+  }
+
+  /**
+   * Whether new writes are encrypted
+   */
+  get isEnabled(): boolean {
+    return !!this.stored.activeKeyId;
+  }
+
+  /**
+   * Encrypt content with the active key, or return it unchanged when encryption is disabled
+   */
+  encode(plaintext: string): string {
+    const keyId = this.stored.activeKeyId;
+    if (!keyId) {
+      return plaintext;
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.getKey(keyId), iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    const envelope: EncryptedEnvelope = {
+      o3enc: 1,
+      keyId,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    // Single line so journal records stay one per line
+    return JSON.stringify(envelope);
+  }
+
+  /**
+   * Decrypt content if it is encrypted, otherwise return it unchanged
+   * @throws EncryptionKeyUnavailableError if the key is unknown, DataValidationError if the content is damaged
+   */
+  decode(content: string): string {
+    if (!content.startsWith(ENVELOPE_PREFIX)) {
+      return content;
+    }
+
+    let envelope: EncryptedEnvelope;
+    try {
+      envelope = JSON.parse(content) as EncryptedEnvelope;
+    } catch {
+      throw new DataValidationError(['$: damaged encryption envelope']);
+    }
+    if (typeof envelope.keyId !== 'string' || typeof envelope.iv !== 'string' ||
+        typeof envelope.tag !== 'string' || typeof envelope.data !== 'string') {
+      throw new DataValidationError(['$: incomplete encryption envelope']);
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.getKey(envelope.keyId), Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new DataValidationError(['$: encrypted content failed authentication']);
+    }
+  }
+
+  /**
+   * Create a key and use it for all further writes
+   */
+  async enable(): Promise<void> {
+    await this.activateNewKey();
+  }
+
+  /**
+   * Replace the active key with a new one. The old key stays available until `retireInactiveKeys`.
+   */
+  async rotateKey(): Promise<void> {
+    await this.activateNewKey();
+  }
+
+  /**
+   * Stop encrypting new writes. Keys stay available until `retireInactiveKeys`.
+   */
+  async disable(): Promise<void> {
+    const stored = await this.readStoredKeys();
+    delete stored.activeKeyId;
+    await this.writeStoredKeys(stored);
+  }
+
+  /**
+   * Forget every key except the active one, once no file needs them anymore
+   */
+  async retireInactiveKeys(): Promise<void> {
+    const stored = await this.readStoredKeys();
+    const activeKey = stored.activeKeyId ? stored.keys[stored.activeKeyId] : undefined;
+    stored.keys = stored.activeKeyId && activeKey ? { [stored.activeKeyId]: activeKey } : {};
+    await this.writeStoredKeys(stored);
+  }
+
+  dispose(): void {
+    this.secretListener?.dispose();
+  }
+
+  private async activateNewKey(): Promise<void> {
+    const stored = await this.readStoredKeys();
+    const keyId = crypto.randomBytes(8).toString('hex');
+    stored.keys[keyId] = crypto.randomBytes(32).toString('base64');
+    stored.activeKeyId = keyId;
+    await this.writeStoredKeys(stored);
+    this.logger.info('Encryption key activated', { keyId });
+  }
+
+  private getKey(keyId: string): Buffer {
+    const key = this.stored.keys[keyId];
+    if (!key) {
+      throw new EncryptionKeyUnavailableError(keyId);
+    }
+    return Buffer.from(key, 'base64');
+  }
+
+  private async reloadKeys(): Promise<void> {
+    this.stored = await this.readStoredKeys();
+    this.logger.debug('Encryption keys loaded', {
+      enabled: this.isEnabled,
+      keyCount: Object.keys(this.stored.keys).length
+    });
+  }
+
+  private async readStoredKeys(): Promise<StoredKeys> {
+    const value = await this.secrets.get(KEYS_SECRET);
+    if (!value) {
+      return { keys: {} };
+    }
+    const parsed = JSON.parse(value) as StoredKeys;
+    return { ...parsed, keys: { ...parsed.keys } };
+  }
+
+  private async writeStoredKeys(stored: StoredKeys): Promise<void> {
+    await this.secrets.store(KEYS_SECRET, JSON.stringify(stored));
+    // Apply immediately instead of waiting for the change event
+    this.stored = stored;
+  }
+}
+
+/**
+ * Rewrite every data, journal, backup and archive file under globalStorage with the current
+ * encryption setting. Each storage directory is rewritten under its lock file.
+ */
+export const reencodeStoredFiles = async (
+  globalStoragePath: string,
+  encryption: DataEncryption,
+  logger: Logger
+): Promise<ReencodeResult> => {
+  const result: ReencodeResult = { rewritten: 0, failed: [] };
+
+  const storageDirs = [path.join(globalStoragePath, 'global')];
+  try {
+    const workspacesDir = path.join(globalStoragePath, WORKSPACES_DIR);
+    (await fs.readdir(workspacesDir)).forEach(name => storageDirs.push(path.join(workspacesDir, name)));
+  } catch {
+    // No workspace directories yet
+  }
+
+  for (const storageDir of storageDirs) {
+    const files = await listDataFiles(storageDir);
+    if (files.length === 0) {
+      continue;
+    }
+
+    const lock = new FileLock(path.join(storageDir, 'timeTrackingData.lock'), logger);
+    await lock.withLock(async () => {
+      for (const filePath of files) {
+        try {
+          const content = await fs.readFile(filePath, 'utf-8');
+          const reencoded = filePath.endsWith('.jsonl')
+            ? content.split('\n').map(line => (line.trim() ? encryption.encode(encryption.decode(line)) : line)).join('\n')
+            : encryption.encode(encryption.decode(content));
+          if (reencoded !== content) {
+            const { mode } = await fs.stat(filePath);
+            await writeFileAtomic(filePath, reencoded);
+            // Archive files stay read-only
+            await fs.chmod(filePath, mode & 0o777);
+            result.rewritten++;
+          }
+        } catch (error) {
+          logger.warn('Could not re-encode data file', { filePath, error: (error as Error).message });
+          result.failed.push(filePath);
+        }
+      }
+    });
+  }
+
+  logger.info('Stored files re-encoded', { encrypted: encryption.isEnabled, ...result });
+  return result;
+};
+
+/**
+ * Data files in a storage directory and its backups and archive folders (quarantined files are left alone)
+ */
+const listDataFiles = async (storageDir: string): Promise<string[]> => {
+  const files: string[] = [];
+  for (const dir of [storageDir, path.join(storageDir, 'backups'), path.join(storageDir, ARCHIVE_DIR)]) {
+    try {
+      (await fs.readdir(dir))
+        .filter(name => !name.startsWith('.') && (name.endsWith('.json') || name.endsWith('.jsonl')))
+        .forEach(name => files.push(path.join(dir, name)));
+    } catch {
+      // Directory does not exist
+    }
+  }
+  return files;
+};
@@ -0,0 +1,279 @@
+/**
+ * Integrity checks and automatic repairs for tracking data
+ */
+
+import { TrackingData, TimeSession } from './types';
+import { recalculateProjectStats } from './projectStats';
+import { formatDetailedTime } from './timeUtils';
+import { clipSegments } from './activeSegments';
+import { splitFileTimes } from './fileTimes';
+
+/**
+ * Kinds of problems the integrity check can find
+ */
+export type IntegrityIssueKind =
+  | 'duplicate-session-id'
+  | 'negative-time'
+  | 'impossible-time'
+  | 'unclosed-session'
+  | 'overlapping-sessions'
+  | 'stats-mismatch';
+
+/**
+ * A single problem found in the data
+ */
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+
+  /** Human readable description */
+  message: string;
+
+  /** Project the issue belongs to */
+  projectPath: string;
+
+  /** Sessions involved, if any */
+  sessionIds: string[];
+
+  /** Whether `repairIntegrityIssues` can fix this automatically */
+  fixable: boolean;
+}
+
+/** Rounding tolerance when comparing active time to wall-clock time */
+const TIME_TOLERANCE = 1000;
+
+const formatSession = (session: TimeSession): string => {
+  return `${session.startTime.toLocaleString('de-DE')} (${session.projectName})`;
+};
+
+/**
+ * Wall-clock end of a session for overlap checks
+ */
+const getEffectiveEnd = (session: TimeSession, data: TrackingData): Date => {
+  if (session.endTime) {
+    return session.endTime;
+  }
+  return session.id === data.currentSession?.id ? new Date() : session.lastActivity;
+};
+
+/**
+ * Scan tracking data for inconsistencies
+ */
+export const checkDataIntegrity = (data: TrackingData): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const seenIds = new Map<string, string>();
+  const allSessions: TimeSession[] = [];
+
+  data.projects.forEach((project, projectPath) => {
+    project.sessions.forEach(session => {
+      const firstProject = seenIds.get(session.id);
+      if (firstProject !== undefined) {
+        issues.push({
+          kind: 'duplicate-session-id',
+          message: `Session-ID ${session.id} kommt mehrfach vor`,
+          projectPath,
+          sessionIds: [session.id],
+          fixable: true
+        });
+        return;
+      }
+      seenIds.set(session.id, projectPath);
+      allSessions.push(session);
+
+      if (session.totalTime < 0) {
+        issues.push({
+          kind: 'negative-time',
+          message: `Negative Zeit in Session ${formatSession(session)}`,
+          projectPath,
+          sessionIds: [session.id],
+          fixable: true
+        });
+      }
+
+      const wallClock = getEffectiveEnd(session, data).getTime() - session.startTime.getTime();
+      if (wallClock < 0) {
+        issues.push({
+          kind: 'impossible-time',
+          message: `Session ${formatSession(session)} endet vor ihrem Start`,
+          projectPath,
+          sessionIds: [session.id],
+          fixable: true
+        });
+      } else if (session.totalTime > wallClock + TIME_TOLERANCE) {
+        issues.push({
+          kind: 'impossible-time',
+          message: `Session ${formatSession(session)} hat ${formatDetailedTime(session.totalTime)} aktive Zeit in ${formatDetailedTime(wallClock)} Laufzeit`,
+          projectPath,
+          sessionIds: [session.id],
+          fixable: true
+        });
+      }
+
+      if (!session.endTime && session.id !== data.currentSession?.id) {
+        issues.push({
+          kind: 'unclosed-session',
+          message: `Session ${formatSession(session)} wurde nie beendet`,
+          projectPath,
+          sessionIds: [session.id],
+          fixable: true
+        });
+      }
+    });
+
+    const sessionSum = project.sessions
+      .filter(session => session.endTime)
+      .reduce((sum, session) => sum + session.totalTime, 0) +
+      project.dailyRollups.reduce((sum, rollup) => sum + rollup.totalTime, 0);
+    if (Math.abs(sessionSum - project.totalTime) > TIME_TOLERANCE) {
+      issues.push({
+        kind: 'stats-mismatch',
+        message: `Projekt ${project.projectName}: Gesamtzeit ${formatDetailedTime(project.totalTime)} weicht von der Summe der Sessions (${formatDetailedTime(sessionSum)}) ab`,
+        projectPath,
+        sessionIds: [],
+        fixable: true
+      });
+    }
+  });
+
+  // Overlaps are checked across projects - one person cannot work on two sessions at once.
+  // Each session is compared with the one reaching furthest so far, so a long session
+  // overlapping several later ones is reported for each of them.
+  allSessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  let earlier: TimeSession | undefined;
+  for (const later of allSessions) {
+    if (!earlier) {
+      earlier = later;
+      continue;
+    }
+
+    const earlierEnd = getEffectiveEnd(earlier, data);
+    const laterEnd = getEffectiveEnd(later, data);
+    if (later.startTime < earlierEnd) {
+      const contained = laterEnd <= earlierEnd;
+      issues.push({
+        kind: 'overlapping-sessions',
+        message: contained
+          ? `Session ${formatSession(later)} liegt vollständig in ${formatSession(earlier)}`
+          : `Session ${formatSession(earlier)} überschneidet sich mit ${formatSession(later)}`,
+        projectPath: earlier.projectPath,
+        sessionIds: [earlier.id, later.id],
+        // Trimming a session that fully contains another would drop real work
+        fixable: !contained && earlier.id !== data.currentSession?.id
+      });
+    }
+    if (laterEnd > earlierEnd) {
+      earlier = later;
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Clamp a session's active time to its wall-clock duration. Active segments are cut at the end,
+ * file and debugging times shrink along with the active time.
+ */
+const clampSessionTime = (session: TimeSession, end: Date): void => {
+  const previousTime = session.totalTime;
+  const wallClock = Math.max(0, end.getTime() - session.startTime.getTime());
+  session.totalTime = Math.min(Math.max(0, session.totalTime), wallClock);
+
+  if (session.activeSegments) {
+    session.activeSegments = clipSegments(session.activeSegments, session.startTime, end);
+    if (session.activeSegments.length === 0) {
+      delete session.activeSegments;
+    }
+  }
+
+  const share = previousTime > 0 ? session.totalTime / previousTime : 0;
+  if (share >= 1) {
+    return;
+  }
+  if (session.files) {
+    session.files = splitFileTimes(session.files, share)[0];
+    if (session.files.length === 0) {
+      delete session.files;
+    }
+  }
+  if (session.debugTime) {
+    session.debugTime = Math.round(session.debugTime * share);
+    if (session.debugTime === 0) {
+      delete session.debugTime;
+    }
+  }
+};
+
+/**
+ * Apply automatic fixes for all fixable issues, in place
+ * @returns Number of issues that were fixed
+ */
+export const repairIntegrityIssues = (data: TrackingData, issues: IntegrityIssue[]): number => {
+  const fixable = issues.filter(issue => issue.fixable);
+  const findSession = (sessionId: string): TimeSession | undefined => {
+    for (const project of data.projects.values()) {
+      const session = project.sessions.find(candidate => candidate.id === sessionId);
+      if (session) {
+        return session;
+      }
+    }
+    return undefined;
+  };
+
+  // Duplicates first so later fixes address the surviving copy
+  const seenIds = new Set<string>();
+  data.projects.forEach(project => {
+    project.sessions = project.sessions.filter(session => {
+      if (seenIds.has(session.id)) {
+        return false;
+      }
+      seenIds.add(session.id);
+      return true;
+    });
+  });
+
+  fixable.forEach(issue => {
+    const sessions = issue.sessionIds
+      .map(findSession)
+      .filter((session): session is TimeSession => !!session);
+
+    switch (issue.kind) {
+      case 'negative-time':
+        sessions.forEach(session => {
+          session.totalTime = 0;
+        });
+        break;
+      case 'unclosed-session':
+        sessions.forEach(session => {
+          session.endTime = session.lastActiveTime > session.startTime ? session.lastActiveTime : session.lastActivity;
+          session.isActive = false;
+          clampSessionTime(session, session.endTime);
+        });
+        break;
+      case 'impossible-time':
+        sessions.forEach(session => {
+          if (session.endTime && session.endTime < session.startTime) {
+            session.endTime = new Date(session.startTime.getTime() + Math.max(0, session.totalTime));
+          }
+          clampSessionTime(session, getEffectiveEnd(session, data));
+        });
+        break;
+      case 'overlapping-sessions': {
+        const [earlier, later] = sessions;
+        if (earlier && later && later.startTime < getEffectiveEnd(earlier, data)) {
+          earlier.endTime = new Date(later.startTime);
+          earlier.isActive = false;
+          clampSessionTime(earlier, earlier.endTime);
+        }
+        break;
+      }
+      case 'duplicate-session-id':
+      case 'stats-mismatch':
+        // Handled by the duplicate pass above and the recalculation below
+        break;
+    }
+  });
+
+  // Overlap fixes can touch sessions of other projects - recalculate all totals
+  data.projects.forEach(project => recalculateProjectStats(project));
+
+  return fixable.length;
+};
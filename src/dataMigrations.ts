@@ -0,0 +1,223 @@
+/**
+ * Versioned schema migrations for persisted tracking data
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './types';
+
+/**
+ * Current on-disk data format version written by this extension
+ */
+export const CURRENT_DATA_VERSION = '1.2.0';
+
+/**
+ * Raised when a data file was written by a newer version of the extension
+ */
+export class UnsupportedDataVersionError extends Error {
+  constructor(
+    public readonly fileVersion: string,
+    public readonly supportedVersion: string = CURRENT_DATA_VERSION
+  ) {
+    super(`Data version ${fileVersion} is newer than the supported version ${supportedVersion}`);
+    this.name = 'UnsupportedDataVersionError';
+  }
+}
+
+/**
+ * A single migration step that upgrades raw data from one version to the next
+ */
+interface DataMigration {
+  /** Version this migration upgrades from */
+  from: string;
+
+  /** Version produced by this migration */
+  to: string;
+
+  /** Short description for logging */
+  description: string;
+
+  /** Transform the raw (JSON) data; may mutate and return the input */
+  migrate(rawData: any): any;
+}
+
+/**
+ * Result of running the migration pipeline
+ */
+export interface MigrationResult {
+  /** Migrated raw data at CURRENT_DATA_VERSION */
+  data: any;
+
+  /** Version the data had before migration */
+  fromVersion: string;
+
+  /** Descriptions of the migrations that were applied, in order */
+  applied: string[];
+}
+
+/**
+ * Ordered list of migrations. Each entry's `from` must equal the previous entry's `to`.
+ */
+const MIGRATIONS: DataMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Backfill lastActiveTime and activity counters on sessions',
+    migrate: (rawData: any) => {
+      const upgradeSession = (session: any): any => ({
+        ...session,
+        lastActiveTime: session.lastActiveTime || session.lastActivity,
+        textChanges: session.textChanges ?? 0,
+        cursorMovements: session.cursorMovements ?? 0
+      });
+
+      if (Array.isArray(rawData.projects)) {
+        rawData.projects = rawData.projects.map((entry: any) => ({
+          ...entry,
+          value: {
+            ...entry.value,
+            sessions: Array.isArray(entry.value?.sessions)
+              ? entry.value.sessions.map(upgradeSession)
+              : []
+          }
+        }));
+      } else {
+        rawData.projects = [];
+      }
+
+      if (rawData.currentSession) {
+        rawData.currentSession = upgradeSession(rawData.currentSession);
+      }
+
+      return rawData;
+    }
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Add empty daily rollups for archived sessions to projects',
+    migrate: (rawData: any) => {
+      if (Array.isArray(rawData.projects)) {
+        rawData.projects = rawData.projects.map((entry: any) => ({
+          ...entry,
+          value: {
+            ...entry.value,
+            dailyRollups: Array.isArray(entry.value?.dailyRollups) ? entry.value.dailyRollups : []
+          }
+        }));
+      }
+
+      return rawData;
+    }
+  }
+];
+
+/**
+ * Compare two dotted version strings
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export const compareDataVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  return 0;
+};
+
+/**
+ * Get the version of raw data, treating files without a version as the initial format
+ */
+export const getDataVersion = (rawData: any): string => {
+  return typeof rawData?.version === 'string' ? rawData.version : '1.0.0';
+};
+
+/**
+ * Check whether raw data needs to be migrated before it can be used
+ * @throws UnsupportedDataVersionError if the data is newer than this extension supports
+ */
+export const needsMigration = (rawData: any): boolean => {
+  const version = getDataVersion(rawData);
+  if (compareDataVersions(version, CURRENT_DATA_VERSION) > 0) {
+    throw new UnsupportedDataVersionError(version);
+  }
+  return compareDataVersions(version, CURRENT_DATA_VERSION) < 0;
+};
+
+/**
+ * Run all migrations needed to bring raw data up to CURRENT_DATA_VERSION
+ * @throws UnsupportedDataVersionError if the data is newer than this extension supports
+ */
+export const migrateTrackingData = (rawData: any): MigrationResult => {
+  const fromVersion = getDataVersion(rawData);
+  const applied: string[] = [];
+
+  if (!needsMigration(rawData)) {
+    return { data: rawData, fromVersion, applied };
+  }
+
+  let data = rawData;
+  let version = fromVersion;
+
+  for (const migration of MIGRATIONS) {
+    if (compareDataVersions(migration.to, version) <= 0) {
+      continue;
+    }
+    data = migration.migrate(data);
+    data.version = migration.to;
+    version = migration.to;
+    applied.push(`${migration.from} -> ${migration.to}: ${migration.description}`);
+  }
+
+  // Unknown intermediate versions end up here without a matching step
+  data.version = CURRENT_DATA_VERSION;
+
+  return { data, fromVersion, applied };
+};
+
+/**
+ * Migrate raw data loaded from a file, first writing the original content to
+ * `<name>.pre-migration-<version>.json` next to it
+ * @throws UnsupportedDataVersionError if the file is newer than this extension supports
+ */
+export const migrateWithSnapshot = async (
+  rawData: any,
+  originalContent: string,
+  filePath: string,
+  logger: Logger
+): Promise<any> => {
+  if (!needsMigration(rawData)) {
+    return rawData;
+  }
+
+  const fromVersion = getDataVersion(rawData);
+  const snapshotPath = path.join(
+    path.dirname(filePath),
+    `${path.basename(filePath, '.json')}.pre-migration-${fromVersion}.json`
+  );
+
+  try {
+    // Keep the oldest snapshot for a version if one already exists
+    await fs.writeFile(snapshotPath, originalContent, { encoding: 'utf-8', flag: 'wx' });
+    logger.info('Pre-migration snapshot written', { snapshotPath });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  }
+
+  const result = migrateTrackingData(rawData);
+  logger.info('Tracking data migrated', {
+    fromVersion: result.fromVersion,
+    toVersion: CURRENT_DATA_VERSION,
+    migrations: result.applied
+  });
+
+  return result.data;
+};
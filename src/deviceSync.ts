@@ -0,0 +1,374 @@
+/**
+ * Sync of tracking data between devices through a shared folder (Syncthing, Nextcloud, ...)
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { TrackingData, TimeSession, ProjectStats, DailyRollup, Logger } from './types';
+import { serializeTrackingData, deserializeTrackingData, parseStoredJson } from './trackingDataCodec';
+import { migrateTrackingData } from './dataMigrations';
+import { mergeTrackingData } from './trackingDataMerge';
+import { recalculateProjectStats } from './projectStats';
+import { writeFileAtomic } from './fileUtils';
+import { DataEncryption } from './dataEncryption';
+
+/** Folder inside the sync folder that holds this extension's files */
+const SYNC_ROOT = 'o3-time-tracker';
+
+const DEVICES_DIR = 'devices';
+const DEVICE_FILE = 'device.json';
+const WORKSPACES_DIR = 'workspaces';
+
+/** globalState key of this device's ID (globalState is not synced by Settings Sync) */
+const DEVICE_ID_KEY = 'o3-time-tracker.deviceId';
+
+/**
+ * Device as described in its `device.json`
+ */
+export interface DeviceInfo {
+  deviceId: string;
+  deviceName: string;
+  lastSync: string;
+}
+
+/**
+ * Data of one workspace published by another device
+ */
+export interface RemoteWorkspace {
+  device: DeviceInfo;
+  data: TrackingData;
+}
+
+/**
+ * Synced file of another device that could not be read
+ */
+export interface UnreadableSyncFile {
+  filePath: string;
+  deviceName: string;
+  error: string;
+}
+
+/**
+ * Everything read from other devices' folders
+ */
+export interface RemoteWorkspaces {
+  workspaces: RemoteWorkspace[];
+  unreadable: UnreadableSyncFile[];
+}
+
+/**
+ * Sessions of two devices that ran at the same time. The overlap is only counted once:
+ * it is subtracted from the session with less active time.
+ */
+export interface DeviceOverlap {
+  kept: TimeSession;
+  keptDevice: string;
+  trimmed: TimeSession;
+  trimmedDevice: string;
+
+  /** Wall-clock overlap in milliseconds */
+  overlap: number;
+}
+
+/**
+ * Workspace entry of the cross-workspace aggregation
+ */
+interface AggregatedWorkspace {
+  name: string;
+  path: string;
+  data: TrackingData;
+  device?: string;
+}
+
+/**
+ * Publishes this device's workspace data into the sync folder and reads the data
+ * other devices published there. Each device only ever writes below its own ID.
+ */
+export class DeviceSync {
+  private readonly context: vscode.ExtensionContext;
+  private readonly logger: Logger;
+  private readonly encryption: DataEncryption;
+  private lastPublished = 0;
+  private encryptionWarningShown = false;
+
+  private readonly PUBLISH_INTERVAL = 5 * 60 * 1000; // 5 minutes - keeps sync clients from constant uploads
+
+  constructor(context: vscode.ExtensionContext, logger: Logger, encryption: DataEncryption) {
+    this.context = context;
+    this.logger = logger;
+    this.encryption = encryption;
+  }
+
+  /**
+   * Whether a sync folder is configured
+   */
+  get isEnabled(): boolean {
+    return !!this.getSyncRoot();
+  }
+
+  /**
+   * Name of this device as shown on other devices
+   */
+  get deviceName(): string {
+    return os.hostname();
+  }
+
+  /**
+   * ID of this device, created on first use
+   */
+  getDeviceId(): string {
+    let deviceId = this.context.globalState.get<string>(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomBytes(8).toString('hex');
+      void this.context.globalState.update(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  /**
+   * Write a workspace's data into this device's folder in the sync folder. Nothing is
+   * written while encryption is enabled: the key exists only on this device, so other
+   * devices could not read the files.
+   * @param workspaceDir Name of the workspace's local storage directory
+   * @param force Publish even if the last publish was recent
+   */
+  async publish(data: TrackingData, workspaceDir: string, force = false): Promise<void> {
+    const syncRoot = this.getSyncRoot();
+    if (!syncRoot || (!force && Date.now() - this.lastPublished < this.PUBLISH_INTERVAL)) {
+      return;
+    }
+    if (this.encryption.isEnabled) {
+      this.warnEncryptionEnabled();
+      return;
+    }
+
+    try {
+      const deviceDir = path.join(syncRoot, DEVICES_DIR, this.getDeviceId());
+      await fs.mkdir(path.join(deviceDir, WORKSPACES_DIR), { recursive: true });
+
+      await writeFileAtomic(
+        path.join(deviceDir, WORKSPACES_DIR, `${workspaceDir}.json`),
+        JSON.stringify(serializeTrackingData(data), null, 2)
+      );
+
+      const device: DeviceInfo = {
+        deviceId: this.getDeviceId(),
+        deviceName: this.deviceName,
+        lastSync: new Date().toISOString()
+      };
+      await writeFileAtomic(path.join(deviceDir, DEVICE_FILE), JSON.stringify(device, null, 2));
+
+      this.lastPublished = Date.now();
+      this.logger.debug('Workspace data published to sync folder', { deviceDir, workspaceDir });
+    } catch (error) {
+      // A missing or offline sync folder must never affect local tracking
+      this.logger.warn('Failed to publish data to sync folder', { error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Read the workspace data published by all other devices. Files that cannot be read
+   * (newer version, encrypted by an older version, half-synced) are skipped and reported.
+   */
+  async loadRemoteWorkspaces(): Promise<RemoteWorkspaces> {
+    const remote: RemoteWorkspaces = { workspaces: [], unreadable: [] };
+    const syncRoot = this.getSyncRoot();
+    if (!syncRoot) {
+      return remote;
+    }
+
+    let deviceIds: string[];
+    try {
+      deviceIds = await fs.readdir(path.join(syncRoot, DEVICES_DIR));
+    } catch {
+      return remote;
+    }
+
+    const ownDeviceId = this.getDeviceId();
+
+    for (const deviceId of deviceIds.filter(id => id !== ownDeviceId)) {
+      const deviceDir = path.join(syncRoot, DEVICES_DIR, deviceId);
+      const device = await this.readDeviceInfo(deviceDir, deviceId);
+
+      let fileNames: string[];
+      try {
+        fileNames = (await fs.readdir(path.join(deviceDir, WORKSPACES_DIR))).filter(name => name.endsWith('.json'));
+      } catch {
+        continue;
+      }
+
+      for (const fileName of fileNames) {
+        const filePath = path.join(deviceDir, WORKSPACES_DIR, fileName);
+        try {
+          const content = await fs.readFile(filePath, 'utf-8');
+          const rawData = migrateTrackingData(parseStoredJson(this.encryption.decode(content))).data;
+          remote.workspaces.push({ device, data: deserializeTrackingData(rawData) });
+        } catch (error) {
+          this.logger.warn('Skipping unreadable synced workspace', { filePath, error: (error as Error).message });
+          remote.unreadable.push({ filePath, deviceName: device.deviceName, error: (error as Error).message });
+        }
+      }
+    }
+
+    return remote;
+  }
+
+  private warnEncryptionEnabled(): void {
+    this.logger.warn('Not publishing to sync folder while encryption is enabled');
+    if (this.encryptionWarningShown) {
+      return;
+    }
+    this.encryptionWarningShown = true;
+    void vscode.window.showWarningMessage(
+      'Die Synchronisierung zwischen Geräten ist ausgesetzt, solange die Verschlüsselung aktiviert ist: ' +
+      'Der Schlüssel liegt nur auf diesem Gerät, andere Geräte könnten die Daten nicht lesen.'
+    );
+  }
+
+  private async readDeviceInfo(deviceDir: string, deviceId: string): Promise<DeviceInfo> {
+    try {
+      const info = JSON.parse(await fs.readFile(path.join(deviceDir, DEVICE_FILE), 'utf-8'));
+      if (typeof info?.deviceName === 'string') {
+        return { deviceId, deviceName: info.deviceName, lastSync: String(info.lastSync ?? '') };
+      }
+    } catch {
+      // Not synced yet
+    }
+    return { deviceId, deviceName: deviceId, lastSync: '' };
+  }
+
+  private getSyncRoot(): string | undefined {
+    const folder = vscode.workspace.getConfiguration('o3-time-tracker').get<string>('syncFolder', '').trim();
+    return folder ? path.join(folder, SYNC_ROOT) : undefined;
+  }
+}
+
+/**
+ * Merge other devices' workspaces into the aggregated workspaces, in place.
+ * A remote workspace joins the local workspace with the same ID or name; its projects
+ * are matched by folder name because paths differ between devices, and its sessions by ID.
+ * @returns Overlaps between devices that were resolved
+ */
+export const mergeRemoteWorkspaces = (
+  workspaces: AggregatedWorkspace[],
+  remote: RemoteWorkspace[],
+  localDeviceName: string
+): DeviceOverlap[] => {
+  const sessionDevices = new Map<string, string>();
+
+  remote.forEach(({ device, data }) => {
+    // A session still running on another device is counted once it has been finished there
+    delete data.currentSession;
+    data.projects.forEach(project => project.sessions.forEach(session => sessionDevices.set(session.id, device.deviceName)));
+
+    const local = workspaces.find(workspace =>
+      (data.workspaceId && workspace.data.workspaceId === data.workspaceId) ||
+      (data.workspaceName && workspace.data.workspaceName === data.workspaceName)
+    );
+    if (local) {
+      mergeDeviceData(local.data, data);
+    } else {
+      workspaces.push({
+        name: `${data.workspaceName || 'Workspace'} (${device.deviceName})`,
+        path: data.workspacePath || 'Unknown',
+        data,
+        device: device.deviceName
+      });
+    }
+  });
+
+  return resolveDeviceOverlaps(workspaces, sessionDevices, localDeviceName);
+};
+
+/**
+ * Merge another device's data of the same workspace into the local data, in place
+ */
+const mergeDeviceData = (local: TrackingData, remote: TrackingData): void => {
+  const remapped = new Map<string, ProjectStats>();
+  const remoteRollups = new Map<string, DailyRollup[]>();
+
+  remote.projects.forEach(project => {
+    const localPath = Array.from(local.projects.values())
+      .find(candidate => candidate.projectName === project.projectName)?.projectPath ?? project.projectPath;
+    project.sessions.forEach(session => {
+      session.projectPath = localPath;
+    });
+    // The devices archived different sessions, so their rollups add up
+    remoteRollups.set(localPath, project.dailyRollups);
+    remapped.set(localPath, { ...project, projectPath: localPath, dailyRollups: [] });
+  });
+
+  mergeTrackingData(local, { ...remote, projects: remapped }, new Set());
+
+  remoteRollups.forEach((rollups, projectPath) => {
+    const project = local.projects.get(projectPath);
+    if (!project || rollups.length === 0) {
+      return;
+    }
+    const byDate = new Map(project.dailyRollups.map(rollup => [rollup.date, { ...rollup }]));
+    rollups.forEach(rollup => {
+      const existing = byDate.get(rollup.date);
+      if (existing) {
+        existing.totalTime += rollup.totalTime;
+        existing.sessionCount += rollup.sessionCount;
+      } else {
+        byDate.set(rollup.date, { ...rollup });
+      }
+    });
+    project.dailyRollups = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    recalculateProjectStats(project);
+  });
+};
+
+/**
+ * Count time during which sessions of different devices overlap only once, by
+ * removing the overlap from the session with less active time
+ */
+const resolveDeviceOverlaps = (
+  workspaces: AggregatedWorkspace[],
+  sessionDevices: Map<string, string>,
+  localDeviceName: string
+): DeviceOverlap[] => {
+  const entries: Array<{ session: TimeSession; device: string; project: ProjectStats }> = [];
+  workspaces.forEach(workspace => {
+    workspace.data.projects.forEach(project => {
+      project.sessions
+        .filter(session => session.endTime)
+        .forEach(session => entries.push({ session, device: sessionDevices.get(session.id) ?? localDeviceName, project }));
+    });
+  });
+  entries.sort((a, b) => a.session.startTime.getTime() - b.session.startTime.getTime());
+
+  const overlaps: DeviceOverlap[] = [];
+  const touched = new Set<ProjectStats>();
+
+  entries.forEach((earlier, index) => {
+    const earlierEnd = earlier.session.endTime!.getTime();
+    for (const later of entries.slice(index + 1)) {
+      if (later.session.startTime.getTime() >= earlierEnd) {
+        break;
+      }
+      if (later.device === earlier.device) {
+        continue;
+      }
+
+      const overlap = Math.min(earlierEnd, later.session.endTime!.getTime()) - later.session.startTime.getTime();
+      const [kept, trimmed] = earlier.session.totalTime >= later.session.totalTime ? [earlier, later] : [later, earlier];
+      trimmed.session.totalTime = Math.max(0, trimmed.session.totalTime - overlap);
+      touched.add(trimmed.project);
+      overlaps.push({
+        kept: kept.session,
+        keptDevice: kept.device,
+        trimmed: trimmed.session,
+        trimmedDevice: trimmed.device,
+        overlap
+      });
+    }
+  });
+
+  touched.forEach(project => recalculateProjectStats(project));
+  return overlaps;
+};
@@ -4,9 +4,12 @@
 
 import * as vscode from 'vscode';
 import { TimeTracker } from './timeTracker';
-import { Logger } from './types';
-import { TimeViewProvider, ProjectsViewProvider } from './timeViewProvider';
+import { Logger, ReportTimeZone } from './types';
+import { TimeViewProvider, ProjectsViewProvider, TimeViewItem } from './timeViewProvider';
 import { GlobalSummaryViewProvider } from './globalSummaryViewProvider';
+import { DataEncryption } from './dataEncryption';
+import { resolveWorkspaceStorage } from './workspaceStorage';
+import { getCurrentTimeZone } from './timeUtils';
 
 /**
  * Simple console logger implementation
@@ -61,6 +64,7 @@ class ConsoleLogger implements Logger {
 // Global extension state
 let timeTracker: TimeTracker | undefined;
 let logger: ConsoleLogger | undefined;
+let dataEncryption: DataEncryption | undefined;
 let timeViewProvider: TimeViewProvider | undefined;
 let projectsViewProvider: ProjectsViewProvider | undefined;
 let globalSummaryViewProvider: GlobalSummaryViewProvider | undefined;
@@ -68,18 +72,25 @@ let globalSummaryViewProvider: GlobalSummaryViewProvider | undefined;
 /**
  * Called when the extension is activated
  */
-export function activate(context: vscode.ExtensionContext): void {
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
   logger = new ConsoleLogger();
   logger.info('O3 Time Tracker extension is being activated');
 
   try {
+    // The storage directory depends on the durable workspace ID
+    await resolveWorkspaceStorage(context, logger);
+
+    // Encryption keys are shared by the tracker and the global summary
+    dataEncryption = new DataEncryption(context.secrets, logger);
+    context.subscriptions.push(dataEncryption);
+
     // Initialize the time tracker
-    timeTracker = new TimeTracker(context, logger);
+    timeTracker = new TimeTracker(context, logger, dataEncryption);
 
     // Initialize view providers
     timeViewProvider = new TimeViewProvider();
     projectsViewProvider = new ProjectsViewProvider();
-    globalSummaryViewProvider = new GlobalSummaryViewProvider(context, logger);
+    globalSummaryViewProvider = new GlobalSummaryViewProvider(context, logger, dataEncryption);
 
     // Register tree data providers
     vscode.window.registerTreeDataProvider('o3-time-tracker.timeView', timeViewProvider);
@@ -96,7 +107,9 @@ export function activate(context: vscode.ExtensionContext): void {
     setupLifecycleHandlers(context);
 
     // Start the time tracker
-    timeTracker.start();
+    timeTracker.start().catch(error => {
+      logger?.error('Failed to start time tracker', error as Error);
+    });
 
     logger.info('O3 Time Tracker extension activated successfully');
   } catch (error) {
@@ -127,6 +140,7 @@ export async function deactivate(): Promise<void> {
     logger?.dispose();
     timeTracker = undefined;
     logger = undefined;
+    dataEncryption = undefined;
     timeViewProvider = undefined;
     projectsViewProvider = undefined;
     globalSummaryViewProvider = undefined;
@@ -219,7 +233,9 @@ function registerCommands(context: vscode.ExtensionContext): void {
 
     vscode.commands.registerCommand('o3-time-tracker.showDetailedTimeLog', async () => {
       try {
-        await timeTracker?.showDetailedTimeLog();
+        if (await timeTracker?.showDetailedTimeLog()) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
       } catch (error) {
         logger?.error('Failed to show detailed time log', error as Error);
         vscode.window.showErrorMessage('Failed to show detailed time log');
@@ -235,6 +251,190 @@ function registerCommands(context: vscode.ExtensionContext): void {
       }
     }),
 
+    vscode.commands.registerCommand('o3-time-tracker.addManualEntry', async () => {
+      try {
+        if (await timeTracker?.addManualEntry()) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to add manual entry', error as Error);
+        vscode.window.showErrorMessage('Failed to add manual time entry');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.undoLastAction', async () => {
+      try {
+        if (await timeTracker?.undoLastAction()) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to undo last action', error as Error);
+        vscode.window.showErrorMessage('Failed to undo last action');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.startPomodoro', () => {
+      try {
+        timeTracker?.startPomodoro();
+      } catch (error) {
+        logger?.error('Failed to start Pomodoro mode', error as Error);
+        vscode.window.showErrorMessage('Failed to start Pomodoro mode');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.stopPomodoro', () => {
+      try {
+        timeTracker?.stopPomodoro();
+      } catch (error) {
+        logger?.error('Failed to stop Pomodoro mode', error as Error);
+        vscode.window.showErrorMessage('Failed to stop Pomodoro mode');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.annotateCurrentSession', async () => {
+      try {
+        if (await timeTracker?.annotateCurrentSession()) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to annotate current session', error as Error);
+        vscode.window.showErrorMessage('Failed to annotate current session');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.annotateSession', async (item?: TimeViewItem) => {
+      try {
+        if (await timeTracker?.annotateSession(item?.sessionId)) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to annotate session', error as Error);
+        vscode.window.showErrorMessage('Failed to annotate session');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.editSession', async (item?: TimeViewItem) => {
+      try {
+        if (await timeTracker?.showSessionActions(item?.sessionId)) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to edit session', error as Error);
+        vscode.window.showErrorMessage('Failed to edit session');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.editSessionTimes', async (item?: TimeViewItem) => {
+      try {
+        if (await timeTracker?.editSessionTimes(item?.sessionId)) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to edit session times', error as Error);
+        vscode.window.showErrorMessage('Failed to edit session times');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.splitSession', async (item?: TimeViewItem) => {
+      try {
+        if (await timeTracker?.splitSession(item?.sessionId)) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to split session', error as Error);
+        vscode.window.showErrorMessage('Failed to split session');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.mergeSession', async (item?: TimeViewItem) => {
+      try {
+        if (await timeTracker?.mergeSession(item?.sessionId)) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to merge sessions', error as Error);
+        vscode.window.showErrorMessage('Failed to merge sessions');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.moveSession', async (item?: TimeViewItem) => {
+      try {
+        if (await timeTracker?.moveSession(item?.sessionId)) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to move session', error as Error);
+        vscode.window.showErrorMessage('Failed to move session');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.deleteSession', async (item?: TimeViewItem) => {
+      try {
+        if (await timeTracker?.deleteSession(item?.sessionId)) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to delete session', error as Error);
+        vscode.window.showErrorMessage('Failed to delete session');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.restoreBackup', async () => {
+      try {
+        await timeTracker?.restoreFromBackup();
+      } catch (error) {
+        logger?.error('Failed to restore from backup', error as Error);
+        vscode.window.showErrorMessage('Failed to restore from backup');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.verifyData', async () => {
+      try {
+        await timeTracker?.verifyData();
+      } catch (error) {
+        logger?.error('Failed to verify data', error as Error);
+        vscode.window.showErrorMessage('Failed to verify tracking data');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.relocateWorkspaceHistory', async () => {
+      try {
+        if (await timeTracker?.relocateWorkspaceHistory()) {
+          await globalSummaryViewProvider?.forceRefresh();
+        }
+      } catch (error) {
+        logger?.error('Failed to relocate workspace history', error as Error);
+        vscode.window.showErrorMessage('Failed to relocate workspace history');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.enableEncryption', async () => {
+      try {
+        await timeTracker?.enableEncryption();
+      } catch (error) {
+        logger?.error('Failed to enable encryption', error as Error);
+        vscode.window.showErrorMessage('Failed to enable encryption');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.disableEncryption', async () => {
+      try {
+        await timeTracker?.disableEncryption();
+      } catch (error) {
+        logger?.error('Failed to disable encryption', error as Error);
+        vscode.window.showErrorMessage('Failed to disable encryption');
+      }
+    }),
+
+    vscode.commands.registerCommand('o3-time-tracker.rotateEncryptionKey', async () => {
+      try {
+        await timeTracker?.rotateEncryptionKey();
+      } catch (error) {
+        logger?.error('Failed to rotate encryption key', error as Error);
+        vscode.window.showErrorMessage('Failed to rotate encryption key');
+      }
+    }),
+
     vscode.commands.registerCommand('o3-time-tracker.refreshTimeView', () => {
       timeViewProvider?.refresh();
       projectsViewProvider?.refresh();
@@ -250,6 +450,21 @@ function registerCommands(context: vscode.ExtensionContext): void {
       }
     }),
 
+    vscode.commands.registerCommand('o3-time-tracker.toggleReportTimeZone', async () => {
+      try {
+        const config = vscode.workspace.getConfiguration('o3-time-tracker');
+        const mode: ReportTimeZone = config.get<ReportTimeZone>('reportTimeZone', 'recorded') === 'recorded' ? 'current' : 'recorded';
+        await config.update('reportTimeZone', mode, vscode.ConfigurationTarget.Global);
+        globalSummaryViewProvider?.refresh();
+        vscode.window.showInformationMessage(mode === 'recorded'
+          ? 'Sessions werden in der Zeitzone gezeigt, in der sie aufgezeichnet wurden'
+          : `Sessions werden in der aktuellen Zeitzone gezeigt (${getCurrentTimeZone()})`);
+      } catch (error) {
+        logger?.error('Failed to switch report time zone', error as Error);
+        vscode.window.showErrorMessage('Failed to switch report time zone');
+      }
+    }),
+
     vscode.commands.registerCommand('o3-time-tracker.startFromView', async () => {
       try {
         await timeTracker?.start();
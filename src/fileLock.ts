@@ -0,0 +1,143 @@
+/**
+ * Advisory lock files for coordinating writes between VS Code windows
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { Logger } from './types';
+
+/**
+ * Raised when a lock could not be acquired within the timeout
+ */
+export class LockTimeoutError extends Error {
+  constructor(public readonly lockPath: string) {
+    super(`Timed out waiting for lock ${lockPath}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+/**
+ * Content written into a lock file
+ */
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+/**
+ * Cooperative lock based on exclusive creation of a lock file.
+ * Locks left behind by crashed windows are detected as stale and broken.
+ */
+export class FileLock {
+  private readonly lockPath: string;
+  private readonly logger: Logger;
+  private held = false;
+
+  private readonly RETRY_INTERVAL = 50; // ms
+  private readonly ACQUIRE_TIMEOUT = 5000; // ms
+  private readonly STALE_LOCK_AGE = 30000; // 30 seconds - far longer than any save takes
+
+  constructor(lockPath: string, logger: Logger) {
+    this.lockPath = lockPath;
+    this.logger = logger;
+  }
+
+  /**
+   * Run a function while holding the lock
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      await this.release();
+    }
+  }
+
+  /**
+   * Acquire the lock, waiting for other holders and breaking stale locks
+   * @throws LockTimeoutError if the lock is still held by someone else after the timeout
+   */
+  async acquire(): Promise<void> {
+    const deadline = Date.now() + this.ACQUIRE_TIMEOUT;
+
+    while (true) {
+      try {
+        const info: LockInfo = {
+          pid: process.pid,
+          hostname: os.hostname(),
+          acquiredAt: new Date().toISOString()
+        };
+        await fs.writeFile(this.lockPath, JSON.stringify(info), { encoding: 'utf-8', flag: 'wx' });
+        this.held = true;
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.isStale()) {
+        this.logger.warn('Breaking stale lock file', { lockPath: this.lockPath });
+        await fs.unlink(this.lockPath).catch(() => undefined);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(this.lockPath);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.RETRY_INTERVAL));
+    }
+  }
+
+  /**
+   * Release the lock if it is held by this instance
+   */
+  async release(): Promise<void> {
+    if (!this.held) {
+      return;
+    }
+
+    this.held = false;
+    try {
+      await fs.unlink(this.lockPath);
+    } catch (error) {
+      this.logger.warn('Failed to remove lock file', { lockPath: this.lockPath, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Check whether the existing lock file was left behind by a dead or hung process
+   */
+  private async isStale(): Promise<boolean> {
+    try {
+      const stat = await fs.stat(this.lockPath);
+      if (Date.now() - stat.mtimeMs > this.STALE_LOCK_AGE) {
+        return true;
+      }
+
+      const info = JSON.parse(await fs.readFile(this.lockPath, 'utf-8')) as Partial<LockInfo>;
+      if (info.hostname === os.hostname() && typeof info.pid === 'number' && info.pid !== process.pid) {
+        return !this.isProcessAlive(info.pid);
+      }
+      return false;
+    } catch {
+      // Lock vanished or is being written - let the next attempt decide
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a process with the given id is still running on this machine
+   */
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Active time per file and language, and grouping of sessions by language
+ */
+
+import * as path from 'path';
+import { TimeSession, FileTime } from './types';
+
+/**
+ * Time of all sessions in one language
+ */
+export interface LanguageGroup {
+  /** VS Code language ID, e.g. "typescript" */
+  languageId: string;
+
+  totalTime: number;
+
+  /** Time per file path */
+  files: Map<string, number>;
+
+  /** Time per project name */
+  projects: Map<string, number>;
+}
+
+/** Display names of language IDs that are not just the capitalized ID */
+const LANGUAGE_NAMES: Record<string, string> = {
+  typescript: 'TypeScript',
+  typescriptreact: 'TypeScript React',
+  javascript: 'JavaScript',
+  javascriptreact: 'JavaScript React',
+  json: 'JSON',
+  jsonc: 'JSON with Comments',
+  html: 'HTML',
+  css: 'CSS',
+  scss: 'SCSS',
+  sql: 'SQL',
+  yaml: 'YAML',
+  xml: 'XML',
+  csharp: 'C#',
+  cpp: 'C++',
+  php: 'PHP',
+  shellscript: 'Shell',
+  powershell: 'PowerShell',
+  dockerfile: 'Dockerfile',
+  plaintext: 'Text'
+};
+
+/**
+ * Path of a file as stored on a session: relative to the project folder, or absolute
+ * for files outside of it
+ */
+export const getProjectFilePath = (projectPath: string, filePath: string): string => {
+  const relative = path.relative(projectPath, filePath);
+  const stored = !relative || relative.startsWith('..') || path.isAbsolute(relative) ? filePath : relative;
+  return stored.split(path.sep).join('/');
+};
+
+/**
+ * Add active time to the file it was spent on
+ */
+export const addFileTime = (session: TimeSession, file: Omit<FileTime, 'time'>, time: number): void => {
+  const files = session.files ?? (session.files = []);
+  const entry = files.find(existing => existing.path === file.path);
+  if (entry) {
+    entry.time += time;
+    entry.languageId = file.languageId;
+  } else {
+    files.push({ path: file.path, languageId: file.languageId, time });
+  }
+};
+
+/**
+ * Combine the file times of several sessions, e.g. when merging them
+ */
+export const mergeFileTimes = (...fileLists: Array<FileTime[] | undefined>): FileTime[] => {
+  const merged = new Map<string, FileTime>();
+  fileLists.forEach(files => files?.forEach(file => {
+    const entry = merged.get(file.path);
+    merged.set(file.path, { ...file, time: (entry?.time ?? 0) + file.time });
+  }));
+  return Array.from(merged.values());
+};
+
+/**
+ * Divide file times between two parts of a split session
+ * @param share Fraction of the time that goes to the first part
+ * @returns The file times of the first and second part
+ */
+export const splitFileTimes = (files: FileTime[], share: number): [FileTime[], FileTime[]] => {
+  const first: FileTime[] = [];
+  const second: FileTime[] = [];
+  files.forEach(file => {
+    const firstTime = Math.round(file.time * share);
+    if (firstTime > 0) {
+      first.push({ ...file, time: firstTime });
+    }
+    if (file.time - firstTime > 0) {
+      second.push({ ...file, time: file.time - firstTime });
+    }
+  });
+  return [first, second];
+};
+
+/**
+ * Group the file times of sessions by language, largest group first
+ */
+export const groupSessionsByLanguage = (sessions: TimeSession[]): LanguageGroup[] => {
+  const groups = new Map<string, LanguageGroup>();
+  sessions.forEach(session => {
+    session.files?.forEach(file => {
+      const group = groups.get(file.languageId) ??
+        { languageId: file.languageId, totalTime: 0, files: new Map<string, number>(), projects: new Map<string, number>() };
+      group.totalTime += file.time;
+      group.files.set(file.path, (group.files.get(file.path) ?? 0) + file.time);
+      group.projects.set(session.projectName, (group.projects.get(session.projectName) ?? 0) + file.time);
+      groups.set(file.languageId, group);
+    });
+  });
+  return Array.from(groups.values()).sort((a, b) => b.totalTime - a.totalTime);
+};
+
+/**
+ * Display name of a language ID, e.g. "TypeScript" for "typescript"
+ */
+export const formatLanguageName = (languageId: string): string => {
+  return LANGUAGE_NAMES[languageId] ?? languageId.charAt(0).toUpperCase() + languageId.slice(1);
+};
+
+/**
+ * Share of a part in a total in percent, e.g. "40%"
+ */
+export const formatShare = (time: number, totalTime: number): string => {
+  return totalTime > 0 ? `${Math.round(time / totalTime * 100)}%` : '0%';
+};
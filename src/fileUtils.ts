@@ -0,0 +1,77 @@
+/**
+ * File system helpers shared by the storage implementations
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Write a file atomically: the content goes to a temporary file in the same
+ * directory, is flushed to disk and then renamed over the target. Readers
+ * either see the old or the new content, never a partially written file.
+ */
+export const writeFileAtomic = async (filePath: string, content: string): Promise<void> => {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Math.random().toString(36).substr(2, 6)}.tmp`
+  );
+
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+};
+
+/**
+ * Write a new file atomically without ever replacing an existing one
+ * @returns false if the target already exists
+ */
+export const writeFileExclusive = async (filePath: string, content: string): Promise<boolean> => {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Math.random().toString(36).substr(2, 6)}.tmp`
+  );
+
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    // Unlike rename, link fails instead of replacing an existing target
+    await fs.link(tempPath, filePath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  } finally {
+    await fs.unlink(tempPath).catch(() => undefined);
+  }
+};
+
+/**
+ * Check whether a file exists
+ */
+export const fileExists = async (filePath: string): Promise<boolean> => {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
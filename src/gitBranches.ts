@@ -0,0 +1,161 @@
+/**
+ * Git branch and ticket attribution through the built-in git extension
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TimeSession, Logger } from './types';
+
+/** Group of sessions without a ticket key */
+export const NO_TICKET = 'Ohne Ticket';
+
+/**
+ * The parts of the built-in git extension's API (`vscode.git`, API version 1) used here
+ */
+interface GitExtension {
+  readonly enabled: boolean;
+  getAPI(version: 1): GitAPI;
+}
+
+interface GitAPI {
+  readonly repositories: GitRepository[];
+}
+
+interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly state: {
+    readonly HEAD: { readonly name?: string } | undefined;
+  };
+}
+
+/**
+ * Time of all sessions booked on one ticket
+ */
+export interface TicketGroup {
+  /** Ticket key, or `NO_TICKET` */
+  ticket: string;
+
+  totalTime: number;
+  sessionCount: number;
+
+  /** Branches the sessions were recorded on */
+  branches: Set<string>;
+
+  /** Time per project name */
+  projects: Map<string, number>;
+}
+
+/**
+ * Extract the ticket key from a branch name
+ * @param pattern Regular expression; its first capture group is used if it has one
+ * @returns The key, or undefined if the pattern is empty, invalid or does not match
+ */
+export const extractTicketKey = (branch: string, pattern: string): string | undefined => {
+  if (!pattern) {
+    return undefined;
+  }
+  try {
+    const match = new RegExp(pattern).exec(branch);
+    return match ? match[1] ?? match[0] : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Whether a ticket pattern compiles as a regular expression
+ */
+export const isValidTicketPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Group sessions by ticket, largest group first
+ */
+export const groupSessionsByTicket = (sessions: TimeSession[]): TicketGroup[] => {
+  const groups = new Map<string, TicketGroup>();
+  sessions.forEach(session => {
+    const ticket = session.ticket ?? NO_TICKET;
+    const group = groups.get(ticket) ??
+      { ticket, totalTime: 0, sessionCount: 0, branches: new Set<string>(), projects: new Map<string, number>() };
+    group.totalTime += session.totalTime;
+    group.sessionCount++;
+    if (session.branch) {
+      group.branches.add(session.branch);
+    }
+    group.projects.set(session.projectName, (group.projects.get(session.projectName) ?? 0) + session.totalTime);
+    groups.set(ticket, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.totalTime - a.totalTime);
+};
+
+/**
+ * Reads the checked out branch of workspace folders from the built-in git extension.
+ * Without the git extension (disabled, or git not installed) no branch is reported.
+ */
+export class GitBranchMonitor {
+  private readonly logger: Logger;
+  private api: GitAPI | undefined;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Connect to the git extension, activating it if necessary
+   */
+  async initialize(): Promise<void> {
+    try {
+      const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+      if (!extension) {
+        this.logger.info('Git extension not available, branches are not tracked');
+        return;
+      }
+
+      const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+      if (!gitExtension.enabled) {
+        this.logger.info('Git extension disabled, branches are not tracked');
+        return;
+      }
+
+      this.api = gitExtension.getAPI(1);
+      this.logger.debug('Connected to git extension');
+    } catch (error) {
+      this.logger.warn('Failed to connect to git extension', { error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Branch checked out in the repository of a project folder
+   * @returns undefined without git, outside a repository or on a detached HEAD
+   */
+  getBranch(projectPath: string): string | undefined {
+    return this.findRepository(projectPath)?.state.HEAD?.name;
+  }
+
+  /**
+   * The repository containing the folder, or else the only repository inside it
+   */
+  private findRepository(projectPath: string): GitRepository | undefined {
+    const repositories = this.api?.repositories ?? [];
+    const isWithin = (child: string, parent: string) => {
+      const relative = path.relative(parent, child);
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    };
+
+    const containing = repositories
+      .filter(repository => isWithin(projectPath, repository.rootUri.fsPath))
+      .sort((a, b) => b.rootUri.fsPath.length - a.rootUri.fsPath.length)[0];
+    if (containing) {
+      return containing;
+    }
+
+    const nested = repositories.filter(repository => isWithin(repository.rootUri.fsPath, projectPath));
+    return nested.length === 1 ? nested[0] : undefined;
+  }
+}
@@ -3,8 +3,10 @@
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { CrossWorkspaceManager, AggregatedData } from './crossWorkspaceManager';
-import { Logger, ProjectStats } from './types';
+import { DataEncryption } from './dataEncryption';
+import { Logger, ProjectStats, TimeSession } from './types';
 import { 
   formatDetailedTime,
   getCurrentWeekStart,
@@ -13,8 +15,14 @@ import {
   getCurrentMonthEnd,
   getTodayStart,
   getTodayEnd,
+  getTrackingDay,
+  getDayBoundary,
   calculateSessionTimeInRange
 } from './timeUtils';
+import { getArchivedTimeInRange, countArchivedSessionsInRange } from './sessionArchive';
+import { countProjectSessions } from './projectStats';
+import { WorkGoal, getWeekGoalHours, getMonthGoalHours, formatGoalProgress, formatGoalPercent } from './workGoals';
+import { groupSessionsByLanguage, formatLanguageName, formatShare } from './fileTimes';
 
 export class GlobalSummaryItem extends vscode.TreeItem {
   constructor(
@@ -50,9 +58,9 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
   private crossWorkspaceManager: CrossWorkspaceManager;
   private logger: Logger;
 
-  constructor(context: vscode.ExtensionContext, logger: Logger) {
+  constructor(context: vscode.ExtensionContext, logger: Logger, encryption: DataEncryption) {
     this.logger = logger;
-    this.crossWorkspaceManager = new CrossWorkspaceManager(context, logger);
+    this.crossWorkspaceManager = new CrossWorkspaceManager(context, logger, encryption);
   }
 
   refresh(): void {
@@ -90,6 +98,12 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
         return this.getWeekProjectDayItems(aggregatedData, element.projectKey || '');
       } else if (element.itemType === 'month-project') {
         return this.getMonthProjectWeekItems(aggregatedData, element.projectKey || '');
+      } else if (element.itemType === 'device-overlaps') {
+        return this.getDeviceOverlapItems(aggregatedData);
+      } else if (element.itemType === 'unreadable-sync-files') {
+        return this.getUnreadableSyncFileItems(aggregatedData);
+      } else if (element.itemType === 'all-languages') {
+        return this.getLanguageItems(aggregatedData);
       }
 
       return [];
@@ -131,24 +145,27 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
     ));
 
     // This Week's Summary across all workspaces
+    const goal = this.getGoal();
     const weekTime = this.getWeekTotalTime(data);
+    const weekGoal = getWeekGoalHours(goal);
     items.push(new GlobalSummaryItem(
       'Diese Woche (Alle Projekte)',
       vscode.TreeItemCollapsibleState.Collapsed,
       'week-summary',
-      `Arbeitszeit diese Woche über alle Projekte: ${formatDetailedTime(weekTime)}`,
-      formatDetailedTime(weekTime),
+      `Arbeitszeit diese Woche über alle Projekte: ${formatDetailedTime(weekTime)}` + this.getGoalTooltip(weekTime, weekGoal),
+      this.getGoalDescription(weekTime, weekGoal),
       new vscode.ThemeIcon('calendar')
     ));
 
     // This Month's Summary across all workspaces
     const monthTime = this.getMonthTotalTime(data);
+    const monthGoal = getMonthGoalHours(goal, getCurrentMonthStart());
     items.push(new GlobalSummaryItem(
       'Dieser Monat (Alle Projekte)',
       vscode.TreeItemCollapsibleState.Collapsed,
       'month-summary',
-      `Arbeitszeit diesen Monat über alle Projekte: ${formatDetailedTime(monthTime)}`,
-      formatDetailedTime(monthTime),
+      `Arbeitszeit diesen Monat über alle Projekte: ${formatDetailedTime(monthTime)}` + this.getGoalTooltip(monthTime, monthGoal),
+      this.getGoalDescription(monthTime, monthGoal),
       new vscode.ThemeIcon('calendar')
     ));
 
@@ -176,6 +193,44 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
       ));
     }
 
+    // Time per language across all projects
+    const fileTime = groupSessionsByLanguage(this.getAllSessions(data)).reduce((total, group) => total + group.totalTime, 0);
+    if (fileTime > 0) {
+      items.push(new GlobalSummaryItem(
+        'Dateien/Sprachen (Alle Projekte)',
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'all-languages',
+        `Aktive Zeit mit einer Datei im Fokus über alle Projekte: ${formatDetailedTime(fileTime)}`,
+        formatDetailedTime(fileTime),
+        new vscode.ThemeIcon('files')
+      ));
+    }
+
+    // Sessions of different devices that ran at the same time
+    if (data.deviceOverlaps.length > 0) {
+      const overlapTime = data.deviceOverlaps.reduce((total, overlap) => total + overlap.overlap, 0);
+      items.push(new GlobalSummaryItem(
+        `⚠️ Überschneidungen zwischen Geräten (${data.deviceOverlaps.length})`,
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'device-overlaps',
+        `Gleichzeitige Sessions auf verschiedenen Geräten - ${formatDetailedTime(overlapTime)} wurden nur einmal gezählt`,
+        formatDetailedTime(overlapTime),
+        new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'))
+      ));
+    }
+
+    // Files of other devices that were left out
+    if (data.unreadableSyncFiles.length > 0) {
+      items.push(new GlobalSummaryItem(
+        `⚠️ Nicht lesbare Sync-Dateien (${data.unreadableSyncFiles.length})`,
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'unreadable-sync-files',
+        'Daten anderer Geräte, die nicht gelesen werden konnten und in den Summen fehlen',
+        undefined,
+        new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'))
+      ));
+    }
+
     // Last Updated
     items.push(new GlobalSummaryItem(
       `Aktualisiert: ${data.lastUpdated.toLocaleTimeString('de-DE')}`,
@@ -211,6 +266,78 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
     return items;
   }
 
+  private getDeviceOverlapItems(data: AggregatedData): GlobalSummaryItem[] {
+    const formatTime = (date: Date) => date.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+
+    return data.deviceOverlaps
+      .slice()
+      .sort((a, b) => b.trimmed.startTime.getTime() - a.trimmed.startTime.getTime())
+      .map(overlap => {
+        const { kept, trimmed } = overlap;
+        const start = new Date(Math.max(kept.startTime.getTime(), trimmed.startTime.getTime()));
+        const end = new Date(Math.min(kept.endTime!.getTime(), trimmed.endTime!.getTime()));
+
+        let tooltip = `Gezählt: ${kept.projectName} auf ${overlap.keptDevice} (${formatTime(kept.startTime)} - ${formatTime(kept.endTime!)})\n`;
+        tooltip += `Gekürzt: ${trimmed.projectName} auf ${overlap.trimmedDevice} (${formatTime(trimmed.startTime)} - ${formatTime(trimmed.endTime!)})\n`;
+        tooltip += `Überschneidung: ${formatDetailedTime(overlap.overlap)}`;
+
+        return new GlobalSummaryItem(
+          `${start.toLocaleDateString('de-DE')} ${formatTime(start)} - ${formatTime(end)}`,
+          vscode.TreeItemCollapsibleState.None,
+          'device-overlap',
+          tooltip,
+          `${overlap.keptDevice} / ${overlap.trimmedDevice}: -${formatDetailedTime(overlap.overlap)}`,
+          new vscode.ThemeIcon('debug-disconnect')
+        );
+      });
+  }
+
+  private getUnreadableSyncFileItems(data: AggregatedData): GlobalSummaryItem[] {
+    return data.unreadableSyncFiles.map(file => new GlobalSummaryItem(
+      path.basename(file.filePath),
+      vscode.TreeItemCollapsibleState.None,
+      'unreadable-sync-file',
+      `${file.filePath}\n${file.error}`,
+      file.deviceName,
+      new vscode.ThemeIcon('error')
+    ));
+  }
+
+  private getLanguageItems(data: AggregatedData): GlobalSummaryItem[] {
+    const groups = groupSessionsByLanguage(this.getAllSessions(data));
+    const fileTime = groups.reduce((total, group) => total + group.totalTime, 0);
+
+    return groups.map(group => {
+      const name = formatLanguageName(group.languageId);
+      let tooltip = `${name}: ${formatDetailedTime(group.totalTime)} in ${group.files.size} Dateien`;
+      Array.from(group.projects.entries())
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([projectName, time]) => {
+          tooltip += `\n${projectName}: ${formatDetailedTime(time)}`;
+        });
+
+      return new GlobalSummaryItem(
+        name,
+        vscode.TreeItemCollapsibleState.None,
+        'language',
+        tooltip,
+        `${formatShare(group.totalTime, fileTime)} · ${formatDetailedTime(group.totalTime)}`,
+        new vscode.ThemeIcon('code')
+      );
+    });
+  }
+
+  /**
+   * Sessions of all workspaces, including the running ones
+   */
+  private getAllSessions(data: AggregatedData): TimeSession[] {
+    return data.workspaces.flatMap(workspace => {
+      const sessions = Array.from(workspace.data.projects.values())
+        .flatMap(project => project.sessions.filter(session => session.endTime));
+      return workspace.data.currentSession ? [...sessions, workspace.data.currentSession] : sessions;
+    });
+  }
+
   private getAllProjectItems(data: AggregatedData): GlobalSummaryItem[] {
     const items: GlobalSummaryItem[] = [];
 
@@ -224,12 +351,12 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
     projects.forEach(project => {
       const actualTotalTime = this.calculateActualProjectTime(project, data);
       const lastActivity = project.lastActivity.toLocaleDateString('de-DE');
-      const completedSessions = project.sessions.filter(s => s.endTime).length;
+      const completedSessions = countProjectSessions(project) - project.sessions.filter(s => !s.endTime).length;
       const ongoingSessions = project.sessions.filter(s => !s.endTime).length;
       
       // Create detailed tooltip
       let tooltip = `Gesamtzeit aller Sessions: ${formatDetailedTime(actualTotalTime)}\n`;
-      tooltip += `${project.sessions.length} Sessions total (${completedSessions} abgeschlossen`;
+      tooltip += `${countProjectSessions(project)} Sessions total (${completedSessions} abgeschlossen`;
       if (ongoingSessions > 0) {
         tooltip += `, ${ongoingSessions} laufend`;
       }
@@ -262,6 +389,7 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
         totalTime += session.totalTime;
       }
     });
+    totalTime += project.dailyRollups.reduce((sum, rollup) => sum + rollup.totalTime, 0);
 
     // Check if there's a current session for this project
     // We need to find the workspace that contains this project
@@ -310,7 +438,7 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
         project.projectName,
         vscode.TreeItemCollapsibleState.Collapsed,
         'week-project',
-        `${formatDetailedTime(totalWeekTime)} diese Woche - ${project.sessions.length} Sessions total`,
+        `${formatDetailedTime(totalWeekTime)} diese Woche - ${countProjectSessions(project)} Sessions total`,
         formatDetailedTime(totalWeekTime),
         new vscode.ThemeIcon('folder'),
         projectKey
@@ -333,7 +461,7 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
         project.projectName,
         vscode.TreeItemCollapsibleState.Collapsed,
         'month-project',
-        `${formatDetailedTime(totalMonthTime)} diesen Monat - ${project.sessions.length} Sessions total`,
+        `${formatDetailedTime(totalMonthTime)} diesen Monat - ${countProjectSessions(project)} Sessions total`,
         formatDetailedTime(totalMonthTime),
         new vscode.ThemeIcon('folder'),
         projectKey
@@ -359,7 +487,8 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
               session.startTime,
               session.totalTime,
               rangeStart,
-              rangeEnd
+              rangeEnd,
+              session
             );
             if (sessionTime > 0) {
               workspaceRangeTime += sessionTime;
@@ -367,6 +496,8 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
             }
           }
         });
+        workspaceRangeTime += getArchivedTimeInRange(project.dailyRollups, rangeStart, rangeEnd);
+        sessionCount += countArchivedSessionsInRange(project.dailyRollups, rangeStart, rangeEnd);
       });
 
       // Add current session if it overlaps with the date range
@@ -375,7 +506,8 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
           workspace.data.currentSession.startTime,
           workspace.data.currentSession.totalTime,
           rangeStart,
-          rangeEnd
+          rangeEnd,
+          workspace.data.currentSession
         );
         if (currentSessionTime > 0) {
           workspaceRangeTime += currentSessionTime;
@@ -410,6 +542,27 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
     return items;
   }
 
+  /**
+   * Global goals from the settings
+   */
+  private getGoal(): WorkGoal {
+    const config = vscode.workspace.getConfiguration('o3-time-tracker');
+    return {
+      daily: config.get<number>('dailyGoalHours', 0),
+      weekly: config.get<number>('weeklyGoalHours', 0)
+    };
+  }
+
+  private getGoalDescription(time: number, goalHours: number): string {
+    return goalHours > 0
+      ? `${formatGoalProgress(time, goalHours)} (${formatGoalPercent(time, goalHours)})`
+      : formatDetailedTime(time);
+  }
+
+  private getGoalTooltip(time: number, goalHours: number): string {
+    return goalHours > 0 ? `\nZiel: ${formatGoalProgress(time, goalHours)} - ${formatGoalPercent(time, goalHours)}` : '';
+  }
+
   private getTodayTotalTime(data: AggregatedData): number {
     const todayStart = getTodayStart();
     const todayEnd = getTodayEnd();
@@ -443,10 +596,12 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
               session.startTime,
               session.totalTime,
               rangeStart,
-              rangeEnd
+              rangeEnd,
+              session
             );
           }
         });
+        totalTime += getArchivedTimeInRange(project.dailyRollups, rangeStart, rangeEnd);
       });
 
       // Add current session if it overlaps with the date range
@@ -455,7 +610,8 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
           workspace.data.currentSession.startTime,
           workspace.data.currentSession.totalTime,
           rangeStart,
-          rangeEnd
+          rangeEnd,
+          workspace.data.currentSession
         );
       }
     });
@@ -497,10 +653,9 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
    * Calculate time spent on a project for a specific day
    */
   private getProjectTimeForDay(project: ProjectStats, date: Date, data: AggregatedData, projectKey: string): number {
-    const dayStart = new Date(date);
-    dayStart.setHours(0, 0, 0, 0);
-    const dayEnd = new Date(date);
-    dayEnd.setHours(23, 59, 59, 999);
+    const dayStart = getDayBoundary(date);
+    const nextDayStart = getDayBoundary(new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1));
+    const dayEnd = new Date(nextDayStart.getTime() - 1);
 
     let totalTime = 0;
 
@@ -512,11 +667,13 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
           session.startTime,
           session.totalTime,
           dayStart,
-          dayEnd
+          dayEnd,
+          session
         );
       }
       // Note: Ongoing sessions (without endTime) are handled via currentSession below
     });
+    totalTime += getArchivedTimeInRange(project.dailyRollups, dayStart, dayEnd);
 
     // Add current session if it's for this project and on this day
     const workspaceName = projectKey.split(':')[0];
@@ -530,7 +687,8 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
           workspace.data.currentSession.startTime,
           workspace.data.currentSession.totalTime,
           dayStart,
-          dayEnd
+          dayEnd,
+          workspace.data.currentSession
         );
       }
     }
@@ -561,11 +719,13 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
               session.startTime,
               session.totalTime,
               weekStart,
-              weekEnd
+              weekEnd,
+              session
             );
           }
           // Note: Ongoing sessions (without endTime) are handled via currentSession below
         });
+        weekTime += getArchivedTimeInRange(project.dailyRollups, weekStart, weekEnd);
 
         // Add current session if it's for this project and overlaps with the week
         if (workspace.data.currentSession && 
@@ -574,7 +734,8 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
             workspace.data.currentSession.startTime,
             workspace.data.currentSession.totalTime,
             weekStart,
-            weekEnd
+            weekEnd,
+            workspace.data.currentSession
           );
         }
 
@@ -654,11 +815,13 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
               session.startTime,
               session.totalTime,
               monthStart,
-              monthEnd
+              monthEnd,
+              session
             );
           }
           // Note: Ongoing sessions (without endTime) are handled via currentSession below
         });
+        monthTime += getArchivedTimeInRange(project.dailyRollups, monthStart, monthEnd);
 
         // Add current session if it's for this project and overlaps with the month
         if (workspace.data.currentSession && 
@@ -667,7 +830,8 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
             workspace.data.currentSession.startTime,
             workspace.data.currentSession.totalTime,
             monthStart,
-            monthEnd
+            monthEnd,
+            workspace.data.currentSession
           );
         }
 
@@ -697,14 +861,15 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
     const dayOfWeek = firstDay.getDay();
     const daysToMonday = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
     
-    let currentWeekStart = new Date(firstDay);
-    currentWeekStart.setDate(firstDay.getDate() + daysToMonday);
-    currentWeekStart.setHours(0, 0, 0, 0);
+    let currentWeekStart = getDayBoundary(
+      new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate() + daysToMonday)
+    );
 
     while (currentWeekStart <= monthEnd) {
-      const weekEnd = new Date(currentWeekStart);
-      weekEnd.setDate(currentWeekStart.getDate() + 6);
-      weekEnd.setHours(23, 59, 59, 999);
+      const nextWeekStart = getDayBoundary(
+        new Date(currentWeekStart.getFullYear(), currentWeekStart.getMonth(), currentWeekStart.getDate() + 7)
+      );
+      const weekEnd = new Date(nextWeekStart.getTime() - 1);
 
       // Only include weeks that actually overlap with the month
       if (weekEnd >= monthStart) {
@@ -716,7 +881,7 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
         });
       }
 
-      currentWeekStart.setDate(currentWeekStart.getDate() + 7);
+      currentWeekStart = nextWeekStart;
     }
 
     return weeks;
@@ -747,10 +912,12 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
           session.startTime,
           session.totalTime,
           weekStart,
-          weekEnd
+          weekEnd,
+          session
         );
       }
     });
+    totalTime += getArchivedTimeInRange(project.dailyRollups, weekStart, weekEnd);
 
     // Add current session if it's for this project and in this week
     const workspaceName = projectKey.split(':')[0];
@@ -764,7 +931,8 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
           workspace.data.currentSession.startTime,
           workspace.data.currentSession.totalTime,
           weekStart,
-          weekEnd
+          weekEnd,
+          workspace.data.currentSession
         );
       }
     }
@@ -794,7 +962,7 @@ export class GlobalSummaryViewProvider implements vscode.TreeDataProvider<Global
       
       if (weekTime > 0) {
         const weekStartStr = weekStart.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' });
-        const weekEndStr = weekEnd.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' });
+        const weekEndStr = getTrackingDay(weekEnd).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' });
         
         items.push(new GlobalSummaryItem(
           `KW ${weekNumber}: ${weekStartStr} - ${weekEndStr}`,
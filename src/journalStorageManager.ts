@@ -0,0 +1,633 @@
+/**
+ * Append-only journal storage backend for tracking data
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TrackingData, TimeSession, ProjectStats, Storage, Logger } from './types';
+import {
+  CURRENT_DATA_VERSION,
+  UnsupportedDataVersionError,
+  migrateTrackingData,
+  migrateWithSnapshot
+} from './dataMigrations';
+import { FileLock } from './fileLock';
+import { writeFileAtomic, fileExists } from './fileUtils';
+import { mergeTrackingData } from './trackingDataMerge';
+import { recalculateProjectStats } from './projectStats';
+import {
+  serializeTrackingData,
+  deserializeTrackingData,
+  serializeSession,
+  deserializeSession,
+  parseStoredJson
+} from './trackingDataCodec';
+import { quarantineFile } from './quarantine';
+import { DataEncryption, EncryptionKeyUnavailableError } from './dataEncryption';
+import {
+  getWorkspaceStorageDir,
+  getWorkspaceIdentity,
+  belongsToOtherWorkspace,
+  stampWorkspace,
+  createDefaultTrackingData
+} from './workspaceStorage';
+
+export const JOURNAL_SNAPSHOT_FILE = 'timeTrackingData.snapshot.json';
+export const JOURNAL_FILE = 'timeTrackingData.journal.jsonl';
+
+/**
+ * Workspace-level fields tracked by `state` records
+ */
+interface JournalState {
+  currentSessionId?: string;
+  lastActivity: string;
+  totalTimeTracked: number;
+  workspacePath?: string;
+  workspaceName?: string;
+  workspaceId?: string;
+}
+
+/**
+ * One line of the journal file
+ */
+interface JournalRecord {
+  /** start: new open session, update: changed open session, end: finished session, remove: deleted session */
+  op: 'start' | 'update' | 'end' | 'remove' | 'state';
+
+  /** When the record was written */
+  at: string;
+
+  /** Serialized session for start/update/end */
+  session?: any;
+
+  /** Session ID for remove */
+  sessionId?: string;
+
+  /** Workspace state for state records */
+  state?: JournalState;
+}
+
+/**
+ * Check the envelope of a parsed journal line; sessions are validated by the codec during replay
+ */
+const isValidRecord = (record: any): record is JournalRecord => {
+  if (typeof record !== 'object' || record === null || typeof record.at !== 'string' || isNaN(new Date(record.at).getTime())) {
+    return false;
+  }
+  switch (record.op) {
+    case 'start':
+    case 'update':
+    case 'end':
+      return typeof record.session === 'object' && record.session !== null;
+    case 'remove':
+      return typeof record.sessionId === 'string';
+    case 'state':
+      return typeof record.state === 'object' && record.state !== null &&
+        typeof record.state.lastActivity === 'string' && !isNaN(new Date(record.state.lastActivity).getTime()) &&
+        typeof record.state.totalTimeTracked === 'number' && Number.isFinite(record.state.totalTimeTracked);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Apply journal records on top of snapshot data, in place
+ */
+const replayJournal = (data: TrackingData, records: JournalRecord[], logger?: Logger): void => {
+  const touched = new Set<ProjectStats>();
+
+  records.forEach(record => {
+    if ((record.op === 'start' || record.op === 'update' || record.op === 'end') && record.session) {
+      let session: TimeSession;
+      try {
+        session = deserializeSession(record.session);
+      } catch (error) {
+        logger?.warn('Skipping invalid journal session record', { at: record.at, error: (error as Error).message });
+        return;
+      }
+      let project = data.projects.get(session.projectPath);
+      if (!project) {
+        project = {
+          projectName: session.projectName,
+          projectPath: session.projectPath,
+          totalTime: 0,
+          sessions: [],
+          lastActivity: session.startTime,
+          firstSession: session.startTime,
+          averageSessionDuration: 0,
+          activeDays: 1,
+          dailyRollups: []
+        };
+        data.projects.set(session.projectPath, project);
+      }
+
+      const index = project.sessions.findIndex(existing => existing.id === session.id);
+      if (index >= 0) {
+        project.sessions[index] = session;
+      } else {
+        project.sessions.push(session);
+      }
+      touched.add(project);
+    } else if (record.op === 'remove' && record.sessionId) {
+      data.projects.forEach(project => {
+        const before = project.sessions.length;
+        project.sessions = project.sessions.filter(session => session.id !== record.sessionId);
+        if (project.sessions.length !== before) {
+          touched.add(project);
+        }
+      });
+    } else if (record.op === 'state' && record.state) {
+      data.lastActivity = new Date(record.state.lastActivity);
+      data.totalTimeTracked = record.state.totalTimeTracked;
+      if (record.state.workspacePath) {
+        data.workspacePath = record.state.workspacePath;
+      }
+      if (record.state.workspaceName) {
+        data.workspaceName = record.state.workspaceName;
+      }
+      if (typeof record.state.workspaceId === 'string') {
+        data.workspaceId = record.state.workspaceId;
+      }
+
+      delete data.currentSession;
+      if (record.state.currentSessionId) {
+        const currentId = record.state.currentSessionId;
+        data.projects.forEach(project => {
+          const session = project.sessions.find(candidate => candidate.id === currentId);
+          if (session) {
+            data.currentSession = session;
+          }
+        });
+      }
+    }
+    data.lastSaved = new Date(record.at);
+  });
+
+  // Upserts replace session objects - keep the current session pointing at the live entry
+  const currentSession = data.currentSession;
+  if (currentSession) {
+    const liveSession = data.projects.get(currentSession.projectPath)?.sessions
+      .find(session => session.id === currentSession.id);
+    if (liveSession) {
+      data.currentSession = liveSession;
+    }
+  }
+
+  touched.forEach(project => {
+    project.sessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    recalculateProjectStats(project);
+  });
+};
+
+/**
+ * Read snapshot plus journal from a storage directory without keeping any state.
+ * Used by readers such as the cross-workspace summary.
+ * @param logger Only passed by the owning storage manager, which may back up the snapshot before migrating it
+ * @returns undefined if the directory holds no journal data
+ */
+export const readJournalData = async (
+  storageDir: string,
+  encryption: DataEncryption,
+  logger?: Logger
+): Promise<TrackingData | undefined> => {
+  const snapshotPath = path.join(storageDir, JOURNAL_SNAPSHOT_FILE);
+  const journalPath = path.join(storageDir, JOURNAL_FILE);
+
+  const hasSnapshot = await fileExists(snapshotPath);
+  const hasJournal = await fileExists(journalPath);
+  if (!hasSnapshot && !hasJournal) {
+    return undefined;
+  }
+
+  let data: TrackingData | undefined;
+  if (hasSnapshot) {
+    // A corrupt snapshot throws: the journal only holds changes on top of it
+    const content = await fs.readFile(snapshotPath, 'utf-8');
+    const rawData = logger
+      ? await migrateWithSnapshot(parseStoredJson(encryption.decode(content)), content, snapshotPath, logger)
+      : migrateTrackingData(parseStoredJson(encryption.decode(content))).data;
+    data = deserializeTrackingData(rawData);
+  }
+  data = data ?? createDefaultTrackingData();
+
+  if (hasJournal) {
+    const records: JournalRecord[] = [];
+    const lines = (await fs.readFile(journalPath, 'utf-8')).split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        const record = JSON.parse(encryption.decode(line));
+        if (isValidRecord(record)) {
+          records.push(record);
+        } else {
+          logger?.warn('Skipping invalid journal record', { line: index + 1 });
+        }
+      } catch (error) {
+        if (error instanceof EncryptionKeyUnavailableError) {
+          // Skipping would drop real sessions on the next compaction
+          throw error;
+        }
+        // A torn last line after a crash is expected; anything else is worth a warning
+        logger?.warn('Skipping unreadable journal record', { line: index + 1 });
+      }
+    });
+    replayJournal(data, records, logger);
+  }
+
+  return data;
+};
+
+/**
+ * Storage backend that appends session start/update/end records to a journal
+ * and periodically compacts it into a snapshot, instead of rewriting the whole
+ * document on every save.
+ */
+export class JournalStorageManager implements Storage {
+  private readonly storageDir: string;
+  private readonly snapshotPath: string;
+  private readonly journalPath: string;
+  private readonly lock: FileLock;
+  private readonly logger: Logger;
+  private readonly encryption: DataEncryption;
+
+  /** Compact once the journal holds this many records */
+  private readonly COMPACT_THRESHOLD = 500;
+
+  /** Why the journal cannot be handled (newer version or unknown encryption key); blocks all writes */
+  private writeBlockedReason: string | undefined;
+
+  /** Whether the last load read snapshot and journal themselves */
+  private loadedFromDisk = false;
+
+  /** Serialized form of every session as last persisted, by session ID */
+  private persistedSessions = new Map<string, string>();
+
+  /** Serialized workspace state as last persisted */
+  private persistedState: string | undefined;
+
+  /** Serialized daily rollups of all projects as last persisted; they only live in the snapshot */
+  private persistedRollups: string | undefined;
+
+  /** Number of records in the journal file */
+  private recordCount = 0;
+
+  /** Journal size and snapshot mtime after our last write, to detect other windows */
+  private lastSeenFiles: string | undefined;
+
+  constructor(context: vscode.ExtensionContext, logger: Logger, encryption: DataEncryption) {
+    this.logger = logger;
+    this.encryption = encryption;
+    this.storageDir = getWorkspaceStorageDir(context);
+    this.snapshotPath = path.join(this.storageDir, JOURNAL_SNAPSHOT_FILE);
+    this.journalPath = path.join(this.storageDir, JOURNAL_FILE);
+    this.lock = new FileLock(path.join(this.storageDir, 'timeTrackingData.lock'), logger);
+
+    this.logger.debug('Journal storage paths initialized', {
+      snapshotPath: this.snapshotPath,
+      journalPath: this.journalPath
+    });
+  }
+
+  /**
+   * Load tracking data by replaying the journal on top of the snapshot
+   */
+  async load(): Promise<TrackingData | undefined> {
+    this.loadedFromDisk = false;
+    try {
+      await this.ensureStorageDirectory();
+
+      const trackingData = await readJournalData(this.storageDir, this.encryption, this.logger);
+      if (!trackingData) {
+        this.logger.info('No existing journal found, returning default data');
+        const defaultData = createDefaultTrackingData();
+        await this.rememberPersistedState(defaultData);
+        return defaultData;
+      }
+
+      if (belongsToOtherWorkspace(trackingData)) {
+        this.logger.warn('Loaded journal belongs to different workspace', {
+          dataWorkspace: trackingData.workspaceName,
+          currentWorkspace: getWorkspaceIdentity()?.name
+        });
+        // Saving would compact this window's empty data over the other workspace's journal
+        this.writeBlockedReason = `Journal belongs to workspace "${trackingData.workspaceName}"`;
+        return createDefaultTrackingData();
+      }
+
+      // Keep ID, path and name current (the workspace may have moved)
+      stampWorkspace(trackingData);
+
+      await this.rememberPersistedState(trackingData);
+      this.loadedFromDisk = true;
+
+      this.logger.info('Journal data loaded successfully', {
+        projectCount: trackingData.projects.size,
+        journalRecords: this.recordCount,
+        hasCurrentSession: !!trackingData.currentSession
+      });
+
+      return trackingData;
+    } catch (error) {
+      if (error instanceof UnsupportedDataVersionError || error instanceof EncryptionKeyUnavailableError) {
+        this.writeBlockedReason = error.message;
+        this.logger.error('Journal cannot be read by this window, refusing to load', error);
+        throw error;
+      }
+
+      this.logger.error('Failed to load journal data', error as Error);
+
+      // Move snapshot and journal aside so the next save cannot compact empty data over them
+      if (!(await this.quarantineJournal(error as Error))) {
+        this.writeBlockedReason = `Journal could not be read: ${(error as Error).message}`;
+        return createDefaultTrackingData();
+      }
+      const defaultData = createDefaultTrackingData();
+      await this.rememberPersistedState(defaultData);
+      return defaultData;
+    }
+  }
+
+  isLoaded(): boolean {
+    return this.loadedFromDisk;
+  }
+
+  /**
+   * Append records for everything that changed since the last save
+   */
+  async save(data: TrackingData): Promise<void> {
+    if (this.writeBlockedReason) {
+      this.logger.warn('Skipping save - journal cannot be read by this window', {
+        reason: this.writeBlockedReason
+      });
+      return;
+    }
+
+    try {
+      await this.ensureStorageDirectory();
+
+      await this.lock.withLock(async () => {
+        // Without a loaded base the diff below would compact this data over the journal
+        if (this.persistedRollups === undefined && (await this.exists())) {
+          this.logger.warn('Skipping save - journal was not loaded by this window');
+          return;
+        }
+
+        await this.mergeConcurrentChanges(data);
+
+        data.lastSaved = new Date();
+        data.version = CURRENT_DATA_VERSION;
+
+        const rollups = this.getRollupsFingerprint(data);
+        const rollupsChanged = rollups !== this.persistedRollups;
+        this.persistedRollups = rollups;
+
+        const records = this.collectChanges(data);
+        if (rollupsChanged) {
+          // Archived sessions must leave the journal together with their rollups
+          await this.compact(data);
+        } else if (records.length > 0) {
+          await fs.appendFile(this.journalPath, records.map(record => this.encryption.encode(JSON.stringify(record))).join('\n') + '\n', 'utf-8');
+          this.recordCount += records.length;
+        }
+
+        if (!rollupsChanged && this.recordCount >= this.COMPACT_THRESHOLD) {
+          await this.compact(data);
+        }
+
+        this.lastSeenFiles = await this.getFileStamp();
+
+        this.logger.debug('Journal records appended', {
+          records: records.length,
+          journalRecords: this.recordCount
+        });
+      });
+    } catch (error) {
+      this.logger.error('Failed to save journal data', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create backup copies of snapshot and journal
+   */
+  async backup(): Promise<void> {
+    try {
+      if (await fileExists(this.snapshotPath)) {
+        await fs.copyFile(this.snapshotPath, this.snapshotPath.replace(/\.json$/, '.backup.json'));
+      }
+      if (await fileExists(this.journalPath)) {
+        await fs.copyFile(this.journalPath, this.journalPath.replace(/\.jsonl$/, '.backup.jsonl'));
+      }
+      this.logger.debug('Journal backup created successfully');
+    } catch (error) {
+      this.logger.error('Failed to create journal backup', error as Error);
+      // Don't throw - backup failure shouldn't prevent saving
+    }
+  }
+
+  /**
+   * Check if a snapshot or journal exists
+   */
+  async exists(): Promise<boolean> {
+    return (await fileExists(this.snapshotPath)) || (await fileExists(this.journalPath));
+  }
+
+  /**
+   * Clear all tracking data
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.backup();
+
+      await fs.unlink(this.snapshotPath).catch(() => undefined);
+      await fs.unlink(this.journalPath).catch(() => undefined);
+      this.persistedSessions.clear();
+      this.persistedState = undefined;
+      this.persistedRollups = undefined;
+      this.recordCount = 0;
+      this.lastSeenFiles = undefined;
+
+      this.logger.info('Journal data cleared');
+    } catch (error) {
+      this.logger.error('Failed to clear journal data', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move snapshot and journal to quarantine after they failed to load
+   * @returns Whether no file is left that a save could overwrite
+   */
+  private async quarantineJournal(reason: Error): Promise<boolean> {
+    let moved = true;
+    for (const filePath of [this.snapshotPath, this.journalPath]) {
+      if (await fileExists(filePath)) {
+        moved = (await quarantineFile(filePath, reason, this.logger)) !== undefined && moved;
+      }
+    }
+    return moved;
+  }
+
+  /**
+   * Write a full snapshot and start a new, empty journal
+   */
+  private async compact(data: TrackingData): Promise<void> {
+    const jsonData = JSON.stringify(serializeTrackingData(data), null, 2);
+    await writeFileAtomic(this.snapshotPath, this.encryption.encode(jsonData));
+
+    // Replaying old records on top of the new snapshot is harmless, so a crash here loses nothing
+    await writeFileAtomic(this.journalPath, '');
+
+    this.logger.info('Journal compacted', { compactedRecords: this.recordCount, snapshotSize: jsonData.length });
+    this.recordCount = 0;
+  }
+
+  /**
+   * Build journal records for sessions and state that differ from what was persisted
+   */
+  private collectChanges(data: TrackingData): JournalRecord[] {
+    const at = data.lastSaved.toISOString();
+    const records: JournalRecord[] = [];
+    const seen = new Set<string>();
+
+    data.projects.forEach(project => {
+      project.sessions.forEach(session => {
+        seen.add(session.id);
+        const serialized = serializeSession(session);
+        const fingerprint = JSON.stringify(serialized);
+        const previous = this.persistedSessions.get(session.id);
+
+        if (previous === fingerprint) {
+          return;
+        }
+
+        records.push({
+          op: session.endTime ? 'end' : (previous ? 'update' : 'start'),
+          at,
+          session: serialized
+        });
+        this.persistedSessions.set(session.id, fingerprint);
+      });
+    });
+
+    Array.from(this.persistedSessions.keys()).forEach(sessionId => {
+      if (!seen.has(sessionId)) {
+        records.push({ op: 'remove', at, sessionId });
+        this.persistedSessions.delete(sessionId);
+      }
+    });
+
+    const state = this.getState(data);
+    const stateFingerprint = JSON.stringify(state);
+    if (stateFingerprint !== this.persistedState) {
+      records.push({ op: 'state', at, state });
+      this.persistedState = stateFingerprint;
+    }
+
+    return records;
+  }
+
+  /**
+   * Merge records another window appended since our last write
+   */
+  private async mergeConcurrentChanges(data: TrackingData): Promise<void> {
+    if (this.lastSeenFiles === undefined || (await this.getFileStamp()) === this.lastSeenFiles) {
+      return;
+    }
+
+    const diskData = await readJournalData(this.storageDir, this.encryption, this.logger);
+    if (!diskData) {
+      return;
+    }
+
+    // Sessions we persisted that are gone from disk were deleted by another window. The merge
+    // drops them, so the diff below does not append them again.
+    const result = mergeTrackingData(data, diskData, new Set(this.persistedSessions.keys()));
+    if (result.added > 0 || result.updated > 0 || result.removed > 0) {
+      this.logger.info('Merged journal changes from another window', result);
+    }
+
+    // Diff against what is on disk now, not against our stale view
+    await this.rememberPersistedState(diskData);
+  }
+
+  /**
+   * Remember the persisted form of the data as the base for the next diff
+   */
+  private async rememberPersistedState(data: TrackingData): Promise<void> {
+    this.persistedSessions.clear();
+    data.projects.forEach(project => {
+      project.sessions.forEach(session => {
+        this.persistedSessions.set(session.id, JSON.stringify(serializeSession(session)));
+      });
+    });
+    this.persistedState = JSON.stringify(this.getState(data));
+    this.persistedRollups = this.getRollupsFingerprint(data);
+
+    try {
+      const content = await fs.readFile(this.journalPath, 'utf-8');
+      this.recordCount = content.split('\n').filter(line => line.trim()).length;
+    } catch {
+      this.recordCount = 0;
+    }
+    this.lastSeenFiles = await this.getFileStamp();
+  }
+
+  private getRollupsFingerprint(data: TrackingData): string {
+    return JSON.stringify(Array.from(data.projects.entries()).map(([key, project]) => [key, project.dailyRollups]));
+  }
+
+  /**
+   * Extract the workspace-level state recorded in state records
+   */
+  private getState(data: TrackingData): JournalState {
+    const state: JournalState = {
+      lastActivity: data.lastActivity.toISOString(),
+      totalTimeTracked: data.totalTimeTracked
+    };
+    if (data.currentSession) {
+      state.currentSessionId = data.currentSession.id;
+    }
+    if (data.workspacePath) {
+      state.workspacePath = data.workspacePath;
+    }
+    if (data.workspaceName) {
+      state.workspaceName = data.workspaceName;
+    }
+    if (data.workspaceId) {
+      state.workspaceId = data.workspaceId;
+    }
+    return state;
+  }
+
+  /**
+   * Cheap fingerprint of the on-disk files for change detection
+   */
+  private async getFileStamp(): Promise<string> {
+    const describe = async (filePath: string): Promise<string> => {
+      try {
+        const stat = await fs.stat(filePath);
+        return `${stat.size}:${stat.mtimeMs}`;
+      } catch {
+        return 'missing';
+      }
+    };
+    return `${await describe(this.snapshotPath)}|${await describe(this.journalPath)}`;
+  }
+
+  /**
+   * Ensure storage directory exists
+   */
+  private async ensureStorageDirectory(): Promise<void> {
+    try {
+      await fs.mkdir(this.storageDir, { recursive: true });
+    } catch (error) {
+      this.logger.error('Failed to create storage directory', error as Error);
+      throw error;
+    }
+  }
+}
+
@@ -0,0 +1,125 @@
+/**
+ * Pomodoro timer: work intervals that only run while the user is active, followed by breaks
+ */
+
+import { TimeSession } from './types';
+
+export type PomodoroPhase = 'work' | 'shortBreak' | 'longBreak';
+
+/**
+ * Interval lengths in minutes
+ */
+export interface PomodoroDurations {
+  work: number;
+  shortBreak: number;
+  longBreak: number;
+
+  /** Every n-th break is a long break */
+  longBreakInterval: number;
+}
+
+/**
+ * Longest step counted towards a work interval, so a missed timer tick (e.g. after sleep)
+ * does not count as work
+ */
+const MAX_WORK_STEP = 2000;
+
+export class PomodoroTimer {
+  private durations: PomodoroDurations;
+  private phase: PomodoroPhase = 'work';
+  private remaining: number;
+  private completedInCycle = 0;
+  private lastUpdate: Date;
+
+  constructor(durations: PomodoroDurations, now: Date = new Date()) {
+    this.durations = durations;
+    this.remaining = this.getPhaseLength('work');
+    this.lastUpdate = now;
+  }
+
+  get currentPhase(): PomodoroPhase {
+    return this.phase;
+  }
+
+  get isBreak(): boolean {
+    return this.phase !== 'work';
+  }
+
+  /** Milliseconds left in the current phase */
+  get remainingTime(): number {
+    return this.remaining;
+  }
+
+  /**
+   * Count down the current phase. Work only counts while the user is working, breaks run on the clock.
+   * @returns The phase that just ended, if any
+   */
+  advance(now: Date, isWorking: boolean): PomodoroPhase | undefined {
+    let elapsed = Math.max(0, now.getTime() - this.lastUpdate.getTime());
+    this.lastUpdate = now;
+
+    if (this.phase === 'work') {
+      if (!isWorking) {
+        return undefined;
+      }
+      elapsed = Math.min(elapsed, MAX_WORK_STEP);
+    }
+
+    this.remaining -= elapsed;
+    if (this.remaining > 0) {
+      return undefined;
+    }
+
+    const finished = this.phase;
+    if (finished === 'work') {
+      this.completedInCycle++;
+      const interval = Math.max(1, this.durations.longBreakInterval);
+      this.startPhase(this.completedInCycle % interval === 0 ? 'longBreak' : 'shortBreak');
+    } else {
+      this.startPhase('work');
+    }
+    return finished;
+  }
+
+  /**
+   * End a break early and start the next work interval
+   */
+  skipBreak(): void {
+    if (this.isBreak) {
+      this.startPhase('work');
+    }
+  }
+
+  /**
+   * Use new lengths from the next phase on
+   */
+  updateDurations(durations: PomodoroDurations): void {
+    this.durations = durations;
+  }
+
+  getPhaseLength(phase: PomodoroPhase): number {
+    return this.durations[phase] * 60 * 1000;
+  }
+
+  private startPhase(phase: PomodoroPhase): void {
+    this.phase = phase;
+    this.remaining = this.getPhaseLength(phase);
+  }
+}
+
+/**
+ * Format a countdown as m:ss
+ */
+export const formatCountdown = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Finished pomodoros of a set of sessions
+ */
+export const countPomodoros = (sessions: TimeSession[]): number => {
+  return sessions.reduce((total, session) => total + (session.pomodoros ?? 0), 0);
+};
@@ -0,0 +1,40 @@
+/**
+ * Shared helpers for maintaining project statistics
+ */
+
+import { ProjectStats } from './types';
+import { getRecordedDayKey } from './timeUtils';
+
+/**
+ * Recalculate derived project statistics from the project's sessions and archived daily rollups
+ */
+export const recalculateProjectStats = (projectStats: ProjectStats): void => {
+  const sessions = projectStats.sessions.filter(s => s.endTime); // Only completed sessions
+  const rollups = projectStats.dailyRollups;
+  const archivedSessionCount = rollups.reduce((count, rollup) => count + rollup.sessionCount, 0);
+  
+  projectStats.totalTime = sessions.reduce((total, session) => total + session.totalTime, 0) +
+    rollups.reduce((total, rollup) => total + rollup.totalTime, 0);
+  projectStats.averageSessionDuration = sessions.length + archivedSessionCount > 0 
+    ? projectStats.totalTime / (sessions.length + archivedSessionCount) 
+    : 0;
+  
+  // Calculate active days
+  const uniqueDays = new Set(sessions.map(s => getRecordedDayKey(s.startTime, s)));
+  rollups.forEach(rollup => uniqueDays.add(rollup.date));
+  projectStats.activeDays = uniqueDays.size;
+  
+  // Update last activity
+  const lastSession = sessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())[0];
+  if (lastSession) {
+    projectStats.lastActivity = lastSession.lastActivity;
+  }
+};
+
+/**
+ * Number of sessions of a project, including archived ones
+ */
+export const countProjectSessions = (projectStats: ProjectStats): number => {
+  return projectStats.sessions.length +
+    projectStats.dailyRollups.reduce((count, rollup) => count + rollup.sessionCount, 0);
+};
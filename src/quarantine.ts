@@ -0,0 +1,50 @@
+/**
+ * Moves data files that fail validation out of the way instead of overwriting them
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './types';
+import { DataValidationError } from './trackingDataCodec';
+
+export const QUARANTINE_DIR = 'quarantine';
+
+/**
+ * Whether an error means the file content itself is broken (as opposed to an I/O failure)
+ */
+export const isCorruptDataError = (error: unknown): boolean => {
+  return error instanceof SyntaxError || error instanceof DataValidationError;
+};
+
+/**
+ * Move a corrupt data file to `<dir>/quarantine/<name>.<timestamp><ext>` and warn the user
+ * @returns Path of the quarantined file, or undefined if it could not be moved
+ */
+export const quarantineFile = async (filePath: string, reason: Error, logger: Logger): Promise<string | undefined> => {
+  const extension = path.extname(filePath);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const quarantineDir = path.join(path.dirname(filePath), QUARANTINE_DIR);
+  const target = path.join(quarantineDir, `${path.basename(filePath, extension)}.${timestamp}${extension}`);
+
+  try {
+    await fs.mkdir(quarantineDir, { recursive: true });
+    await fs.rename(filePath, target);
+  } catch (error) {
+    logger.error('Failed to quarantine corrupt data file', error as Error);
+    return undefined;
+  }
+
+  logger.warn('Corrupt data file moved to quarantine', {
+    filePath,
+    quarantinedAs: target,
+    problems: reason instanceof DataValidationError ? reason.problems : [reason.message]
+  });
+
+  vscode.window.showWarningMessage(
+    `Zeiterfassung: ${path.basename(filePath)} ist beschädigt und wurde nach ${target} verschoben. ` +
+    'Die Datei wurde nicht überschrieben und kann manuell geprüft werden.'
+  );
+
+  return target;
+};
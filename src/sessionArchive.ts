@@ -0,0 +1,305 @@
+/**
+ * Monthly archive files for old sessions
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TrackingData, TimeSession, DailyRollup, Logger } from './types';
+import { serializeArchive, deserializeArchive, parseStoredJson } from './trackingDataCodec';
+import { writeFileExclusive } from './fileUtils';
+import { recalculateProjectStats } from './projectStats';
+import { getDayKey, getRecordedDayKey, getArchiveMonth } from './timeUtils';
+import { isCorruptDataError, quarantineFile } from './quarantine';
+import { DataEncryption } from './dataEncryption';
+
+export const ARCHIVE_DIR = 'archive';
+
+/** Archive parts are named YYYY-MM.json, YYYY-MM.2.json, ... */
+const ARCHIVE_FILE_PATTERN = /^(\d{4}-\d{2})(?:\.(\d+))?\.json$/;
+
+/**
+ * Archived time within a date range, from the daily rollups.
+ * Uses the same day-based counting as `calculateSessionTimeInRange`, so no archive file is needed.
+ */
+export const getArchivedTimeInRange = (rollups: DailyRollup[], rangeStart: Date, rangeEnd: Date): number => {
+  const firstDay = getDayKey(rangeStart);
+  const lastDay = getDayKey(rangeEnd);
+  return rollups
+    .filter(rollup => rollup.date >= firstDay && rollup.date <= lastDay)
+    .reduce((total, rollup) => total + rollup.totalTime, 0);
+};
+
+/**
+ * Number of archived sessions within a date range, from the daily rollups
+ */
+export const countArchivedSessionsInRange = (rollups: DailyRollup[], rangeStart: Date, rangeEnd: Date): number => {
+  const firstDay = getDayKey(rangeStart);
+  const lastDay = getDayKey(rangeEnd);
+  return rollups
+    .filter(rollup => rollup.date >= firstDay && rollup.date <= lastDay)
+    .reduce((count, rollup) => count + rollup.sessionCount, 0);
+};
+
+/**
+ * Build the daily rollups of one project's archived sessions
+ */
+const buildRollups = (sessions: TimeSession[]): DailyRollup[] => {
+  const byDay = new Map<string, DailyRollup>();
+  sessions.forEach(session => {
+    const date = getRecordedDayKey(session.startTime, session);
+    const rollup = byDay.get(date) ?? { date, totalTime: 0, sessionCount: 0 };
+    rollup.totalTime += session.totalTime;
+    rollup.sessionCount++;
+    byDay.set(date, rollup);
+  });
+  return Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Create the project of an archived session if the data has none yet, so its rollups
+ * have a place (e.g. sessions imported for a project that only existed elsewhere)
+ */
+const addMissingProject = (data: TrackingData, session: TimeSession): void => {
+  const project = data.projects.get(session.projectPath);
+  if (project) {
+    if (session.startTime < project.firstSession) {
+      project.firstSession = session.startTime;
+    }
+    if (session.lastActivity > project.lastActivity) {
+      project.lastActivity = session.lastActivity;
+    }
+    return;
+  }
+  data.projects.set(session.projectPath, {
+    projectName: session.projectName,
+    projectPath: session.projectPath,
+    totalTime: 0,
+    sessions: [],
+    lastActivity: session.lastActivity,
+    firstSession: session.startTime,
+    averageSessionDuration: 0,
+    activeDays: 0,
+    dailyRollups: []
+  });
+};
+
+/**
+ * Reads and writes the read-only monthly archive files of one storage directory.
+ * A month is only archived once it lies completely beyond the configured age, and
+ * archive files are never modified afterwards - sessions that turn up later for an
+ * archived month go into an additional part file.
+ */
+export class SessionArchive {
+  private readonly archiveDir: string;
+  private readonly encryption: DataEncryption;
+  private readonly logger: Logger;
+
+  /** Loaded sessions by month with the part files they came from; parts never change once written */
+  private readonly monthCache = new Map<string, { parts: string; sessions: TimeSession[] }>();
+
+  constructor(storageDir: string, encryption: DataEncryption, logger: Logger) {
+    this.archiveDir = path.join(storageDir, ARCHIVE_DIR);
+    this.encryption = encryption;
+    this.logger = logger;
+  }
+
+  /**
+   * Months that have archive files, oldest first
+   */
+  async listMonths(): Promise<string[]> {
+    const months = new Set<string>();
+    (await this.listFiles()).forEach(fileName => {
+      const month = ARCHIVE_FILE_PATTERN.exec(fileName)?.[1];
+      if (month) {
+        months.add(month);
+      }
+    });
+    return Array.from(months).sort();
+  }
+
+  /**
+   * Load all archived sessions of a month
+   */
+  async loadMonth(month: string): Promise<TimeSession[]> {
+    const parts = (await this.listFiles()).filter(fileName => ARCHIVE_FILE_PATTERN.exec(fileName)?.[1] === month);
+    const cached = this.monthCache.get(month);
+    if (cached && cached.parts === parts.join('|')) {
+      return cached.sessions;
+    }
+
+    const sessions = new Map<string, TimeSession>();
+
+    for (const fileName of parts) {
+      const filePath = path.join(this.archiveDir, fileName);
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        deserializeArchive(parseStoredJson(this.encryption.decode(content))).sessions
+          .forEach(session => sessions.set(session.id, session));
+      } catch (error) {
+        if (!isCorruptDataError(error)) {
+          throw error;
+        }
+        // The rollups in the main file still hold the totals of this part
+        await quarantineFile(filePath, error as Error, this.logger);
+      }
+    }
+
+    const result = Array.from(sessions.values()).sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    this.monthCache.set(month, { parts: parts.join('|'), sessions: result });
+    return result;
+  }
+
+  /**
+   * Load the archived sessions that start within a date range, touching only the months it covers
+   */
+  async loadRange(rangeStart: Date, rangeEnd: Date): Promise<TimeSession[]> {
+    const firstMonth = getArchiveMonth(rangeStart);
+    const lastMonth = getArchiveMonth(rangeEnd);
+    const firstDay = getDayKey(rangeStart);
+    const lastDay = getDayKey(rangeEnd);
+
+    const sessions: TimeSession[] = [];
+    for (const month of await this.listMonths()) {
+      if (month < firstMonth || month > lastMonth) {
+        continue;
+      }
+      (await this.loadMonth(month)).forEach(session => {
+        const day = getDayKey(session.startTime, session);
+        if (day >= firstDay && day <= lastDay) {
+          sessions.push(session);
+        }
+      });
+    }
+    return sessions;
+  }
+
+  /**
+   * Load every archived session
+   */
+  async loadAll(): Promise<TimeSession[]> {
+    const sessions: TimeSession[] = [];
+    for (const month of await this.listMonths()) {
+      sessions.push(...(await this.loadMonth(month)));
+    }
+    return sessions;
+  }
+
+  /**
+   * Move completed sessions of months older than `maxAgeDays` out of the data into archive
+   * files and replace them with daily rollups, in place
+   * @returns Number of sessions removed from the data
+   */
+  async archiveOldSessions(data: TrackingData, maxAgeDays: number, now: Date = new Date()): Promise<number> {
+    if (maxAgeDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - maxAgeDays);
+    // Months before the cutoff's month are complete and entirely older than the cutoff
+    const cutoffMonth = getArchiveMonth(cutoff);
+
+    const byMonth = new Map<string, TimeSession[]>();
+    data.projects.forEach(project => {
+      project.sessions.forEach(session => {
+        if (!session.endTime || session.id === data.currentSession?.id) {
+          return;
+        }
+        const month = getArchiveMonth(session.startTime, session);
+        if (month >= cutoffMonth) {
+          return;
+        }
+        byMonth.set(month, [...(byMonth.get(month) ?? []), session]);
+      });
+    });
+
+    if (byMonth.size === 0) {
+      return 0;
+    }
+
+    const removed = await this.storeMonths(data, byMonth);
+    this.logger.info('Old sessions archived', { months: Array.from(byMonth.keys()), removed });
+    return removed;
+  }
+
+  /**
+   * Add sessions taken over from elsewhere (e.g. another workspace's archive) and
+   * rebuild the rollups of their months in the data
+   */
+  async importSessions(data: TrackingData, sessions: TimeSession[]): Promise<void> {
+    const byMonth = new Map<string, TimeSession[]>();
+    sessions.forEach(session => {
+      const month = getArchiveMonth(session.startTime, session);
+      byMonth.set(month, [...(byMonth.get(month) ?? []), session]);
+    });
+    if (byMonth.size === 0) {
+      return;
+    }
+
+    await this.storeMonths(data, byMonth);
+    this.logger.info('Archived sessions imported', { months: Array.from(byMonth.keys()), sessions: sessions.length });
+  }
+
+  /**
+   * Write the given sessions of each month into the archive, remove them from the
+   * data and replace the month's rollups with ones derived from the archive files
+   * @returns Number of sessions removed from the data
+   */
+  private async storeMonths(data: TrackingData, byMonth: Map<string, TimeSession[]>): Promise<number> {
+    await fs.mkdir(this.archiveDir, { recursive: true });
+
+    let removed = 0;
+    for (const [month, sessions] of Array.from(byMonth.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      const archived = await this.loadMonth(month);
+      const archivedIds = new Set(archived.map(session => session.id));
+      const newSessions = sessions.filter(session => !archivedIds.has(session.id));
+
+      if (newSessions.length > 0) {
+        await this.writePart(month, newSessions);
+      }
+
+      const allSessions = [...archived, ...newSessions];
+
+      // Archive files are the source of truth for a month - derive its rollups from them
+      const monthIds = new Set(sessions.map(session => session.id));
+      allSessions.forEach(session => addMissingProject(data, session));
+      data.projects.forEach(project => {
+        const before = project.sessions.length;
+        project.sessions = project.sessions.filter(session => !monthIds.has(session.id));
+        removed += before - project.sessions.length;
+
+        project.dailyRollups = [
+          ...project.dailyRollups.filter(rollup => !rollup.date.startsWith(`${month}-`)),
+          ...buildRollups(allSessions.filter(session => session.projectPath === project.projectPath))
+        ].sort((a, b) => a.date.localeCompare(b.date));
+        recalculateProjectStats(project);
+      });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Write sessions as a new read-only part file of a month
+   */
+  private async writePart(month: string, sessions: TimeSession[]): Promise<void> {
+    const content = this.encryption.encode(JSON.stringify(serializeArchive(month, sessions), null, 2));
+
+    for (let part = 1; ; part++) {
+      const filePath = path.join(this.archiveDir, part === 1 ? `${month}.json` : `${month}.${part}.json`);
+      if (await writeFileExclusive(filePath, content)) {
+        await fs.chmod(filePath, 0o444);
+        this.logger.debug('Archive part written', { filePath, sessionCount: sessions.length });
+        return;
+      }
+    }
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.archiveDir)).filter(fileName => ARCHIVE_FILE_PATTERN.test(fileName));
+    } catch {
+      return [];
+    }
+  }
+}
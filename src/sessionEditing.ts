@@ -0,0 +1,431 @@
+/**
+ * Corrections to completed sessions: changing times, splitting, merging, moving and deleting
+ */
+
+import { TrackingData, TimeSession, ProjectStats, ActiveSegment, FileTime } from './types';
+import { recalculateProjectStats } from './projectStats';
+import { getDayKey, getUtcOffsetAt, getRecordedZone } from './timeUtils';
+import { clipSegments, normalizeSegments, getActiveSegments, getSegmentShareInRange } from './activeSegments';
+import { mergeFileTimes, splitFileTimes } from './fileTimes';
+
+/**
+ * Raised when an edit would leave the data inconsistent. The message is shown to the user.
+ */
+export class SessionEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionEditError';
+  }
+}
+
+/**
+ * Time the user was away from a session, noticed when they returned
+ */
+export interface IdleStretch {
+  sessionId: string;
+  start: Date;
+  end: Date;
+
+  /** Active time of the session when the user returned */
+  sessionTimeAtReturn: number;
+}
+
+/**
+ * Find a session and the project it belongs to
+ */
+export const findSession = (
+  data: TrackingData,
+  sessionId: string
+): { session: TimeSession; project: ProjectStats } | undefined => {
+  for (const project of data.projects.values()) {
+    const session = project.sessions.find(candidate => candidate.id === sessionId);
+    if (session) {
+      return { session, project };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Sessions of any project that overlap a time range - one person cannot work on two sessions at once
+ * @param ignoreIds Sessions that are being edited and may overlap their old selves
+ */
+export const findConflictingSessions = (
+  data: TrackingData,
+  rangeStart: Date,
+  rangeEnd: Date,
+  ignoreIds: string[] = []
+): TimeSession[] => {
+  const conflicts: TimeSession[] = [];
+  data.projects.forEach(project => {
+    project.sessions.forEach(session => {
+      if (ignoreIds.includes(session.id)) {
+        return;
+      }
+      const sessionEnd = session.endTime ?? (session.id === data.currentSession?.id ? new Date() : session.lastActivity);
+      if (session.startTime < rangeEnd && sessionEnd > rangeStart) {
+        conflicts.push(session);
+      }
+    });
+  });
+  return conflicts.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+/**
+ * Sessions of the same project and day directly before and after a session
+ */
+export const getMergeCandidates = (data: TrackingData, sessionId: string): TimeSession[] => {
+  const found = findSession(data, sessionId);
+  if (!found) {
+    return [];
+  }
+  const sameDay = found.project.sessions
+    .filter(session => session.endTime && session.id !== data.currentSession?.id)
+    .filter(session => getDayKey(session.startTime) === getDayKey(found.session.startTime))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const index = sameDay.findIndex(session => session.id === sessionId);
+  return [sameDay[index - 1], sameDay[index + 1]].filter((session): session is TimeSession => !!session);
+};
+
+/**
+ * Change a session's start, end and active time, in place
+ */
+export const updateSessionTimes = (
+  data: TrackingData,
+  sessionId: string,
+  startTime: Date,
+  endTime: Date,
+  activeTime: number
+): void => {
+  const { session, project } = getEditableSession(data, sessionId);
+  validateRange(data, startTime, endTime, [sessionId]);
+  if (activeTime < 0 || activeTime > endTime.getTime() - startTime.getTime()) {
+    throw new SessionEditError('Die aktive Zeit muss zwischen 0 und der Dauer der Session liegen');
+  }
+
+  session.startTime = startTime;
+  session.endTime = endTime;
+  session.totalTime = activeTime;
+  // Activity after the new end did not happen in this session
+  if (session.lastActivity > endTime) {
+    session.lastActivity = endTime;
+  }
+  if (session.lastActiveTime > endTime) {
+    session.lastActiveTime = endTime;
+  }
+  if (session.activeSegments) {
+    setActiveSegments(session, clipSegments(session.activeSegments, startTime, endTime));
+  }
+  markEdited(session);
+  sortAndRecalculate(project);
+};
+
+/**
+ * Split a session in two at a point in time, in place. Active time is divided by the active
+ * segments on each side, activity counters in proportion to the wall-clock time of each part.
+ * @returns The new second part
+ */
+export const splitSession = (data: TrackingData, sessionId: string, at: Date, newId: string): TimeSession => {
+  const { session, project } = getEditableSession(data, sessionId);
+  const endTime = session.endTime!;
+  if (at <= session.startTime || at >= endTime) {
+    throw new SessionEditError('Der Teilungszeitpunkt muss zwischen Beginn und Ende der Session liegen');
+  }
+
+  const share = (at.getTime() - session.startTime.getTime()) / (endTime.getTime() - session.startTime.getTime());
+  const activeShare = getSegmentShareInRange(session.activeSegments, session.startTime, at) ?? share;
+  const firstTime = Math.min(Math.round(session.totalTime * activeShare), at.getTime() - session.startTime.getTime());
+  const firstTextChanges = Math.round(session.textChanges * share);
+  const firstCursorMovements = Math.round(session.cursorMovements * share);
+
+  const second: TimeSession = {
+    ...session,
+    id: newId,
+    startTime: new Date(at),
+    totalTime: session.totalTime - firstTime,
+    textChanges: session.textChanges - firstTextChanges,
+    cursorMovements: session.cursorMovements - firstCursorMovements
+  };
+
+  if (session.tags) {
+    second.tags = [...session.tags];
+  }
+  // Finished pomodoros cannot be divided, they stay with the first part
+  delete second.pomodoros;
+  // The second part starts with its own UTC offset, e.g. after a daylight saving change
+  const utcOffset = getUtcOffsetAt(second.startTime, session);
+  if (utcOffset !== undefined) {
+    second.utcOffset = utcOffset;
+  }
+  if (session.activeSegments) {
+    setActiveSegments(second, clipSegments(session.activeSegments, at, endTime));
+    setActiveSegments(session, clipSegments(session.activeSegments, session.startTime, at));
+  }
+  if (session.files) {
+    const [firstFiles, secondFiles] = splitFileTimes(session.files, activeShare);
+    setFiles(session, firstFiles);
+    setFiles(second, secondFiles);
+  }
+  if (session.debugTime) {
+    const firstDebugTime = Math.round(session.debugTime * activeShare);
+    setDebugTime(second, session.debugTime - firstDebugTime);
+    setDebugTime(session, firstDebugTime);
+  }
+
+  session.endTime = new Date(at);
+  session.totalTime = firstTime;
+  session.textChanges = firstTextChanges;
+  session.cursorMovements = firstCursorMovements;
+  session.lastActivity = new Date(at);
+  session.lastActiveTime = new Date(at);
+
+  markEdited(session);
+  markEdited(second);
+  project.sessions.push(second);
+  sortAndRecalculate(project);
+  return second;
+};
+
+/**
+ * End a running session where an absence began and continue it in a new session from
+ * the return, taking along the time worked since then, in place
+ * @returns The continuing session, not yet added to any project, or undefined if nothing
+ * was worked before the absence and the session now just starts at the return
+ */
+export const splitAroundIdleStretch = (
+  session: TimeSession,
+  stretch: IdleStretch,
+  newId: string,
+  now: Date = new Date()
+): TimeSession | undefined => {
+  if (session.startTime >= stretch.start) {
+    session.startTime = new Date(stretch.end);
+    return undefined;
+  }
+
+  const workedSinceReturn = Math.max(0, session.totalTime - stretch.sessionTimeAtReturn);
+  const continued: TimeSession = {
+    id: newId,
+    projectName: session.projectName,
+    projectPath: session.projectPath,
+    startTime: new Date(stretch.end),
+    totalTime: workedSinceReturn,
+    isActive: true,
+    lastActivity: session.lastActivity,
+    lastActiveTime: session.lastActiveTime,
+    textChanges: 0,
+    cursorMovements: 0,
+    ...getRecordedZone(stretch.end)
+  };
+  if (session.tags) {
+    continued.tags = [...session.tags];
+  }
+  if (session.activeSegments) {
+    continued.activeSegments = clipSegments(session.activeSegments, stretch.end, now);
+    session.activeSegments = clipSegments(session.activeSegments, session.startTime, stretch.start);
+  }
+  const shareBefore = session.totalTime > 0 ? 1 - workedSinceReturn / session.totalTime : 1;
+  if (session.files) {
+    const [before, after] = splitFileTimes(session.files, shareBefore);
+    session.files = before;
+    if (after.length > 0) {
+      continued.files = after;
+    }
+  }
+  if (session.debugTime) {
+    const debugTimeBefore = Math.round(session.debugTime * shareBefore);
+    if (session.debugTime > debugTimeBefore) {
+      continued.debugTime = session.debugTime - debugTimeBefore;
+    }
+    session.debugTime = debugTimeBefore;
+  }
+
+  session.totalTime -= workedSinceReturn;
+  session.endTime = new Date(stretch.start);
+  session.isActive = false;
+  session.lastActivity = new Date(stretch.start);
+  session.lastActiveTime = new Date(stretch.start);
+  return continued;
+};
+
+/**
+ * Merge two sessions of the same project and day into the earlier one, in place.
+ * The time between them is covered by the merged session but not counted as active.
+ * @returns The merged session
+ */
+export const mergeSessions = (data: TrackingData, sessionId: string, otherId: string): TimeSession => {
+  const first = getEditableSession(data, sessionId);
+  const second = getEditableSession(data, otherId);
+  if (first.project !== second.project) {
+    throw new SessionEditError('Nur Sessions desselben Projekts können zusammengeführt werden');
+  }
+  if (getDayKey(first.session.startTime) !== getDayKey(second.session.startTime)) {
+    throw new SessionEditError('Nur Sessions desselben Tages können zusammengeführt werden');
+  }
+
+  const [earlier, later] = first.session.startTime <= second.session.startTime
+    ? [first.session, second.session]
+    : [second.session, first.session];
+  const endTime = earlier.endTime! > later.endTime! ? earlier.endTime! : later.endTime!;
+  validateRange(data, earlier.startTime, endTime, [earlier.id, later.id]);
+
+  earlier.endTime = endTime;
+  earlier.totalTime = Math.min(earlier.totalTime + later.totalTime, endTime.getTime() - earlier.startTime.getTime());
+  earlier.textChanges += later.textChanges;
+  earlier.cursorMovements += later.cursorMovements;
+  earlier.lastActivity = earlier.lastActivity > later.lastActivity ? earlier.lastActivity : later.lastActivity;
+  earlier.lastActiveTime = earlier.lastActiveTime > later.lastActiveTime ? earlier.lastActiveTime : later.lastActiveTime;
+  if (earlier.activeSegments || later.activeSegments) {
+    earlier.activeSegments = normalizeSegments([...getActiveSegments(earlier), ...getActiveSegments(later)]);
+  }
+  if (earlier.files || later.files) {
+    earlier.files = mergeFileTimes(earlier.files, later.files);
+  }
+  setDebugTime(earlier, (earlier.debugTime ?? 0) + (later.debugTime ?? 0));
+  // Tracked time absorbs a manual entry, so the merged session is only manual if both were
+  if (!later.manual) {
+    delete earlier.manual;
+  }
+  const note = [earlier.note, later.note].filter(Boolean).join(' / ');
+  if (note) {
+    earlier.note = note;
+  }
+  const tags = Array.from(new Set([...(earlier.tags ?? []), ...(later.tags ?? [])]));
+  if (tags.length > 0) {
+    earlier.tags = tags;
+  }
+  const pomodoros = (earlier.pomodoros ?? 0) + (later.pomodoros ?? 0);
+  if (pomodoros > 0) {
+    earlier.pomodoros = pomodoros;
+  }
+
+  first.project.sessions = first.project.sessions.filter(session => session.id !== later.id);
+  markEdited(earlier);
+  sortAndRecalculate(first.project);
+  return earlier;
+};
+
+/**
+ * Move a session to another project, in place. Projects left without sessions are removed.
+ */
+export const moveSession = (data: TrackingData, sessionId: string, target: { path: string; name: string }): void => {
+  const { session, project } = getEditableSession(data, sessionId);
+  if (project.projectPath === target.path) {
+    return;
+  }
+
+  let targetProject = data.projects.get(target.path);
+  if (!targetProject) {
+    targetProject = {
+      projectName: target.name,
+      projectPath: target.path,
+      totalTime: 0,
+      sessions: [],
+      lastActivity: session.lastActivity,
+      firstSession: session.startTime,
+      averageSessionDuration: 0,
+      activeDays: 0,
+      dailyRollups: []
+    };
+    data.projects.set(target.path, targetProject);
+  }
+
+  project.sessions = project.sessions.filter(candidate => candidate.id !== sessionId);
+  session.projectPath = targetProject.projectPath;
+  session.projectName = targetProject.projectName;
+  targetProject.sessions.push(session);
+  if (session.startTime < targetProject.firstSession) {
+    targetProject.firstSession = session.startTime;
+  }
+
+  markEdited(session);
+  sortAndRecalculate(targetProject);
+  removeIfEmpty(data, project);
+};
+
+/**
+ * Delete a session, in place. Projects left without sessions are removed.
+ */
+export const deleteSession = (data: TrackingData, sessionId: string): void => {
+  const { project } = getEditableSession(data, sessionId);
+  project.sessions = project.sessions.filter(session => session.id !== sessionId);
+  recalculateProjectStats(project);
+  removeIfEmpty(data, project);
+};
+
+/**
+ * Only completed sessions can be edited - the running session still changes with every tick
+ */
+const getEditableSession = (data: TrackingData, sessionId: string): { session: TimeSession; project: ProjectStats } => {
+  const found = findSession(data, sessionId);
+  if (!found) {
+    throw new SessionEditError('Session nicht gefunden');
+  }
+  if (!found.session.endTime || found.session.id === data.currentSession?.id) {
+    throw new SessionEditError('Die laufende Session kann nicht bearbeitet werden');
+  }
+  return found;
+};
+
+/**
+ * Sessions never span the day boundary and never overlap other sessions
+ */
+const validateRange = (data: TrackingData, startTime: Date, endTime: Date, ignoreIds: string[]): void => {
+  if (endTime <= startTime) {
+    throw new SessionEditError('Das Ende muss nach dem Beginn liegen');
+  }
+  if (getDayKey(startTime) !== getDayKey(new Date(endTime.getTime() - 1))) {
+    throw new SessionEditError('Eine Session darf nicht über den Tageswechsel hinausgehen');
+  }
+  if (endTime > new Date()) {
+    throw new SessionEditError('Das Ende liegt in der Zukunft');
+  }
+
+  const conflicts = findConflictingSessions(data, startTime, endTime, ignoreIds);
+  if (conflicts.length > 0) {
+    const conflict = conflicts[0]!;
+    const formatTime = (date: Date) => date.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+    throw new SessionEditError(
+      `Überschneidung mit ${conflict.projectName} (${formatTime(conflict.startTime)}-${conflict.endTime ? formatTime(conflict.endTime) : 'läuft'})`
+    );
+  }
+};
+
+const markEdited = (session: TimeSession): void => {
+  session.editedAt = new Date();
+};
+
+const setActiveSegments = (session: TimeSession, segments: ActiveSegment[]): void => {
+  if (segments.length > 0) {
+    session.activeSegments = segments;
+  } else {
+    delete session.activeSegments;
+  }
+};
+
+const setFiles = (session: TimeSession, files: FileTime[]): void => {
+  if (files.length > 0) {
+    session.files = files;
+  } else {
+    delete session.files;
+  }
+};
+
+const setDebugTime = (session: TimeSession, debugTime: number): void => {
+  if (debugTime > 0) {
+    session.debugTime = debugTime;
+  } else {
+    delete session.debugTime;
+  }
+};
+
+const sortAndRecalculate = (project: ProjectStats): void => {
+  project.sessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  recalculateProjectStats(project);
+};
+
+const removeIfEmpty = (data: TrackingData, project: ProjectStats): void => {
+  if (project.sessions.length === 0 && project.dailyRollups.length === 0) {
+    data.projects.delete(project.projectPath);
+  }
+};
@@ -0,0 +1,60 @@
+/**
+ * Free-form session tags and grouping of sessions by tag
+ */
+
+import { TimeSession } from './types';
+
+/** Group of sessions without any tag */
+export const UNTAGGED = 'Ohne Tag';
+
+/**
+ * Time of all sessions carrying one tag
+ */
+export interface TagGroup {
+  /** Tag without leading '#', or `UNTAGGED` */
+  tag: string;
+
+  totalTime: number;
+  sessionCount: number;
+
+  /** Time per project name */
+  projects: Map<string, number>;
+}
+
+/**
+ * Parse tags typed by the user, separated by commas or spaces ("review, #kunde-a")
+ * @returns Unique tags without leading '#', in input order
+ */
+export const parseTagsInput = (input: string): string[] => {
+  const tags = input
+    .split(/[\s,]+/)
+    .map(tag => tag.replace(/^#+/, '').trim())
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(tags));
+};
+
+/**
+ * Format tags for display, e.g. "#review #kunde-a"
+ */
+export const formatTags = (tags: string[] | undefined): string => {
+  return (tags ?? []).map(tag => `#${tag}`).join(' ');
+};
+
+/**
+ * Group sessions by tag, largest group first. A session with several tags counts for each of them,
+ * so the groups can add up to more than the total time.
+ */
+export const groupSessionsByTag = (sessions: TimeSession[]): TagGroup[] => {
+  const groups = new Map<string, TagGroup>();
+  sessions.forEach(session => {
+    const tags = session.tags?.length ? session.tags : [UNTAGGED];
+    tags.forEach(tag => {
+      const group = groups.get(tag) ?? { tag, totalTime: 0, sessionCount: 0, projects: new Map<string, number>() };
+      group.totalTime += session.totalTime;
+      group.sessionCount++;
+      group.projects.set(session.projectName, (group.projects.get(session.projectName) ?? 0) + session.totalTime);
+      groups.set(tag, group);
+    });
+  });
+  return Array.from(groups.values()).sort((a, b) => b.totalTime - a.totalTime);
+};
@@ -0,0 +1,82 @@
+/**
+ * Selection of the storage backend and conversion between backends
+ */
+
+import * as vscode from 'vscode';
+import { Storage, Logger, StorageBackend } from './types';
+import { FileStorageManager } from './storageManager';
+import { JournalStorageManager } from './journalStorageManager';
+import { DataEncryption } from './dataEncryption';
+import { collectSessionIds } from './trackingDataMerge';
+
+/**
+ * Create the storage implementation for a backend
+ */
+export const createStorage = (
+  backend: StorageBackend,
+  context: vscode.ExtensionContext,
+  logger: Logger,
+  encryption: DataEncryption
+): Storage => {
+  return backend === 'journal'
+    ? new JournalStorageManager(context, logger, encryption)
+    : new FileStorageManager(context, logger, encryption);
+};
+
+/**
+ * Move data written by the other backend into the selected one.
+ *
+ * After a conversion the source backend's files are cleared (its backup is kept),
+ * so data existing in the other backend always means it is the most recent copy -
+ * this makes switching the setting back and forth lossless in both directions.
+ * The source is only cleared once the target reads back every converted session;
+ * a source that cannot be read is left alone.
+ * @returns true if data was converted
+ * @throws If the target does not read back the converted data; the source is kept
+ */
+export const convertFromOtherBackend = async (
+  backend: StorageBackend,
+  target: Storage,
+  context: vscode.ExtensionContext,
+  logger: Logger,
+  encryption: DataEncryption
+): Promise<boolean> => {
+  const otherBackend: StorageBackend = backend === 'journal' ? 'file' : 'journal';
+  const source = createStorage(otherBackend, context, logger, encryption);
+
+  if (!(await source.exists())) {
+    return false;
+  }
+
+  const data = await source.load();
+  if (!data || !source.isLoaded()) {
+    logger.warn('Not converting tracking data - the other storage backend could not be read', { from: otherBackend });
+    return false;
+  }
+
+  // Stale target files from before the last switch must not be merged back in
+  if (await target.exists()) {
+    await target.clear();
+  }
+
+  await target.save(data);
+
+  const converted = await target.load();
+  const expectedIds = collectSessionIds(data);
+  const convertedIds = converted && target.isLoaded() ? collectSessionIds(converted) : new Set<string>();
+  if (Array.from(expectedIds).some(id => !convertedIds.has(id))) {
+    // Tracking into a partial copy would be lost when the conversion is retried
+    throw new Error(
+      `Converted tracking data could not be verified: ${convertedIds.size} of ${expectedIds.size} sessions read back from ${backend}`
+    );
+  }
+
+  await source.clear();
+
+  logger.info('Converted tracking data between storage backends', {
+    from: otherBackend,
+    to: backend,
+    projectCount: data.projects.size
+  });
+  return true;
+};
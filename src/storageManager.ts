@@ -5,7 +5,30 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { TrackingData, ProjectStats, Storage, Logger } from './types';
+import { TrackingData, Storage, Logger } from './types';
+import {
+  CURRENT_DATA_VERSION,
+  UnsupportedDataVersionError,
+  migrateTrackingData,
+  migrateWithSnapshot
+} from './dataMigrations';
+import { FileLock } from './fileLock';
+import { writeFileAtomic, fileExists } from './fileUtils';
+import { mergeTrackingData, collectSessionIds } from './trackingDataMerge';
+import {
+  serializeTrackingData,
+  deserializeTrackingData,
+  parseStoredJson
+} from './trackingDataCodec';
+import { isCorruptDataError, quarantineFile } from './quarantine';
+import { DataEncryption, EncryptionKeyUnavailableError } from './dataEncryption';
+import {
+  getWorkspaceStorageDir,
+  getWorkspaceIdentity,
+  belongsToOtherWorkspace,
+  stampWorkspace,
+  createDefaultTrackingData
+} from './workspaceStorage';
 
 /**
  * File-based storage implementation for tracking data
@@ -13,85 +36,83 @@ import { TrackingData, ProjectStats, Storage, Logger } from './types';
 export class FileStorageManager implements Storage {
   private readonly dataPath: string;
   private readonly backupPath: string;
+  private readonly lock: FileLock;
   private readonly logger: Logger;
-  private readonly DATA_VERSION = '1.0.0';
+  private readonly encryption: DataEncryption;
+  private readonly DATA_VERSION = CURRENT_DATA_VERSION;
+  
+  /** Why the data file cannot be handled (newer version, unknown encryption key or another workspace's data); blocks all writes */
+  private writeBlockedReason: string | undefined;
+  
+  /** Whether the last load read the data file itself */
+  private loadedFromDisk = false;
+  
+  /** Session IDs present in the last data loaded or written by this window */
+  private knownSessionIds = new Set<string>();
+  
+  /** `lastSaved` stamp of the file content this window last loaded or wrote */
+  private lastSeenSaved: string | undefined;
 
-  constructor(context: vscode.ExtensionContext, logger: Logger) {
+  constructor(context: vscode.ExtensionContext, logger: Logger, encryption: DataEncryption) {
     this.logger = logger;
+    this.encryption = encryption;
     
-    // Use workspace-specific storage instead of global storage
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    let storageDir: string;
-    
-    if (workspaceFolder) {
-      // Store data in workspace-specific directory
-      const workspaceHash = this.generateWorkspaceHash(workspaceFolder.uri.fsPath);
-      storageDir = path.join(context.globalStorageUri.fsPath, 'workspaces', workspaceHash);
-    } else {
-      // Fallback to global storage for files without workspace
-      storageDir = path.join(context.globalStorageUri.fsPath, 'global');
-    }
+    const storageDir = getWorkspaceStorageDir(context);
     
     this.dataPath = path.join(storageDir, 'timeTrackingData.json');
     this.backupPath = path.join(storageDir, 'timeTrackingData.backup.json');
+    this.lock = new FileLock(path.join(storageDir, 'timeTrackingData.lock'), logger);
     
     this.logger.debug('Storage paths initialized', { 
       dataPath: this.dataPath, 
       backupPath: this.backupPath,
-      workspace: workspaceFolder?.name || 'global'
+      workspace: getWorkspaceIdentity()?.name || 'global'
     });
   }
 
-  /**
-   * Generate a hash for workspace path to create unique storage directories
-   */
-  private generateWorkspaceHash(workspacePath: string): string {
-    // Simple hash function for workspace path
-    let hash = 0;
-    for (let i = 0; i < workspacePath.length; i++) {
-      const char = workspacePath.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(36);
-  }
-
   /**
    * Load tracking data from storage
    */
   async load(): Promise<TrackingData | undefined> {
+    this.loadedFromDisk = false;
     try {
       // Ensure storage directory exists
       await this.ensureStorageDirectory();
 
       if (!(await this.exists())) {
         this.logger.info('No existing data file found, returning default data');
-        return this.createDefaultData();
+        return createDefaultTrackingData();
       }
 
       const fileContent = await fs.readFile(this.dataPath, 'utf-8');
-      const rawData = JSON.parse(fileContent);
+      const rawData = await migrateWithSnapshot(
+        parseStoredJson(this.encryption.decode(fileContent)),
+        fileContent,
+        this.dataPath,
+        this.logger
+      );
       
       // Convert raw data to typed data with proper Map and Date objects
-      const trackingData = this.deserializeData(rawData);
+      const trackingData = deserializeTrackingData(rawData);
       
       // Validate workspace compatibility
-      const currentWorkspace = vscode.workspace.workspaceFolders?.[0];
-      if (currentWorkspace && trackingData.workspacePath && 
-          trackingData.workspacePath !== currentWorkspace.uri.fsPath) {
+      if (belongsToOtherWorkspace(trackingData)) {
         this.logger.warn('Loaded data belongs to different workspace', {
           dataWorkspace: trackingData.workspaceName,
-          currentWorkspace: currentWorkspace.name
+          currentWorkspace: getWorkspaceIdentity()?.name
         });
+        // Saving would merge the other workspace's sessions into this window's data and write them back
+        this.writeBlockedReason = `Data file belongs to workspace "${trackingData.workspaceName}"`;
+        this.rememberPersistedState(trackingData);
         // Return default data for this workspace instead of incompatible data
-        return this.createDefaultData();
+        return createDefaultTrackingData();
       }
       
-      // Update workspace info if missing (for backward compatibility)
-      if (currentWorkspace && !trackingData.workspacePath) {
-        trackingData.workspacePath = currentWorkspace.uri.fsPath;
-        trackingData.workspaceName = currentWorkspace.name;
-      }
+      // Keep ID, path and name current (the workspace may have moved)
+      stampWorkspace(trackingData);
+      
+      this.rememberPersistedState(trackingData);
+      this.loadedFromDisk = true;
       
       this.logger.info('Tracking data loaded successfully', { 
         projectCount: trackingData.projects.size,
@@ -101,47 +122,85 @@ export class FileStorageManager implements Storage {
       
       return trackingData;
     } catch (error) {
+      if (error instanceof UnsupportedDataVersionError || error instanceof EncryptionKeyUnavailableError) {
+        // Never fall back to defaults here - the next save would overwrite data we cannot read
+        this.writeBlockedReason = error.message;
+        this.logger.error('Tracking data cannot be read by this window, refusing to load', error);
+        throw error;
+      }
+
       this.logger.error('Failed to load tracking data', error as Error);
       
+      // Move a corrupt file aside so the next save cannot overwrite it
+      if (isCorruptDataError(error)) {
+        await quarantineFile(this.dataPath, error as Error, this.logger);
+      }
+      
       // Try to load from backup
       try {
         const backupContent = await fs.readFile(this.backupPath, 'utf-8');
-        const rawBackupData = JSON.parse(backupContent);
-        const backupData = this.deserializeData(rawBackupData);
+        const rawBackupData = migrateTrackingData(parseStoredJson(this.encryption.decode(backupContent))).data;
+        const backupData = deserializeTrackingData(rawBackupData);
         
         this.logger.warn('Loaded data from backup file');
         return backupData;
       } catch (backupError) {
+        if (backupError instanceof UnsupportedDataVersionError || backupError instanceof EncryptionKeyUnavailableError) {
+          this.writeBlockedReason = backupError.message;
+          throw backupError;
+        }
         this.logger.error('Failed to load backup data', backupError as Error);
-        return this.createDefaultData();
+        if (isCorruptDataError(backupError)) {
+          await quarantineFile(this.backupPath, backupError as Error, this.logger);
+        }
+        return createDefaultTrackingData();
       }
     }
   }
 
+  isLoaded(): boolean {
+    return this.loadedFromDisk;
+  }
+
   /**
-   * Save tracking data to storage
+   * Save tracking data to storage.
+   * Holds the cross-window lock, merges changes other windows wrote since our
+   * last load/save into `data`, then replaces the file atomically.
    */
   async save(data: TrackingData): Promise<void> {
+    if (this.writeBlockedReason) {
+      this.logger.warn('Skipping save - data file cannot be read by this window', {
+        reason: this.writeBlockedReason
+      });
+      return;
+    }
+
     try {
       await this.ensureStorageDirectory();
       
-      // Create backup before saving
-      if (await this.exists()) {
-        await this.backup();
-      }
+      await this.lock.withLock(async () => {
+        if (await this.exists()) {
+          await this.mergeConcurrentChanges(data);
+          
+          // Create backup before saving
+          await this.backup();
+        }
 
-      // Update save timestamp
-      data.lastSaved = new Date();
-      
-      // Serialize data for JSON storage
-      const serializedData = this.serializeData(data);
-      const jsonData = JSON.stringify(serializedData, null, 2);
-      
-      await fs.writeFile(this.dataPath, jsonData, 'utf-8');
-      
-      this.logger.debug('Tracking data saved successfully', { 
-        projectCount: data.projects.size,
-        dataSize: jsonData.length 
+        // Update save timestamp and stamp the format we are writing
+        data.lastSaved = new Date();
+        data.version = this.DATA_VERSION;
+        
+        // Serialize data for JSON storage
+        const serializedData = serializeTrackingData(data);
+        const jsonData = JSON.stringify(serializedData, null, 2);
+        
+        await writeFileAtomic(this.dataPath, this.encryption.encode(jsonData));
+        this.rememberPersistedState(data);
+        
+        this.logger.debug('Tracking data saved successfully', { 
+          projectCount: data.projects.size,
+          dataSize: jsonData.length 
+        });
       });
     } catch (error) {
       this.logger.error('Failed to save tracking data', error as Error);
@@ -168,12 +227,7 @@ export class FileStorageManager implements Storage {
    * Check if data file exists
    */
   async exists(): Promise<boolean> {
-    try {
-      await fs.access(this.dataPath);
-      return true;
-    } catch {
-      return false;
-    }
+    return fileExists(this.dataPath);
   }
 
   /**
@@ -195,122 +249,59 @@ export class FileStorageManager implements Storage {
   }
 
   /**
-   * Ensure storage directory exists
+   * Merge sessions another window wrote to disk since this window last loaded or saved
    */
-  private async ensureStorageDirectory(): Promise<void> {
+  private async mergeConcurrentChanges(data: TrackingData): Promise<void> {
+    let diskData: TrackingData;
     try {
-      const storageDir = path.dirname(this.dataPath);
-      await fs.mkdir(storageDir, { recursive: true });
+      const rawData = parseStoredJson(this.encryption.decode(await fs.readFile(this.dataPath, 'utf-8')));
+      if (rawData.lastSaved === this.lastSeenSaved) {
+        return;
+      }
+      diskData = deserializeTrackingData(migrateTrackingData(rawData).data);
     } catch (error) {
-      this.logger.error('Failed to create storage directory', error as Error);
-      throw error;
+      if (error instanceof UnsupportedDataVersionError) {
+        this.writeBlockedReason = error.message;
+        throw error;
+      }
+      if (error instanceof EncryptionKeyUnavailableError) {
+        // Another window may have rotated the key - retry once SecretStorage catches up
+        throw error;
+      }
+      if (isCorruptDataError(error)) {
+        // Keep the corrupt file for inspection instead of silently replacing it
+        await quarantineFile(this.dataPath, error as Error, this.logger);
+        return;
+      }
+      // An unreadable file cannot contribute anything - it will be replaced
+      this.logger.warn('Could not read data file for merging, overwriting it', { error: (error as Error).message });
+      return;
     }
-  }
 
-  /**
-   * Create default empty tracking data
-   */
-  private createDefaultData(): TrackingData {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    const data: TrackingData = {
-      projects: new Map<string, ProjectStats>(),
-      lastActivity: new Date(),
-      totalTimeTracked: 0,
-      version: this.DATA_VERSION,
-      lastSaved: new Date()
-    };
-    
-    if (workspaceFolder) {
-      data.workspacePath = workspaceFolder.uri.fsPath;
-      data.workspaceName = workspaceFolder.name;
+    const result = mergeTrackingData(data, diskData, this.knownSessionIds);
+    if (result.added > 0 || result.updated > 0 || result.removed > 0) {
+      this.logger.info('Merged changes from another window', result);
     }
-    
-    return data;
   }
 
   /**
-   * Serialize tracking data for JSON storage
+   * Remember what was last read from or written to disk, as the base for the next merge
    */
-  private serializeData(data: TrackingData): any {
-    return {
-      projects: Array.from(data.projects.entries()).map(([key, value]) => ({
-        key,
-        value: {
-          ...value,
-          lastActivity: value.lastActivity.toISOString(),
-          firstSession: value.firstSession.toISOString(),
-          sessions: value.sessions.map(session => ({
-            ...session,
-            startTime: session.startTime.toISOString(),
-            endTime: session.endTime?.toISOString(),
-            lastActivity: session.lastActivity.toISOString(),
-            lastActiveTime: session.lastActiveTime.toISOString()
-          }))
-        }
-      })),
-      currentSession: data.currentSession ? {
-        ...data.currentSession,
-        startTime: data.currentSession.startTime.toISOString(),
-        endTime: data.currentSession.endTime?.toISOString(),
-        lastActivity: data.currentSession.lastActivity.toISOString(),
-        lastActiveTime: data.currentSession.lastActiveTime.toISOString()
-      } : undefined,
-      lastActivity: data.lastActivity.toISOString(),
-      totalTimeTracked: data.totalTimeTracked,
-      version: data.version,
-      lastSaved: data.lastSaved.toISOString(),
-      workspacePath: data.workspacePath,
-      workspaceName: data.workspaceName
-    };
+  private rememberPersistedState(data: TrackingData): void {
+    this.knownSessionIds = collectSessionIds(data);
+    this.lastSeenSaved = data.lastSaved.toISOString();
   }
 
   /**
-   * Deserialize tracking data from JSON storage
+   * Ensure storage directory exists
    */
-  private deserializeData(rawData: any): TrackingData {
-    const projects = new Map<string, ProjectStats>();
-    
-    if (rawData.projects && Array.isArray(rawData.projects)) {
-      rawData.projects.forEach((entry: any) => {
-        const projectStats: ProjectStats = {
-          ...entry.value,
-          lastActivity: new Date(entry.value.lastActivity),
-          firstSession: new Date(entry.value.firstSession),
-          sessions: entry.value.sessions?.map((session: any) => ({
-            ...session,
-            startTime: new Date(session.startTime),
-            endTime: session.endTime ? new Date(session.endTime) : undefined,
-            lastActivity: new Date(session.lastActivity),
-            lastActiveTime: new Date(session.lastActiveTime || session.lastActivity)
-          })) || []
-        };
-        projects.set(entry.key, projectStats);
-      });
-    }
-
-    const data: TrackingData = {
-      projects,
-      currentSession: rawData.currentSession ? {
-        ...rawData.currentSession,
-        startTime: new Date(rawData.currentSession.startTime),
-        endTime: rawData.currentSession.endTime ? new Date(rawData.currentSession.endTime) : undefined,
-        lastActivity: new Date(rawData.currentSession.lastActivity),
-        lastActiveTime: new Date(rawData.currentSession.lastActiveTime || rawData.currentSession.lastActivity)
-      } : undefined,
-      lastActivity: new Date(rawData.lastActivity || new Date()),
-      totalTimeTracked: rawData.totalTimeTracked || 0,
-      version: rawData.version || this.DATA_VERSION,
-      lastSaved: new Date(rawData.lastSaved || new Date())
-    };
-
-    // Add workspace properties if they exist
-    if (rawData.workspacePath) {
-      data.workspacePath = rawData.workspacePath;
-    }
-    if (rawData.workspaceName) {
-      data.workspaceName = rawData.workspaceName;
+  private async ensureStorageDirectory(): Promise<void> {
+    try {
+      const storageDir = path.dirname(this.dataPath);
+      await fs.mkdir(storageDir, { recursive: true });
+    } catch (error) {
+      this.logger.error('Failed to create storage directory', error as Error);
+      throw error;
     }
-
-    return data;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CURRENT_DATA_VERSION,
+  UnsupportedDataVersionError,
+  compareDataVersions,
+  migrateTrackingData,
+  migrateWithSnapshot,
+  needsMigration
+} from '../dataMigrations';
+import { Logger } from '../types';
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined
+};
+
+const legacySession = (id: string): any => ({
+  id,
+  projectName: 'demo',
+  projectPath: '/work/demo',
+  startTime: '2024-03-01T08:00:00.000Z',
+  endTime: '2024-03-01T09:00:00.000Z',
+  totalTime: 3600000,
+  isActive: false,
+  lastActivity: '2024-03-01T09:00:00.000Z'
+});
+
+const legacyData = (): any => ({
+  projects: [{ key: '/work/demo', value: { projectName: 'demo', projectPath: '/work/demo', sessions: [legacySession('s1')] } }],
+  currentSession: legacySession('s2'),
+  totalTimeTracked: 3600000
+});
+
+describe('dataMigrations', () => {
+  describe('compareDataVersions', () => {
+    it('compares versions part by part', () => {
+      assert.ok(compareDataVersions('1.2.0', '1.10.0') < 0);
+      assert.ok(compareDataVersions('2.0', '1.9.9') > 0);
+      assert.strictEqual(compareDataVersions('1.2', '1.2.0'), 0);
+    });
+  });
+
+  describe('needsMigration', () => {
+    it('treats data without a version as the initial format', () => {
+      assert.strictEqual(needsMigration({}), true);
+    });
+
+    it('accepts the current version as is', () => {
+      assert.strictEqual(needsMigration({ version: CURRENT_DATA_VERSION }), false);
+    });
+
+    it('refuses data written by a newer version', () => {
+      assert.throws(() => needsMigration({ version: '99.0.0' }), UnsupportedDataVersionError);
+    });
+  });
+
+  describe('migrateTrackingData', () => {
+    it('upgrades initial data through every step', () => {
+      const result = migrateTrackingData(legacyData());
+
+      assert.strictEqual(result.fromVersion, '1.0.0');
+      assert.strictEqual(result.data.version, CURRENT_DATA_VERSION);
+      assert.strictEqual(result.applied.length, 2);
+
+      const project = result.data.projects[0].value;
+      assert.deepStrictEqual(project.dailyRollups, []);
+      assert.strictEqual(project.sessions[0].lastActiveTime, '2024-03-01T09:00:00.000Z');
+      assert.strictEqual(project.sessions[0].textChanges, 0);
+      assert.strictEqual(project.sessions[0].cursorMovements, 0);
+      assert.strictEqual(result.data.currentSession.lastActiveTime, '2024-03-01T09:00:00.000Z');
+    });
+
+    it('keeps values that are already there', () => {
+      const data = legacyData();
+      data.projects[0].value.sessions[0].textChanges = 12;
+      data.projects[0].value.sessions[0].lastActiveTime = '2024-03-01T08:30:00.000Z';
+
+      const session = migrateTrackingData(data).data.projects[0].value.sessions[0];
+      assert.strictEqual(session.textChanges, 12);
+      assert.strictEqual(session.lastActiveTime, '2024-03-01T08:30:00.000Z');
+    });
+
+    it('only applies the steps after the data version', () => {
+      const data = { version: '1.1.0', projects: [{ key: '/work/demo', value: { sessions: [] } }] };
+
+      const result = migrateTrackingData(data);
+      assert.deepStrictEqual(result.applied, ['1.1.0 -> 1.2.0: Add empty daily rollups for archived sessions to projects']);
+      assert.deepStrictEqual(result.data.projects[0].value.dailyRollups, []);
+    });
+
+    it('gives an empty project list to data without one', () => {
+      assert.deepStrictEqual(migrateTrackingData({}).data.projects, []);
+    });
+
+    it('returns current data unchanged', () => {
+      const data = { version: CURRENT_DATA_VERSION, projects: [] };
+      const result = migrateTrackingData(data);
+      assert.strictEqual(result.data, data);
+      assert.deepStrictEqual(result.applied, []);
+    });
+  });
+
+  describe('migrateWithSnapshot', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'o3-migrations-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('writes the original content next to the file before migrating', async () => {
+      const filePath = path.join(dir, 'timeTrackingData.json');
+      const content = JSON.stringify(legacyData());
+
+      const migrated = await migrateWithSnapshot(JSON.parse(content), content, filePath, silentLogger);
+
+      assert.strictEqual(migrated.version, CURRENT_DATA_VERSION);
+      const snapshot = await fs.readFile(path.join(dir, 'timeTrackingData.pre-migration-1.0.0.json'), 'utf-8');
+      assert.strictEqual(snapshot, content);
+    });
+
+    it('keeps the oldest snapshot of a version', async () => {
+      const filePath = path.join(dir, 'timeTrackingData.json');
+      const snapshotPath = path.join(dir, 'timeTrackingData.pre-migration-1.0.0.json');
+      await fs.writeFile(snapshotPath, 'first', 'utf-8');
+
+      const content = JSON.stringify(legacyData());
+      await migrateWithSnapshot(JSON.parse(content), content, filePath, silentLogger);
+
+      assert.strictEqual(await fs.readFile(snapshotPath, 'utf-8'), 'first');
+    });
+
+    it('writes no snapshot for current data', async () => {
+      const filePath = path.join(dir, 'timeTrackingData.json');
+      const data = { version: CURRENT_DATA_VERSION, projects: [] };
+
+      await migrateWithSnapshot(data, JSON.stringify(data), filePath, silentLogger);
+
+      assert.deepStrictEqual(await fs.readdir(dir), []);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Builders for tracking data used by the unit tests
+ */
+
+import { TrackingData, TimeSession, ProjectStats } from '../types';
+import { recalculateProjectStats } from '../projectStats';
+import { CURRENT_DATA_VERSION } from '../dataMigrations';
+
+/**
+ * Local time on a day in March 2024
+ */
+export const at = (day: number, hour: number, minute = 0): Date => new Date(2024, 2, day, hour, minute);
+
+/**
+ * Completed session of `/work/demo`, active the whole time
+ */
+export const createSession = (id: string, start: Date, minutes: number, overrides: Partial<TimeSession> = {}): TimeSession => {
+  const end = new Date(start.getTime() + minutes * 60 * 1000);
+  return {
+    id,
+    projectName: 'demo',
+    projectPath: '/work/demo',
+    startTime: start,
+    endTime: end,
+    totalTime: minutes * 60 * 1000,
+    isActive: false,
+    lastActivity: end,
+    lastActiveTime: end,
+    textChanges: 0,
+    cursorMovements: 0,
+    ...overrides
+  };
+};
+
+export const createProject = (projectPath: string, sessions: TimeSession[]): ProjectStats => {
+  const project: ProjectStats = {
+    projectName: projectPath.split('/').pop() ?? projectPath,
+    projectPath,
+    totalTime: 0,
+    sessions,
+    lastActivity: sessions[0]?.lastActivity ?? at(1, 0),
+    firstSession: sessions[0]?.startTime ?? at(1, 0),
+    averageSessionDuration: 0,
+    activeDays: 0,
+    dailyRollups: []
+  };
+  recalculateProjectStats(project);
+  return project;
+};
+
+export const createData = (...projects: ProjectStats[]): TrackingData => ({
+  projects: new Map(projects.map(project => [project.projectPath, project])),
+  lastActivity: at(1, 0),
+  totalTimeTracked: 0,
+  version: CURRENT_DATA_VERSION,
+  lastSaved: at(1, 0)
+});
+
+/**
+ * Sessions of all projects, ordered by ID
+ */
+export const allSessions = (data: TrackingData): TimeSession[] => {
+  return Array.from(data.projects.values())
+    .flatMap(project => project.sessions)
+    .sort((a, b) => a.id.localeCompare(b.id));
+};
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { splitAroundIdleStretch, IdleStretch } from '../sessionEditing';
+import { TimeSession } from '../types';
+import { at, createSession } from './fixtures';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Session running since 9:00 with an absence from 9:30 to 10:00, worked in until 10:15
+ */
+const createRunningSession = (): TimeSession => {
+  const session = createSession('a', at(4, 9), 45, {
+    isActive: true,
+    lastActivity: at(4, 10, 15),
+    lastActiveTime: at(4, 10, 15),
+    textChanges: 40,
+    tags: ['review'],
+    activeSegments: [
+      { start: at(4, 9), end: at(4, 9, 30) },
+      { start: at(4, 10), end: at(4, 10, 15) }
+    ],
+    files: [{ path: 'src/index.ts', languageId: 'typescript', time: 45 * MINUTE }],
+    debugTime: 9 * MINUTE
+  });
+  delete session.endTime;
+  return session;
+};
+
+const stretch: IdleStretch = {
+  sessionId: 'a',
+  start: at(4, 9, 30),
+  end: at(4, 10),
+  sessionTimeAtReturn: 30 * MINUTE
+};
+
+describe('sessionEditing', () => {
+  describe('splitAroundIdleStretch', () => {
+    it('ends the session where the absence began', () => {
+      const session = createRunningSession();
+
+      splitAroundIdleStretch(session, stretch, 'b', at(4, 10, 15));
+
+      assert.deepStrictEqual(session.endTime, at(4, 9, 30));
+      assert.strictEqual(session.isActive, false);
+      assert.strictEqual(session.totalTime, 30 * MINUTE);
+      assert.deepStrictEqual(session.lastActivity, at(4, 9, 30));
+      assert.deepStrictEqual(session.activeSegments, [{ start: at(4, 9), end: at(4, 9, 30) }]);
+    });
+
+    it('continues from the return with the time worked since', () => {
+      const session = createRunningSession();
+
+      const continued = splitAroundIdleStretch(session, stretch, 'b', at(4, 10, 15))!;
+
+      assert.strictEqual(continued.id, 'b');
+      assert.strictEqual(continued.projectPath, session.projectPath);
+      assert.deepStrictEqual(continued.startTime, at(4, 10));
+      assert.strictEqual(continued.endTime, undefined);
+      assert.strictEqual(continued.isActive, true);
+      assert.strictEqual(continued.totalTime, 15 * MINUTE);
+      assert.deepStrictEqual(continued.lastActivity, at(4, 10, 15));
+      assert.deepStrictEqual(continued.activeSegments, [{ start: at(4, 10), end: at(4, 10, 15) }]);
+      assert.deepStrictEqual(continued.tags, ['review']);
+      assert.notStrictEqual(continued.tags, session.tags);
+    });
+
+    it('divides file and debug time by the active time of each part', () => {
+      const session = createRunningSession();
+
+      const continued = splitAroundIdleStretch(session, stretch, 'b', at(4, 10, 15))!;
+
+      assert.deepStrictEqual(session.files, [{ path: 'src/index.ts', languageId: 'typescript', time: 30 * MINUTE }]);
+      assert.deepStrictEqual(continued.files, [{ path: 'src/index.ts', languageId: 'typescript', time: 15 * MINUTE }]);
+      assert.strictEqual(session.debugTime, 6 * MINUTE);
+      assert.strictEqual(continued.debugTime, 3 * MINUTE);
+    });
+
+    it('leaves the activity counters with the first part', () => {
+      const session = createRunningSession();
+
+      const continued = splitAroundIdleStretch(session, stretch, 'b', at(4, 10, 15))!;
+
+      assert.strictEqual(session.textChanges, 40);
+      assert.strictEqual(continued.textChanges, 0);
+    });
+
+    it('only moves the start if nothing was worked before the absence', () => {
+      const session = createRunningSession();
+      session.startTime = at(4, 9, 30);
+
+      assert.strictEqual(splitAroundIdleStretch(session, stretch, 'b'), undefined);
+      assert.deepStrictEqual(session.startTime, at(4, 10));
+      assert.strictEqual(session.endTime, undefined);
+      assert.strictEqual(session.totalTime, 45 * MINUTE);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import { mergeTrackingData, collectSessionIds } from '../trackingDataMerge';
+import { at, createSession, createProject, createData, allSessions } from './fixtures';
+
+describe('trackingDataMerge', () => {
+  describe('mergeTrackingData', () => {
+    it('adds sessions only the other copy has', () => {
+      const local = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+      const other = createData(
+        createProject('/work/demo', [createSession('a', at(4, 9), 30), createSession('b', at(4, 10), 15)]),
+        createProject('/work/other', [createSession('c', at(4, 11), 45, { projectName: 'other', projectPath: '/work/other' })])
+      );
+
+      const result = mergeTrackingData(local, other, new Set(['a']));
+
+      assert.deepStrictEqual(result, { added: 2, updated: 0, removed: 0 });
+      assert.deepStrictEqual(allSessions(local).map(session => session.id), ['a', 'b', 'c']);
+      assert.strictEqual(local.projects.get('/work/demo')!.totalTime, 45 * 60 * 1000);
+      assert.strictEqual(local.projects.get('/work/other')!.totalTime, 45 * 60 * 1000);
+    });
+
+    it('takes over the copy with the later activity', () => {
+      const local = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+      const other = createData(createProject('/work/demo', [createSession('a', at(4, 9), 50)]));
+
+      const result = mergeTrackingData(local, other, new Set(['a']));
+
+      assert.strictEqual(result.updated, 1);
+      assert.strictEqual(allSessions(local)[0]!.totalTime, 50 * 60 * 1000);
+    });
+
+    it('keeps the local copy when it is newer', () => {
+      const local = createData(createProject('/work/demo', [createSession('a', at(4, 9), 50)]));
+      const other = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+
+      assert.strictEqual(mergeTrackingData(local, other, new Set(['a'])).updated, 0);
+      assert.strictEqual(allSessions(local)[0]!.totalTime, 50 * 60 * 1000);
+    });
+
+    it('lets a correction made by hand win over later activity', () => {
+      const local = createData(createProject('/work/demo', [createSession('a', at(4, 9), 20, { editedAt: at(4, 12) })]));
+      const other = createData(createProject('/work/demo', [createSession('a', at(4, 9), 50)]));
+
+      assert.strictEqual(mergeTrackingData(local, other, new Set(['a'])).updated, 0);
+      assert.strictEqual(allSessions(local)[0]!.totalTime, 20 * 60 * 1000);
+    });
+
+    it('does not bring back sessions deleted locally', () => {
+      const local = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+      const other = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30), createSession('b', at(4, 10), 15)]));
+
+      const result = mergeTrackingData(local, other, new Set(['a', 'b']));
+
+      assert.strictEqual(result.added, 0);
+      assert.deepStrictEqual(allSessions(local).map(session => session.id), ['a']);
+    });
+
+    it('removes known sessions the other copy deleted', () => {
+      const local = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30), createSession('b', at(4, 10), 15)]));
+      const other = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+
+      const result = mergeTrackingData(local, other, new Set(['a', 'b']));
+
+      assert.strictEqual(result.removed, 1);
+      assert.deepStrictEqual(allSessions(local).map(session => session.id), ['a']);
+      assert.strictEqual(local.projects.get('/work/demo')!.totalTime, 30 * 60 * 1000);
+    });
+
+    it('keeps new local sessions the other copy has not seen yet', () => {
+      const local = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30), createSession('b', at(4, 10), 15)]));
+      const other = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+
+      assert.strictEqual(mergeTrackingData(local, other, new Set(['a'])).removed, 0);
+      assert.strictEqual(allSessions(local).length, 2);
+    });
+
+    it('drops a project whose last session the other copy deleted', () => {
+      const local = createData(
+        createProject('/work/demo', [createSession('a', at(4, 9), 30)]),
+        createProject('/work/other', [createSession('b', at(4, 10), 15, { projectName: 'other', projectPath: '/work/other' })])
+      );
+      const other = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+
+      mergeTrackingData(local, other, new Set(['a', 'b']));
+
+      assert.deepStrictEqual(Array.from(local.projects.keys()), ['/work/demo']);
+    });
+
+    it('never replaces or removes the local current session', () => {
+      const running = createSession('a', at(4, 9), 10, { isActive: true });
+      delete running.endTime;
+      const local = createData(createProject('/work/demo', [running]));
+      local.currentSession = running;
+      const other = createData(createProject('/work/demo', [createSession('a', at(4, 9), 60)]));
+
+      const result = mergeTrackingData(local, other, new Set(['a']));
+
+      assert.deepStrictEqual(result, { added: 0, updated: 0, removed: 0 });
+      assert.strictEqual(allSessions(local)[0], running);
+      assert.strictEqual(mergeTrackingData(local, createData(), new Set(['a'])).removed, 0);
+    });
+
+    it('takes over months the other copy archived', () => {
+      const february = createSession('feb', new Date(2024, 1, 12, 9), 30);
+      const unseen = createSession('feb-new', new Date(2024, 1, 13, 9), 20);
+      const local = createData(createProject('/work/demo', [february, unseen, createSession('a', at(4, 9), 30)]));
+      const otherProject = createProject('/work/demo', [createSession('a', at(4, 9), 30)]);
+      otherProject.dailyRollups = [{ date: '2024-02-12', totalTime: 30 * 60 * 1000, sessionCount: 1 }];
+      const other = createData(otherProject);
+
+      mergeTrackingData(local, other, new Set(['feb', 'a']));
+
+      const project = local.projects.get('/work/demo')!;
+      assert.deepStrictEqual(project.sessions.map(session => session.id), ['feb-new', 'a']);
+      assert.deepStrictEqual(project.dailyRollups, otherProject.dailyRollups);
+      assert.strictEqual(project.totalTime, 80 * 60 * 1000);
+    });
+
+    it('keeps the later last activity', () => {
+      const local = createData();
+      const other = createData();
+      other.lastActivity = at(5, 8);
+
+      mergeTrackingData(local, other, new Set());
+
+      assert.deepStrictEqual(local.lastActivity, at(5, 8));
+    });
+  });
+
+  describe('collectSessionIds', () => {
+    it('includes the current session', () => {
+      const data = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+      data.currentSession = createSession('b', at(4, 10), 5);
+
+      assert.deepStrictEqual(Array.from(collectSessionIds(data)).sort(), ['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import { captureUndoState, recordChanges, isEmptyChange, revertChanges } from '../undoChanges';
+import { findSession } from '../sessionEditing';
+import { at, createSession, createProject, createData, allSessions } from './fixtures';
+
+const MINUTE = 60 * 1000;
+
+describe('undoChanges', () => {
+  it('records nothing for an operation that changed nothing', () => {
+    const data = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+
+    assert.strictEqual(isEmptyChange(recordChanges(captureUndoState(data), data)), true);
+  });
+
+  it('brings back a deleted session', () => {
+    const data = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30), createSession('b', at(4, 10), 15)]));
+    const before = captureUndoState(data);
+    data.projects.get('/work/demo')!.sessions.splice(1, 1);
+    const changes = recordChanges(before, data);
+
+    const result = revertChanges(data, changes);
+
+    assert.deepStrictEqual(result, { reverted: 1, kept: 0 });
+    assert.deepStrictEqual(allSessions(data).map(session => session.id), ['a', 'b']);
+    assert.strictEqual(data.projects.get('/work/demo')!.totalTime, 45 * MINUTE);
+  });
+
+  it('brings back a deleted project with its session', () => {
+    const data = createData(
+      createProject('/work/demo', [createSession('a', at(4, 9), 30)]),
+      createProject('/work/other', [createSession('b', at(4, 10), 15, { projectName: 'other', projectPath: '/work/other' })])
+    );
+    const before = captureUndoState(data);
+    data.projects.delete('/work/other');
+
+    revertChanges(data, recordChanges(before, data));
+
+    assert.deepStrictEqual(findSession(data, 'b')?.project.projectPath, '/work/other');
+  });
+
+  it('only reverts the sessions the operation changed', () => {
+    const data = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+    const before = captureUndoState(data);
+    findSession(data, 'a')!.session.note = 'Review';
+    const changes = recordChanges(before, data);
+
+    // Work recorded after the operation, e.g. in another window
+    data.projects.get('/work/demo')!.sessions.push(createSession('b', at(4, 11), 20));
+
+    revertChanges(data, changes);
+
+    assert.strictEqual(findSession(data, 'a')!.session.note, undefined);
+    assert.ok(findSession(data, 'a')!.session.editedAt, 'reverted session must win the next merge');
+    assert.deepStrictEqual(allSessions(data).map(session => session.id), ['a', 'b']);
+  });
+
+  it('keeps later edits of the fields it reverts', () => {
+    const data = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+    const before = captureUndoState(data);
+    findSession(data, 'a')!.session.note = 'Review';
+    const changes = recordChanges(before, data);
+    findSession(data, 'a')!.session.note = 'Code review';
+
+    revertChanges(data, changes);
+
+    assert.strictEqual(findSession(data, 'a')!.session.note, 'Code review');
+  });
+
+  it('keeps time tracked in a session after the operation', () => {
+    const running = createSession('a', at(4, 9), 30, { isActive: true });
+    delete running.endTime;
+    const data = createData(createProject('/work/demo', [running]));
+    data.currentSession = running;
+    const before = captureUndoState(data);
+    running.totalTime = 0; // Reset of the current session
+    const changes = recordChanges(before, data);
+    running.totalTime += 5 * MINUTE;
+
+    revertChanges(data, changes);
+
+    assert.strictEqual(findSession(data, 'a')!.session.totalTime, 35 * MINUTE);
+  });
+
+  it('removes a session the operation added, and the project it created', () => {
+    const data = createData(createProject('/work/demo', [createSession('a', at(4, 9), 30)]));
+    const before = captureUndoState(data);
+    data.projects.set('/work/other', createProject('/work/other', [
+      createSession('manual', at(4, 14), 60, { projectName: 'other', projectPath: '/work/other', manual: true })
+    ]));
+
+    const result = revertChanges(data, recordChanges(before, data));
+
+    assert.deepStrictEqual(result, { reverted: 1, kept: 0 });
+    assert.deepStrictEqual(Array.from(data.projects.keys()), ['/work/demo']);
+  });
+
+  it('resumes a stopped session if nothing was started since', () => {
+    const running = createSession('a', at(4, 9), 30, { isActive: true });
+    delete running.endTime;
+    const data = createData(createProject('/work/demo', [running]));
+    data.currentSession = running;
+    const before = captureUndoState(data);
+    running.endTime = at(4, 9, 30);
+    running.isActive = false;
+    delete data.currentSession;
+
+    revertChanges(data, recordChanges(before, data));
+
+    const session = findSession(data, 'a')!.session;
+    assert.strictEqual(data.currentSession, session);
+    assert.strictEqual(session.endTime, undefined);
+    assert.strictEqual(session.isActive, true);
+  });
+
+  it('ends a stopped session where a session started since began', () => {
+    const running = createSession('a', at(4, 9), 30, { isActive: true });
+    delete running.endTime;
+    const data = createData(createProject('/work/demo', [running]));
+    data.currentSession = running;
+    const before = captureUndoState(data);
+    running.endTime = at(4, 9, 30);
+    running.isActive = false;
+    delete data.currentSession;
+    const changes = recordChanges(before, data);
+
+    const next = createSession('b', at(4, 10), 5, { isActive: true });
+    delete next.endTime;
+    data.projects.get('/work/demo')!.sessions.push(next);
+    data.currentSession = next;
+
+    revertChanges(data, changes);
+
+    assert.strictEqual(data.currentSession, next);
+    assert.deepStrictEqual(findSession(data, 'a')!.session.endTime, at(4, 10));
+    assert.strictEqual(findSession(data, 'a')!.session.isActive, false);
+  });
+
+  it('gives time tracked in a session the operation started to the session it continued', () => {
+    const running = createSession('a', at(4, 9), 30, { isActive: true });
+    delete running.endTime;
+    const data = createData(createProject('/work/demo', [running]));
+    data.currentSession = running;
+    const before = captureUndoState(data);
+
+    // Split at the return from an absence: the old session ends, a new one runs on
+    running.endTime = at(4, 9, 20);
+    running.totalTime = 20 * MINUTE;
+    running.isActive = false;
+    const continued = createSession('b', at(4, 9, 25), 10, { isActive: true });
+    delete continued.endTime;
+    data.projects.get('/work/demo')!.sessions.push(continued);
+    data.currentSession = continued;
+    const changes = recordChanges(before, data);
+    continued.totalTime += 5 * MINUTE;
+
+    const result = revertChanges(data, changes);
+
+    assert.deepStrictEqual(result, { reverted: 2, kept: 0 });
+    assert.deepStrictEqual(allSessions(data).map(session => session.id), ['a']);
+    assert.strictEqual(data.currentSession?.id, 'a');
+    assert.strictEqual(data.currentSession.totalTime, 35 * MINUTE);
+  });
+});
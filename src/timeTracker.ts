@@ -3,26 +3,105 @@
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ActivityMonitor } from './activityMonitor';
-import { FileStorageManager } from './storageManager';
+import { createStorage, convertFromOtherBackend } from './storageFactory';
 import { 
   TrackingData, 
   TimeSession, 
   ProjectStats, 
   ExtensionConfig, 
   ActivityEvent, 
-  Logger
+  Logger,
+  Storage
 } from './types';
-import { formatStatusBarTime, formatDate, formatDetailedTime, safeTimeDifference } from './timeUtils';
+import { 
+  formatTime,
+  formatStatusBarTime, 
+  formatDate, 
+  formatDetailedTime, 
+  safeTimeDifference, 
+  getDayKey,
+  getTodayStart,
+  getCurrentWeekStart,
+  parseDateInput,
+  parseTimeOfDayInput,
+  parseDurationInput,
+  formatDayLabel,
+  getTrackingDay,
+  getDayBoundary,
+  getTimeOnTrackingDay,
+  setDayStart,
+  setReportTimeZone,
+  getCurrentTimeZone,
+  getRecordedZone,
+  formatClockTime,
+  formatRecordedZone
+} from './timeUtils';
+import { addActiveTime, clipSegments, normalizeSegments, getActiveSegments, getIdleGaps } from './activeSegments';
+import { addFileTime, getProjectFilePath, groupSessionsByLanguage, formatLanguageName } from './fileTimes';
 import { TimeViewProvider, ProjectsViewProvider } from './timeViewProvider';
+import { CURRENT_DATA_VERSION, UnsupportedDataVersionError } from './dataMigrations';
+import { recalculateProjectStats, countProjectSessions } from './projectStats';
+import { BackupManager } from './backupManager';
+import { checkDataIntegrity, repairIntegrityIssues, IntegrityIssueKind } from './dataIntegrity';
+import { DataEncryption, EncryptionKeyUnavailableError, reencodeStoredFiles } from './dataEncryption';
+import { SessionArchive } from './sessionArchive';
+import { getWorkspaceStorageDir, stampWorkspace } from './workspaceStorage';
+import { findOrphanedWorkspaces, mergeOrphanedWorkspace, retireOrphanedWorkspace } from './workspaceRelocation';
+import { DeviceSync } from './deviceSync';
+import { UNTAGGED, parseTagsInput, formatTags, groupSessionsByTag } from './sessionTags';
+import { GitBranchMonitor, extractTicketKey, isValidTicketPattern, groupSessionsByTicket } from './gitBranches';
+import { PomodoroTimer, PomodoroDurations, formatCountdown, countPomodoros } from './pomodoro';
+import { checkWorkingTimeRules } from './workingTimeRules';
+import { WorkGoal, formatGoalProgress, formatGoalPercent, isGoalReached } from './workGoals';
+import { UndoHistory } from './undoHistory';
+import { CrossWorkspaceManager } from './crossWorkspaceManager';
+import { captureUndoState, revertChanges, RevertResult } from './undoChanges';
+import {
+  SessionEditError,
+  findSession,
+  findConflictingSessions,
+  getMergeCandidates,
+  updateSessionTimes,
+  splitSession,
+  mergeSessions,
+  moveSession,
+  deleteSession,
+  splitAroundIdleStretch,
+  IdleStretch
+} from './sessionEditing';
+
+/** globalState key of goal notifications already shown, shared by all windows */
+const GOAL_NOTIFICATIONS_KEY = 'o3-time-tracker.goalNotifications';
+
+/** workspaceState key of the last day this workspace's goals were checked */
+const LAST_GOAL_DAY_KEY = 'o3-time-tracker.lastGoalDay';
+
+/** globalState key of working time warnings already shown, shared by all windows */
+const WORKING_TIME_WARNINGS_KEY = 'o3-time-tracker.workingTimeWarnings';
+
+/** Work in other workspaces counts towards limits and goals with at most this delay */
+const OTHER_WORKSPACES_MAX_AGE = 5 * 60 * 1000;
+
+/** Shorter gaps in the active time are timer jitter, not an absence */
+const MIN_IDLE_STRETCH = 60 * 1000;
 
 /**
  * Main TimeTracker class - coordinates activity monitoring, data storage, and UI
  */
 export class TimeTracker {
 
+  private readonly context: vscode.ExtensionContext;
   private readonly logger: Logger;
-  private readonly storage: FileStorageManager;
+  private readonly storage: Storage;
+  private readonly backupManager: BackupManager;
+  private readonly encryption: DataEncryption;
+  private readonly sessionArchive: SessionArchive;
+  private readonly deviceSync: DeviceSync;
+  private readonly gitBranches: GitBranchMonitor;
+  private readonly undoHistory: UndoHistory;
+  private readonly crossWorkspace: CrossWorkspaceManager;
   private readonly activityMonitor: ActivityMonitor;
   
   private trackingData: TrackingData;
@@ -35,18 +114,37 @@ export class TimeTracker {
   private isPaused = false;
   private saveCounter = 0;
   private lastSessionDay: string | undefined; // Track the day of the current session for midnight detection
+  private lastArchiveDay: string | undefined; // Old sessions are archived at most once per day
+  private lastEditedDocument: vscode.Uri | undefined; // Decides the project in multi-root workspaces without an active editor
+  private pomodoro: PomodoroTimer | undefined; // Set while Pomodoro mode is on
+  private pausedForBreak = false; // Tracking was paused by a Pomodoro break, not by the user
+  private lastMinuteCheck = 0; // Working time rules and goals are checked once a minute
+  private idlePromptOpen = false; // At most one idle-return prompt is shown at a time
+  private endedIdleStretch: { sessionId: string; start: Date } | undefined; // Absence that ended the session, offered on return
+  private focusedFile: { uri: vscode.Uri; languageId: string } | undefined; // Active time is counted for this file
+  private otherWorkspaceSessions: TimeSession[] = []; // Recent sessions of other workspaces and devices, refreshed once a minute
   
   private timeViewProvider?: TimeViewProvider;
   private projectsViewProvider?: ProjectsViewProvider;
 
-  constructor(context: vscode.ExtensionContext, logger: Logger) {
+  constructor(context: vscode.ExtensionContext, logger: Logger, encryption: DataEncryption) {
+    this.context = context;
     this.logger = logger;
+    this.encryption = encryption;
     
     // Initialize configuration
     this.config = this.loadConfiguration();
+    this.applyDayStart();
+    setReportTimeZone(this.config.reportTimeZone);
     
-    // Initialize storage
-    this.storage = new FileStorageManager(context, logger);
+    // Initialize storage (backend is fixed for the lifetime of the window)
+    this.storage = createStorage(this.config.storageBackend, context, logger, encryption);
+    this.backupManager = new BackupManager(context, logger, encryption);
+    this.sessionArchive = new SessionArchive(getWorkspaceStorageDir(context), encryption, logger);
+    this.deviceSync = new DeviceSync(context, logger, encryption);
+    this.gitBranches = new GitBranchMonitor(logger);
+    this.undoHistory = new UndoHistory(context, logger, encryption);
+    this.crossWorkspace = new CrossWorkspaceManager(context, logger, encryption);
     
     // Initialize activity monitor
     this.activityMonitor = new ActivityMonitor(logger, this.config);
@@ -63,7 +161,7 @@ export class TimeTracker {
       projects: new Map(),
       lastActivity: new Date(),
       totalTimeTracked: 0,
-      version: '1.0.0',
+      version: CURRENT_DATA_VERSION,
       lastSaved: new Date()
     };
 
@@ -109,6 +207,13 @@ export class TimeTracker {
     }
 
     try {
+      // Keys must be loaded before any encrypted file can be read
+      await this.encryption.initialize();
+      await this.undoHistory.load();
+
+      // Pick up data written while the other storage backend was selected
+      await convertFromOtherBackend(this.config.storageBackend, this.storage, this.context, this.logger, this.encryption);
+
       // Load existing data
       const loadedData = await this.storage.load();
       if (loadedData) {
@@ -118,6 +223,11 @@ export class TimeTracker {
         });
       }
 
+      await this.archiveOldSessions();
+
+      // Branches are read from the git extension; tracking works without it
+      await this.gitBranches.initialize();
+
       // Start or resume session if auto-start is enabled
       if (this.config.autoStart) {
         await this.startOrResumeSession();
@@ -139,6 +249,17 @@ export class TimeTracker {
       this.logger.info('TimeTracker started successfully');
     } catch (error) {
       this.logger.error('Failed to start TimeTracker', error as Error);
+      if (error instanceof UnsupportedDataVersionError) {
+        vscode.window.showErrorMessage(
+          `Time tracking data was written by a newer version of O3 Time Tracker (${error.fileVersion}). ` +
+          'Please update the extension - tracking is disabled to avoid overwriting your data.'
+        );
+      } else if (error instanceof EncryptionKeyUnavailableError) {
+        vscode.window.showErrorMessage(
+          'Time tracking data is encrypted with a key that is not available in this VS Code installation. ' +
+          'Tracking is disabled to avoid overwriting your data.'
+        );
+      }
       throw error;
     }
   }
@@ -178,6 +299,10 @@ export class TimeTracker {
       this.trackingData.currentSession.lastActivity = new Date();
     }
 
+    // Resuming during a Pomodoro break ends the break
+    this.pomodoro?.skipBreak();
+    this.pausedForBreak = false;
+
     this.updateStatusBar();
     this.logger.info('TimeTracker resumed');
   }
@@ -193,7 +318,9 @@ export class TimeTracker {
 
     try {
       // End current session
+      const before = captureUndoState(this.trackingData);
       await this.endCurrentSession();
+      await this.undoHistory.push('Tracking gestoppt', before, this.trackingData);
       
       // Stop timers
       if (this.timer) {
@@ -208,9 +335,12 @@ export class TimeTracker {
 
       // Save final data
       await this.storage.save(this.trackingData);
+      await this.publishToSyncFolder(true);
 
       this.isRunning = false;
       this.isPaused = false;
+      this.pomodoro = undefined;
+      this.pausedForBreak = false;
       this.updateStatusBar();
 
       this.logger.info('TimeTracker stopped successfully');
@@ -225,6 +355,7 @@ export class TimeTracker {
    */
   async reset(): Promise<void> {
     if (this.trackingData.currentSession) {
+      const before = captureUndoState(this.trackingData);
       const projectPath = this.trackingData.currentSession.projectPath;
       
       // Remove from project stats
@@ -245,6 +376,7 @@ export class TimeTracker {
       // Reset the session day tracking
       this.lastSessionDay = undefined;
       
+      await this.undoHistory.push('Session zurückgesetzt', before, this.trackingData);
       await this.storage.save(this.trackingData);
       this.updateStatusBar();
       
@@ -257,7 +389,7 @@ export class TimeTracker {
    */
   private getTodayProjectTime(projectPath: string): number {
     const today = new Date();
-    const todayDateString = today.toLocaleDateString('de-DE');
+    const todayDateString = formatDayLabel(today);
     
     let totalTodayTime = 0;
     this.logger.debug('getTodayProjectTime called', { projectPath, todayDateString });
@@ -271,7 +403,7 @@ export class TimeTracker {
       });
       
       projectStats.sessions.forEach(session => {
-        const sessionDate = session.startTime.toLocaleDateString('de-DE');
+        const sessionDate = formatDayLabel(session.startTime, session);
         this.logger.debug('Checking session', { 
           sessionDate, 
           todayDateString, 
@@ -296,7 +428,7 @@ export class TimeTracker {
     // Add current session time if it's from today and belongs to this project
     if (this.trackingData.currentSession && 
         this.trackingData.currentSession.projectPath === projectPath) {
-      const sessionDate = this.trackingData.currentSession.startTime.toLocaleDateString('de-DE');
+      const sessionDate = formatDayLabel(this.trackingData.currentSession.startTime);
       this.logger.debug('Checking current session', { 
         currentSessionPath: this.trackingData.currentSession.projectPath,
         sessionDate, 
@@ -328,11 +460,41 @@ export class TimeTracker {
   /**
    * Show today's project statistics
    */
-  async showStatistics(): Promise<void> {
+  async showStatistics(groupBy: 'project' | 'tag' = 'project'): Promise<void> {
     const today = new Date();
-    const todayDateString = today.toLocaleDateString('de-DE');
+    const todayDateString = formatDayLabel(today);
     
-    const items: vscode.QuickPickItem[] = [];
+    const switchItem: vscode.QuickPickItem = groupBy === 'project'
+      ? { label: '$(tag) Nach Tags gruppieren', alwaysShow: true }
+      : { label: '$(folder) Nach Projekten gruppieren', alwaysShow: true };
+    const items: vscode.QuickPickItem[] = [switchItem, { label: '', kind: vscode.QuickPickItemKind.Separator }];
+
+    if (groupBy === 'tag') {
+      const sessions = this.getTodaySessions();
+      const groups = groupSessionsByTag(sessions);
+      const totalTime = sessions.reduce((total, session) => total + session.totalTime, 0);
+      groups.forEach(group => {
+        items.push({
+          label: `${group.tag === UNTAGGED ? group.tag : `#${group.tag}`}: ${formatDetailedTime(group.totalTime)}`,
+          description: `${group.sessionCount} Sessions`,
+          detail: Array.from(group.projects.entries())
+            .map(([projectName, time]) => `${projectName}: ${formatDetailedTime(time)}`)
+            .join(', ')
+        });
+      });
+      if (groups.length === 0) {
+        items.push({ label: 'Heute noch keine Arbeitszeit getrackt' });
+      }
+
+      const picked = await vscode.window.showQuickPick(items, {
+        title: `Heutige Arbeitszeiten nach Tags (${todayDateString}) - Gesamt: ${formatDetailedTime(totalTime)}`,
+        canPickMany: false
+      });
+      if (picked === switchItem) {
+        await this.showStatistics('project');
+      }
+      return;
+    }
     
     // Collect all projects that have time today
     const projectsWithTodayTime: Array<{ project: any; todayTime: number }> = [];
@@ -348,7 +510,7 @@ export class TimeTracker {
 
     // Add current session project if it's not already included
     if (this.trackingData.currentSession) {
-      const currentSessionDate = this.trackingData.currentSession.startTime.toLocaleDateString('de-DE');
+      const currentSessionDate = formatDayLabel(this.trackingData.currentSession.startTime);
       if (currentSessionDate === todayDateString) {
         const currentProjectPath = this.trackingData.currentSession.projectPath;
         const existingProject = projectsWithTodayTime.find(p => p.project.projectPath === currentProjectPath);
@@ -388,16 +550,304 @@ export class TimeTracker {
       });
     }
 
-    await vscode.window.showQuickPick(items, {
+    const picked = await vscode.window.showQuickPick(items, {
       title: `Heutige Arbeitszeiten (${todayDateString}) - Gesamt: ${formatDetailedTime(totalTodayTime)}`,
       canPickMany: false
     });
+    if (picked === switchItem) {
+      await this.showStatistics('tag');
+    }
+  }
+
+  /**
+   * Today's completed sessions and the running session, if it started today
+   */
+  private getTodaySessions(): TimeSession[] {
+    const todayDateString = formatDayLabel(new Date());
+    const sessions: TimeSession[] = [];
+    this.trackingData.projects.forEach(project => {
+      sessions.push(...project.sessions.filter(session => session.endTime && formatDayLabel(session.startTime, session) === todayDateString));
+    });
+    const current = this.trackingData.currentSession;
+    if (current && formatDayLabel(current.startTime) === todayDateString) {
+      sessions.push(current);
+    }
+    return sessions;
+  }
+
+  /**
+   * Today's sessions in this window and in all other workspaces and devices
+   */
+  private getTodaySessionsOfAllWorkspaces(): TimeSession[] {
+    const todayDateString = formatDayLabel(new Date());
+    return [
+      ...this.getTodaySessions(),
+      ...this.otherWorkspaceSessions.filter(session => formatDayLabel(session.startTime, session) === todayDateString)
+    ];
+  }
+
+  /**
+   * Keep the recent sessions of all other workspaces and devices, so working time rules and
+   * goals count work done outside this window
+   */
+  private async refreshOtherWorkspaceSessions(): Promise<void> {
+    const since = new Date();
+    since.setDate(since.getDate() - 14);
+    this.otherWorkspaceSessions = await this.crossWorkspace.getOtherWorkspaceSessions(since, OTHER_WORKSPACES_MAX_AGE);
+  }
+
+  /**
+   * Pomodoros finished today
+   */
+  private getTodayPomodoroCount(): number {
+    return countPomodoros(this.getTodaySessions());
+  }
+
+  /**
+   * Switch Pomodoro mode on. Work intervals count down only while the user is active;
+   * breaks pause tracking until they are over.
+   */
+  startPomodoro(): void {
+    if (!this.isRunning) {
+      vscode.window.showInformationMessage('Time Tracker läuft nicht - bitte zuerst das Tracking starten');
+      return;
+    }
+    if (this.pomodoro) {
+      vscode.window.showInformationMessage('Pomodoro-Modus ist bereits aktiv');
+      return;
+    }
+
+    this.pomodoro = new PomodoroTimer(this.getPomodoroDurations());
+    if (this.isPaused) {
+      this.resume();
+    }
+    this.updateStatusBar();
+    vscode.window.showInformationMessage(`🍅 Pomodoro gestartet (${this.config.pomodoroWork} min aktive Arbeit)`);
+    this.logger.info('Pomodoro mode started', { ...this.getPomodoroDurations() });
+  }
+
+  /**
+   * Switch Pomodoro mode off, ending a running break
+   */
+  stopPomodoro(): void {
+    if (!this.pomodoro) {
+      vscode.window.showInformationMessage('Pomodoro-Modus ist nicht aktiv');
+      return;
+    }
+
+    const endsBreak = this.pausedForBreak && this.isPaused;
+    this.pomodoro = undefined;
+    this.pausedForBreak = false;
+    if (endsBreak) {
+      this.resume();
+    }
+    this.updateStatusBar();
+    vscode.window.showInformationMessage(`Pomodoro-Modus beendet - ${this.getTodayPomodoroCount()} 🍅 heute`);
+    this.logger.info('Pomodoro mode stopped');
+  }
+
+  /**
+   * Count down the Pomodoro timer and switch between work and breaks
+   */
+  private advancePomodoro(): void {
+    if (!this.pomodoro) {
+      return;
+    }
+
+    const isWorking = !!this.trackingData.currentSession && !this.isPaused && this.activityMonitor.isActive();
+    const finished = this.pomodoro.advance(new Date(), isWorking);
+    if (!finished) {
+      return;
+    }
+
+    if (finished === 'work') {
+      const session = this.trackingData.currentSession;
+      if (session) {
+        session.pomodoros = (session.pomodoros ?? 0) + 1;
+      }
+
+      // The break pauses tracking; resuming by hand skips the rest of it
+      this.pause();
+      this.pausedForBreak = true;
+      const breakMinutes = Math.round(this.pomodoro.getPhaseLength(this.pomodoro.currentPhase) / 60000);
+      const kind = this.pomodoro.currentPhase === 'longBreak' ? 'lange Pause' : 'Pause';
+      this.logger.info('Pomodoro finished', { pomodorosToday: this.getTodayPomodoroCount(), breakMinutes });
+      vscode.window.showInformationMessage(
+        `🍅 Pomodoro geschafft (${this.getTodayPomodoroCount()} heute) - ${breakMinutes} Minuten ${kind}`,
+        'Pause überspringen'
+      ).then(choice => {
+        if (choice === 'Pause überspringen' && this.pausedForBreak && this.isPaused) {
+          this.resume();
+        }
+      });
+    } else {
+      this.logger.info('Pomodoro break finished');
+      if (this.pausedForBreak && this.isPaused) {
+        this.resume();
+      }
+      vscode.window.showInformationMessage(`☕ Pause vorbei - nächster Pomodoro: ${this.config.pomodoroWork} min`);
+    }
+  }
+
+  /**
+   * Warn once per day and rule when today's work across all projects breaks a working time rule.
+   * Shown warnings are kept in globalState, so reloading or opening more windows does not repeat them.
+   */
+  private async checkWorkingTime(): Promise<void> {
+    const now = new Date();
+    const today = getDayKey(now);
+    const violations = checkWorkingTimeRules(this.getTodaySessionsOfAllWorkspaces(), {
+      breakAfterHours: this.config.breakRuleHours,
+      breakMinutes: this.config.breakRuleMinutes,
+      extendedBreakAfterHours: this.config.extendedBreakRuleHours,
+      extendedBreakMinutes: this.config.extendedBreakRuleMinutes,
+      maxDailyHours: this.config.maxDailyWorkHours
+    });
+
+    if (violations.length === 0) {
+      return;
+    }
+
+    const shown = new Set(this.context.globalState.get<string[]>(WORKING_TIME_WARNINGS_KEY, []));
+    const newViolations = violations.filter(violation => !shown.has(`${today}:${violation.rule}`));
+    if (newViolations.length === 0) {
+      return;
+    }
+    newViolations.forEach(violation => shown.add(`${today}:${violation.rule}`));
+
+    // Keys start with their day, so old ones can be dropped by comparing strings
+    const oldest = new Date(now);
+    oldest.setDate(oldest.getDate() - 14);
+    await this.context.globalState.update(
+      WORKING_TIME_WARNINGS_KEY,
+      Array.from(shown).filter(key => key >= getDayKey(oldest))
+    );
+
+    newViolations.forEach(violation => {
+      this.logger.info('Working time rule broken', { rule: violation.rule });
+      vscode.window.showWarningMessage(`⚠️ ${violation.message}`);
+    });
+  }
+
+  /**
+   * Notify once when a daily or weekly goal is reached, and once when the previous working day
+   * ended below its daily goal. The global goals count the work of all workspaces; projects with
+   * goals of their own are checked separately. Shown notifications are kept in globalState, so
+   * other windows do not repeat them.
+   */
+  private async checkGoals(): Promise<void> {
+    const scopes: Array<{ label: string; projectPath?: string; goal: WorkGoal }> = [
+      { label: '', goal: { daily: this.config.dailyGoalHours, weekly: this.config.weeklyGoalHours } }
+    ];
+    this.trackingData.projects.forEach(project => {
+      const own = this.config.projectGoals[project.projectName];
+      if (own) {
+        scopes.push({
+          label: ` (${project.projectName})`,
+          projectPath: project.projectPath,
+          goal: { daily: own.daily ?? 0, weekly: own.weekly ?? 0 }
+        });
+      }
+    });
+    if (scopes.every(scope => scope.goal.daily <= 0 && scope.goal.weekly <= 0)) {
+      return;
+    }
+
+    const now = new Date();
+    const todayKey = getDayKey(now);
+    const weekKey = getDayKey(getCurrentWeekStart());
+    const shown = new Set(this.context.globalState.get<string[]>(GOAL_NOTIFICATIONS_KEY, []));
+    const messages: string[] = [];
+    const notifyOnce = (key: string, message: string) => {
+      if (!shown.has(key)) {
+        shown.add(key);
+        messages.push(message);
+      }
+    };
+
+    scopes.forEach(scope => {
+      const scopeKey = scope.projectPath ?? '*';
+      const todayTime = this.getTrackedTime(getTodayStart(), now, scope.projectPath);
+      if (isGoalReached(todayTime, scope.goal.daily)) {
+        notifyOnce(`${todayKey}:daily:${scopeKey}`, `🎯 Tagesziel erreicht${scope.label}: ${formatGoalProgress(todayTime, scope.goal.daily)}`);
+      }
+      const weekTime = this.getTrackedTime(getCurrentWeekStart(), now, scope.projectPath);
+      if (isGoalReached(weekTime, scope.goal.weekly)) {
+        notifyOnce(`${weekKey}:weekly:${scopeKey}`, `🎯 Wochenziel erreicht${scope.label}: ${formatGoalProgress(weekTime, scope.goal.weekly)}`);
+      }
+    });
+
+    // The day that was checked last has ended - days without any work are not reported
+    const lastDayKey = this.context.workspaceState.get<string>(LAST_GOAL_DAY_KEY);
+    const lastDay = lastDayKey && lastDayKey !== todayKey ? parseDateInput(lastDayKey) : undefined;
+    if (lastDay) {
+      const dayStart = getDayBoundary(lastDay);
+      const dayEnd = getDayBoundary(new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1));
+      scopes.forEach(scope => {
+        const dayTime = this.getTrackedTime(dayStart, dayEnd, scope.projectPath);
+        if (scope.goal.daily > 0 && dayTime > 0 && !isGoalReached(dayTime, scope.goal.daily)) {
+          notifyOnce(
+            `${lastDayKey}:missed:${scope.projectPath ?? '*'}`,
+            `Tagesziel am ${lastDay.toLocaleDateString('de-DE')} nicht erreicht${scope.label}: ${formatGoalProgress(dayTime, scope.goal.daily)}`
+          );
+        }
+      });
+    }
+
+    // Keys start with their day, so old ones can be dropped by comparing strings
+    const oldest = new Date(now);
+    oldest.setDate(oldest.getDate() - 14);
+    await this.context.globalState.update(
+      GOAL_NOTIFICATIONS_KEY,
+      Array.from(shown).filter(key => key >= getDayKey(oldest))
+    );
+    await this.context.workspaceState.update(LAST_GOAL_DAY_KEY, todayKey);
+
+    messages.forEach(message => vscode.window.showInformationMessage(message));
+  }
+
+  /**
+   * Active time of sessions started in a time range, of one project or of all workspaces
+   */
+  private getTrackedTime(from: Date, to: Date, projectPath?: string): number {
+    let totalTime = 0;
+    if (!projectPath) {
+      this.otherWorkspaceSessions.forEach(session => {
+        if (session.startTime >= from && session.startTime < to) {
+          totalTime += session.totalTime;
+        }
+      });
+    }
+    this.trackingData.projects.forEach(project => {
+      if (projectPath && project.projectPath !== projectPath) {
+        return;
+      }
+      project.sessions.forEach(session => {
+        // Sessions without an end that are not running were left behind by a crash
+        const counted = session.endTime || session === this.trackingData.currentSession;
+        if (counted && session.startTime >= from && session.startTime < to) {
+          totalTime += session.totalTime;
+        }
+      });
+    });
+    return totalTime;
+  }
+
+  private getPomodoroDurations(): PomodoroDurations {
+    return {
+      work: this.config.pomodoroWork,
+      shortBreak: this.config.pomodoroShortBreak,
+      longBreak: this.config.pomodoroLongBreak,
+      longBreakInterval: this.config.pomodoroLongBreakInterval
+    };
   }
 
   /**
-   * Show detailed time log with start-end times for each session
+   * Show detailed time log with start-end times for each session. Selecting a completed
+   * session offers corrections for it.
+   * @returns Whether a session was changed
    */
-  async showDetailedTimeLog(): Promise<void> {
+  async showDetailedTimeLog(): Promise<boolean> {
     const items: vscode.QuickPickItem[] = [];
     
     // Current session info
@@ -411,7 +861,7 @@ export class TimeTracker {
       items.push({
         label: `🟢 Aktuelle Session: ${startTime} - läuft (${formatDetailedTime(sessionTime)})`,
         description: this.trackingData.currentSession.projectName,
-        detail: `${this.trackingData.currentSession.textChanges} Textänderungen, ${this.trackingData.currentSession.cursorMovements} Cursor-Bewegungen`
+        detail: this.getSessionDetail(this.trackingData.currentSession)
       });
       items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
     }
@@ -425,6 +875,86 @@ export class TimeTracker {
       });
     });
 
+    const sessionItems = new Map<vscode.QuickPickItem, TimeSession>();
+    this.appendSessionsByDate(items, allSessions, sessionItems);
+
+    // Archived months are only listed with their totals; their sessions are loaded on selection
+    const archivedMonths = await this.getArchivedMonthTotals();
+    const archiveItems = new Map<vscode.QuickPickItem, string>();
+    if (archivedMonths.size > 0) {
+      items.push({ label: 'Archiv', kind: vscode.QuickPickItemKind.Separator });
+      Array.from(archivedMonths.entries())
+        .sort(([a], [b]) => b.localeCompare(a))
+        .forEach(([month, totals]) => {
+          const item: vscode.QuickPickItem = {
+            label: `📦 ${this.formatArchiveMonth(month)} (archiviert) - Gesamt: ${formatDetailedTime(totals.totalTime)}`,
+            description: `${totals.sessionCount} Sessions`,
+            detail: 'Auswählen, um die Sessions dieses Monats zu laden'
+          };
+          archiveItems.set(item, month);
+          items.push(item);
+        });
+    }
+
+    if (items.length === 0) {
+      items.push({
+        label: 'Keine Tracking-Daten verfügbar',
+        description: 'Starten Sie das Tracking, um Arbeitszeiten zu sehen'
+      });
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: 'Detailliertes Arbeitszeit-Log',
+      canPickMany: false
+    });
+
+    const month = selected ? archiveItems.get(selected) : undefined;
+    if (month) {
+      await this.showArchivedMonthLog(month);
+      return false;
+    }
+
+    const session = selected ? sessionItems.get(selected) : undefined;
+    if (session?.endTime && session.id !== this.trackingData.currentSession?.id) {
+      return this.showSessionActions(session.id);
+    }
+    return false;
+  }
+
+  /**
+   * Show the sessions of an archived month, loaded from its archive files
+   */
+  private async showArchivedMonthLog(month: string): Promise<void> {
+    const items: vscode.QuickPickItem[] = [];
+
+    try {
+      const sessions = await this.sessionArchive.loadMonth(month);
+      this.appendSessionsByDate(items, sessions.map(session => ({ session, projectName: session.projectName })));
+    } catch (error) {
+      this.logger.error('Failed to load archived sessions', error as Error, { month });
+      vscode.window.showErrorMessage(`Failed to load archived sessions of ${month}`);
+      return;
+    }
+
+    if (items.length === 0) {
+      items.push({ label: 'Keine archivierten Sessions gefunden' });
+    }
+
+    await vscode.window.showQuickPick(items, {
+      title: `Archiviertes Arbeitszeit-Log ${this.formatArchiveMonth(month)}`,
+      canPickMany: false
+    });
+  }
+
+  /**
+   * Add sessions to a log, grouped by date with the newest first
+   * @param sessionItems Receives the item created for each session
+   */
+  private appendSessionsByDate(
+    items: vscode.QuickPickItem[],
+    allSessions: Array<{ session: any; projectName: string }>,
+    sessionItems?: Map<vscode.QuickPickItem, TimeSession>
+  ): void {
     // Sort by start time (newest first)
     allSessions.sort((a, b) => b.session.startTime.getTime() - a.session.startTime.getTime());
 
@@ -432,7 +962,7 @@ export class TimeTracker {
     const sessionsByDate = new Map<string, Array<{ session: any; projectName: string }>>();
     
     allSessions.forEach(item => {
-      const dateKey = item.session.startTime.toLocaleDateString('de-DE');
+      const dateKey = formatDayLabel(item.session.startTime, item.session);
       if (!sessionsByDate.has(dateKey)) {
         sessionsByDate.set(dateKey, []);
       }
@@ -444,7 +974,7 @@ export class TimeTracker {
       // Date header - add current session time if it's from this date
       let totalDayTime = sessions.reduce((sum, item) => sum + item.session.totalTime, 0);
       if (this.trackingData.currentSession) {
-        const currentSessionDate = this.trackingData.currentSession.startTime.toLocaleDateString('de-DE');
+        const currentSessionDate = formatDayLabel(this.trackingData.currentSession.startTime);
         if (currentSessionDate === date) {
           totalDayTime += this.trackingData.currentSession.totalTime;
         }
@@ -459,36 +989,83 @@ export class TimeTracker {
 
       // Sessions for this date
       sessions.forEach(({ session, projectName }) => {
-        const startTime = session.startTime.toLocaleTimeString('de-DE', { 
-          hour: '2-digit', 
-          minute: '2-digit' 
-        });
+        const startTime = formatClockTime(session.startTime, session);
         const endTime = session.endTime 
-          ? session.endTime.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })
+          ? formatClockTime(session.endTime, session)
           : 'läuft';
         
         const duration = formatDetailedTime(session.totalTime);
         const timeRange = `${startTime}-${endTime}`;
         
-        items.push({
-          label: `  ⏱️  ${timeRange} (${duration})`,
+        const item: vscode.QuickPickItem = {
+          label: `  ${session.manual ? '✍️' : '⏱️'}  ${timeRange} (${duration})`,
           description: projectName,
-          detail: `${session.textChanges} Textänderungen, ${session.cursorMovements} Cursor-Bewegungen`
-        });
+          detail: this.getSessionDetail(session)
+        };
+        sessionItems?.set(item, session);
+        items.push(item);
       });
     });
+  }
 
-    if (items.length === 0) {
-      items.push({
-        label: 'Keine Tracking-Daten verfügbar',
-        description: 'Starten Sie das Tracking, um Arbeitszeiten zu sehen'
-      });
+  /**
+   * Detail line of a session in the logs
+   */
+  private getSessionDetail(session: TimeSession): string {
+    const parts = [
+      session.manual ? 'Manueller Eintrag' : `${session.textChanges} Textänderungen, ${session.cursorMovements} Cursor-Bewegungen`
+    ];
+    if (session.note) {
+      parts.push(session.note);
+    }
+    if (session.tags?.length) {
+      parts.push(formatTags(session.tags));
+    }
+    if (session.branch) {
+      parts.push(`⎇ ${session.branch}`);
+    }
+    if (session.pomodoros) {
+      parts.push(`${session.pomodoros} 🍅`);
+    }
+    const zone = formatRecordedZone(session);
+    if (zone) {
+      parts.push(`🌐 ${zone}`);
     }
+    if (session.debugTime) {
+      parts.push(`🐞 ${formatTime(session.debugTime, { showSeconds: false, shortFormat: true, alwaysShowHours: false })} Debugging`);
+    }
+    const idleGaps = getIdleGaps(session);
+    if (idleGaps.length) {
+      const idleTime = idleGaps.reduce((total, gap) => total + gap.end.getTime() - gap.start.getTime(), 0);
+      parts.push(`⏸ ${formatTime(idleTime, { showSeconds: false, shortFormat: true, alwaysShowHours: false })} Leerlauf`);
+    }
+    return parts.join(' · ');
+  }
 
-    await vscode.window.showQuickPick(items, {
-      title: 'Detailliertes Arbeitszeit-Log',
-      canPickMany: false
+  /**
+   * Total time and session count per archived month, from the daily rollups
+   */
+  private async getArchivedMonthTotals(): Promise<Map<string, { totalTime: number; sessionCount: number }>> {
+    const totals = new Map<string, { totalTime: number; sessionCount: number }>();
+    (await this.sessionArchive.listMonths()).forEach(month => totals.set(month, { totalTime: 0, sessionCount: 0 }));
+
+    this.trackingData.projects.forEach(project => {
+      project.dailyRollups.forEach(rollup => {
+        const month = rollup.date.slice(0, 7);
+        const monthTotals = totals.get(month) ?? { totalTime: 0, sessionCount: 0 };
+        monthTotals.totalTime += rollup.totalTime;
+        monthTotals.sessionCount += rollup.sessionCount;
+        totals.set(month, monthTotals);
+      });
     });
+    return totals;
+  }
+
+  /**
+   * Format an archive month (YYYY-MM) like "März 2025"
+   */
+  private formatArchiveMonth(month: string): string {
+    return new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1, 1).toLocaleDateString('de-DE', { month: 'long', year: 'numeric' });
   }
 
   /**
@@ -496,14 +1073,14 @@ export class TimeTracker {
    */
   async showTodaysSessions(): Promise<void> {
     const today = new Date();
-    const todayDateString = today.toLocaleDateString('de-DE');
+    const todayDateString = formatDayLabel(today);
     
     const items: vscode.QuickPickItem[] = [];
     let totalTodayTime = 0;
 
     // Current session if it's from today
     if (this.trackingData.currentSession) {
-      const sessionDate = this.trackingData.currentSession.startTime.toLocaleDateString('de-DE');
+      const sessionDate = formatDayLabel(this.trackingData.currentSession.startTime);
       if (sessionDate === todayDateString) {
         // Use totalTime to show only active work time, not idle time
         const sessionTime = this.trackingData.currentSession.totalTime;
@@ -516,7 +1093,7 @@ export class TimeTracker {
         items.push({
           label: `🟢 ${startTime} - läuft (${formatDetailedTime(sessionTime)})`,
           description: this.trackingData.currentSession.projectName,
-          detail: `${this.trackingData.currentSession.textChanges} Textänderungen, ${this.trackingData.currentSession.cursorMovements} Cursor-Bewegungen`
+          detail: this.getSessionDetail(this.trackingData.currentSession)
         });
       }
     }
@@ -526,7 +1103,7 @@ export class TimeTracker {
     
     this.trackingData.projects.forEach(project => {
       project.sessions.forEach(session => {
-        const sessionDate = session.startTime.toLocaleDateString('de-DE');
+        const sessionDate = formatDayLabel(session.startTime, session);
         if (sessionDate === todayDateString) {
           todaysSessions.push({ session, projectName: project.projectName });
           totalTodayTime += session.totalTime;
@@ -537,80 +1114,997 @@ export class TimeTracker {
     // Sort by start time
     todaysSessions.sort((a, b) => a.session.startTime.getTime() - b.session.startTime.getTime());
 
-    if (todaysSessions.length > 0 || this.trackingData.currentSession) {
-      if (items.length > 0) {
-        items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+    if (todaysSessions.length > 0 || this.trackingData.currentSession) {
+      if (items.length > 0) {
+        items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+      }
+      
+      todaysSessions.forEach(({ session, projectName }) => {
+        const startTime = formatClockTime(session.startTime, session);
+        const endTime = session.endTime 
+          ? formatClockTime(session.endTime, session)
+          : 'läuft';
+        
+        const duration = formatDetailedTime(session.totalTime);
+        const timeRange = `${startTime}-${endTime}`;
+        
+        items.push({
+          label: `${session.manual ? '✍️' : '⏱️'}  ${timeRange} (${duration})`,
+          description: projectName,
+          detail: this.getSessionDetail(session)
+        });
+      });
+    }
+
+    if (items.length === 0) {
+      items.push({
+        label: 'Heute noch keine Arbeitszeit getrackt',
+        description: 'Starten Sie das Tracking, um heutige Arbeitszeiten zu sehen'
+      });
+    }
+
+    await vscode.window.showQuickPick(items, {
+      title: `Heutige Arbeitszeiten (${todayDateString}) - Gesamt: ${formatDetailedTime(totalTodayTime)}`,
+      canPickMany: false
+    });
+  }
+
+  /**
+   * Record time the activity monitor could not see (meetings, whiteboarding, another machine)
+   * @returns Whether an entry was added
+   */
+  async addManualEntry(): Promise<boolean> {
+    const target = await this.pickProject('Manueller Eintrag (1/5): Projekt');
+    if (!target) {
+      return false;
+    }
+    const project: ProjectStats = this.trackingData.projects.get(target.path) ?? {
+      projectName: target.name,
+      projectPath: target.path,
+      totalTime: 0,
+      sessions: [],
+      lastActivity: new Date(0),
+      firstSession: new Date(),
+      averageSessionDuration: 0,
+      activeDays: 0,
+      dailyRollups: []
+    };
+
+    const dateInput = await vscode.window.showInputBox({
+      title: 'Manueller Eintrag (2/5): Datum',
+      prompt: 'Datum (TT.MM.JJJJ)',
+      value: getTrackingDay(new Date()).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' }),
+      validateInput: value => {
+        const date = parseDateInput(value);
+        if (!date) {
+          return 'Ungültiges Datum';
+        }
+        return date > new Date() ? 'Das Datum liegt in der Zukunft' : undefined;
+      }
+    });
+    const day = dateInput !== undefined ? parseDateInput(dateInput) : undefined;
+    if (!day) {
+      return false;
+    }
+
+    const startInput = await vscode.window.showInputBox({
+      title: 'Manueller Eintrag (3/5): Beginn',
+      prompt: 'Startzeit (HH:MM)',
+      validateInput: value => {
+        const offset = parseTimeOfDayInput(value);
+        if (offset === undefined) {
+          return 'Ungültige Uhrzeit';
+        }
+        return getTimeOnTrackingDay(day, offset) > new Date() ? 'Die Startzeit liegt in der Zukunft' : undefined;
+      }
+    });
+    const startOffset = startInput !== undefined ? parseTimeOfDayInput(startInput) : undefined;
+    if (startOffset === undefined) {
+      return false;
+    }
+    const startTime = getTimeOnTrackingDay(day, startOffset);
+
+    // Sessions never span the day boundary, so a manual entry ends on its tracking day
+    const dayEnd = getDayBoundary(new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1));
+    const parseEnd = (value: string): Date | undefined => {
+      const endOffset = parseTimeOfDayInput(value);
+      if (endOffset !== undefined) {
+        return getTimeOnTrackingDay(day, endOffset);
+      }
+      const duration = parseDurationInput(value);
+      return duration !== undefined ? new Date(startTime.getTime() + duration) : undefined;
+    };
+    const endInput = await vscode.window.showInputBox({
+      title: 'Manueller Eintrag (4/5): Ende oder Dauer',
+      prompt: 'Endzeit (HH:MM) oder Dauer (z.B. 1h 30m, 45m)',
+      validateInput: value => {
+        const end = parseEnd(value);
+        if (!end) {
+          return 'Ungültige Endzeit oder Dauer';
+        }
+        if (end <= startTime) {
+          return 'Das Ende muss nach dem Beginn liegen';
+        }
+        if (end > dayEnd) {
+          return 'Der Eintrag darf nicht über den Tageswechsel hinausgehen';
+        }
+        return end.getTime() > Date.now() ? 'Das Ende liegt in der Zukunft' : undefined;
+      }
+    });
+    const endTime = endInput !== undefined ? parseEnd(endInput) : undefined;
+    if (!endTime) {
+      return false;
+    }
+
+    const note = await vscode.window.showInputBox({
+      title: 'Manueller Eintrag (5/5): Notiz',
+      prompt: 'Notiz (optional)',
+      placeHolder: 'z.B. Architektur-Meeting'
+    });
+    if (note === undefined) {
+      return false;
+    }
+
+    const overlapping = findConflictingSessions(this.trackingData, startTime, endTime);
+    if (overlapping.length > 0) {
+      const answer = await vscode.window.showWarningMessage(
+        `Der Eintrag überschneidet sich mit ${overlapping.length} vorhandenen Session(s)`,
+        {
+          modal: true,
+          detail: overlapping
+            .map(session => `${session.projectName}: ${session.startTime.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}-${(session.endTime ?? new Date()).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}`)
+            .join('\n')
+        },
+        'Trotzdem hinzufügen'
+      );
+      if (answer !== 'Trotzdem hinzufügen') {
+        return false;
+      }
+    }
+
+    const session: TimeSession = {
+      id: this.generateSessionId(),
+      projectName: project.projectName,
+      projectPath: project.projectPath,
+      startTime,
+      endTime,
+      totalTime: endTime.getTime() - startTime.getTime(),
+      isActive: false,
+      lastActivity: endTime,
+      lastActiveTime: endTime,
+      textChanges: 0,
+      cursorMovements: 0,
+      manual: true,
+      ...getRecordedZone(startTime)
+    };
+    if (note.trim()) {
+      session.note = note.trim();
+    }
+
+    const before = captureUndoState(this.trackingData);
+    this.trackingData.projects.set(project.projectPath, project);
+    project.sessions.push(session);
+    project.sessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    if (project.sessions.length === 1 || startTime < project.firstSession) {
+      project.firstSession = startTime;
+    }
+    this.recalculateProjectStats(project);
+    await this.undoHistory.push('Manueller Eintrag hinzugefügt', before, this.trackingData);
+
+    await this.storage.save(this.trackingData);
+    this.updateViews();
+
+    this.logger.info('Manual entry added', { projectName: project.projectName, startTime, totalTime: session.totalTime });
+    vscode.window.showInformationMessage(
+      `Manueller Eintrag hinzugefügt: ${project.projectName}, ${formatDetailedTime(session.totalTime)} am ${formatDayLabel(startTime)}`
+    );
+    return true;
+  }
+
+  /**
+   * Offer all corrections for a completed session
+   * @returns Whether the session was changed
+   */
+  async showSessionActions(sessionId?: string): Promise<boolean> {
+    const session = await this.resolveEditableSession(sessionId, 'Session bearbeiten');
+    if (!session) {
+      return false;
+    }
+
+    const actions = [
+      { label: '$(edit) Zeiten ändern', description: 'Beginn, Ende und aktive Zeit', run: () => this.editSessionTimes(session.id) },
+      { label: '$(split-horizontal) Teilen', description: 'An einem Zeitpunkt in zwei Sessions teilen', run: () => this.splitSession(session.id) },
+      { label: '$(merge) Zusammenführen', description: 'Mit der Session davor oder danach', run: () => this.mergeSession(session.id) },
+      { label: '$(arrow-swap) Verschieben', description: 'In ein anderes Projekt', run: () => this.moveSession(session.id) },
+      { label: '$(note) Notiz & Tags', description: 'Beschreiben, woran gearbeitet wurde', run: () => this.annotateSession(session.id) },
+      { label: '$(trash) Löschen', run: () => this.deleteSession(session.id) }
+    ];
+    const picked = await vscode.window.showQuickPick(actions, {
+      title: `Session bearbeiten: ${this.formatSessionLabel(session)}`,
+      placeHolder: session.projectName
+    });
+    return picked ? picked.run() : false;
+  }
+
+  /**
+   * Change a completed session's start, end and active time
+   * @returns Whether the session was changed
+   */
+  async editSessionTimes(sessionId?: string): Promise<boolean> {
+    const session = await this.resolveEditableSession(sessionId, 'Zeiten ändern');
+    if (!session?.endTime) {
+      return false;
+    }
+
+    const startTime = await this.promptTimeOfDay('Zeiten ändern (1/3): Beginn', session.startTime, session.startTime);
+    if (!startTime) {
+      return false;
+    }
+    const endTime = await this.promptTimeOfDay('Zeiten ändern (2/3): Ende', session.startTime, session.endTime);
+    if (!endTime) {
+      return false;
+    }
+
+    const wallClock = Math.max(0, endTime.getTime() - startTime.getTime());
+    const currentActive = Math.min(session.totalTime, wallClock);
+    const currentActiveInput = formatTime(currentActive, { showSeconds: false, shortFormat: true, alwaysShowHours: false });
+    const activeInput = await vscode.window.showInputBox({
+      title: 'Zeiten ändern (3/3): Aktive Zeit',
+      prompt: `Aktive Arbeitszeit, höchstens ${formatDetailedTime(wallClock)} (z.B. 1h 30m)`,
+      value: currentActiveInput,
+      validateInput: value => {
+        const duration = parseDurationInput(value);
+        if (duration === undefined) {
+          return 'Ungültige Dauer';
+        }
+        return duration > wallClock ? 'Die aktive Zeit ist länger als die Session' : undefined;
+      }
+    });
+    if (activeInput === undefined) {
+      return false;
+    }
+    // Keep the exact time unless the user changed it
+    const activeTime = activeInput.trim() === currentActiveInput ? currentActive : parseDurationInput(activeInput)!;
+
+    return this.applySessionEdit(
+      () => updateSessionTimes(this.trackingData, session.id, startTime, endTime, activeTime),
+      'Session geändert'
+    );
+  }
+
+  /**
+   * Split a completed session in two at a time of day
+   * @returns Whether the session was split
+   */
+  async splitSession(sessionId?: string): Promise<boolean> {
+    const session = await this.resolveEditableSession(sessionId, 'Session teilen');
+    if (!session?.endTime) {
+      return false;
+    }
+
+    const midpoint = new Date((session.startTime.getTime() + session.endTime.getTime()) / 2);
+    const at = await this.promptTimeOfDay('Session teilen: Zeitpunkt', session.startTime, midpoint);
+    if (!at) {
+      return false;
+    }
+
+    return this.applySessionEdit(
+      () => splitSession(this.trackingData, session.id, at, this.generateSessionId()),
+      `Session um ${at.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })} geteilt`
+    );
+  }
+
+  /**
+   * Merge a completed session with the session of the same project directly before or after it
+   * @returns Whether sessions were merged
+   */
+  async mergeSession(sessionId?: string): Promise<boolean> {
+    const session = await this.resolveEditableSession(sessionId, 'Sessions zusammenführen');
+    if (!session) {
+      return false;
+    }
+
+    const candidates = getMergeCandidates(this.trackingData, session.id);
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage('Keine angrenzende Session desselben Projekts am selben Tag');
+      return false;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      candidates.map(candidate => ({
+        label: this.formatSessionLabel(candidate),
+        description: candidate.startTime < session.startTime ? 'davor' : 'danach',
+        candidate
+      })),
+      { title: `Zusammenführen mit: ${this.formatSessionLabel(session)}` }
+    );
+    if (!picked) {
+      return false;
+    }
+
+    return this.applySessionEdit(
+      () => mergeSessions(this.trackingData, session.id, picked.candidate.id),
+      'Sessions zusammengeführt'
+    );
+  }
+
+  /**
+   * Move a completed session to another project
+   * @returns Whether the session was moved
+   */
+  async moveSession(sessionId?: string): Promise<boolean> {
+    const session = await this.resolveEditableSession(sessionId, 'Session verschieben');
+    if (!session) {
+      return false;
+    }
+
+    const target = await this.pickProject(`Verschieben: ${this.formatSessionLabel(session)}`, session.projectPath);
+    if (!target) {
+      return false;
+    }
+
+    return this.applySessionEdit(
+      () => moveSession(this.trackingData, session.id, target),
+      `Session nach ${target.name} verschoben`
+    );
+  }
+
+  /**
+   * Delete a completed session after confirmation
+   * @returns Whether the session was deleted
+   */
+  async deleteSession(sessionId?: string): Promise<boolean> {
+    const session = await this.resolveEditableSession(sessionId, 'Session löschen');
+    if (!session) {
+      return false;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+      `Session ${this.formatSessionLabel(session)} (${session.projectName}) löschen?`,
+      { modal: true },
+      'Löschen'
+    );
+    if (answer !== 'Löschen') {
+      return false;
+    }
+
+    return this.applySessionEdit(() => deleteSession(this.trackingData, session.id), 'Session gelöscht');
+  }
+
+  /**
+   * Add a note and tags to the running session
+   * @returns Whether the session was annotated
+   */
+  async annotateCurrentSession(): Promise<boolean> {
+    if (!this.trackingData.currentSession) {
+      vscode.window.showInformationMessage('Keine aktive Session');
+      return false;
+    }
+    return this.annotateSession(this.trackingData.currentSession.id);
+  }
+
+  /**
+   * Add a note and tags to the running or any completed session
+   * @returns Whether the session was annotated
+   */
+  async annotateSession(sessionId?: string): Promise<boolean> {
+    const session = await this.resolveEditableSession(sessionId, 'Notiz & Tags', true);
+    if (!session) {
+      return false;
+    }
+
+    const note = await vscode.window.showInputBox({
+      title: `Notiz & Tags (1/2): ${this.formatSessionLabel(session)}`,
+      prompt: 'Notiz (leer lassen zum Entfernen)',
+      value: session.note ?? '',
+      placeHolder: 'z.B. Code-Review für Login-Refactoring'
+    });
+    if (note === undefined) {
+      return false;
+    }
+
+    const knownTags = new Map<string, number>();
+    this.trackingData.projects.forEach(project => project.sessions.forEach(candidate => {
+      candidate.tags?.forEach(tag => knownTags.set(tag, (knownTags.get(tag) ?? 0) + 1));
+    }));
+    const suggestions = Array.from(knownTags.entries()).sort(([, a], [, b]) => b - a).slice(0, 10).map(([tag]) => tag);
+    const tagsInput = await vscode.window.showInputBox({
+      title: `Notiz & Tags (2/2): ${this.formatSessionLabel(session)}`,
+      prompt: suggestions.length > 0
+        ? `Tags, durch Komma getrennt - bisher verwendet: ${formatTags(suggestions)}`
+        : 'Tags, durch Komma getrennt',
+      value: (session.tags ?? []).join(', '),
+      placeHolder: 'z.B. review, kunde-a'
+    });
+    if (tagsInput === undefined) {
+      return false;
+    }
+
+    const before = captureUndoState(this.trackingData);
+    if (note.trim()) {
+      session.note = note.trim();
+    } else {
+      delete session.note;
+    }
+    const tags = parseTagsInput(tagsInput);
+    if (tags.length > 0) {
+      session.tags = tags;
+    } else {
+      delete session.tags;
+    }
+    // The running session is saved with every tick anyway; corrections to completed ones must win merges
+    if (session.id !== this.trackingData.currentSession?.id) {
+      session.editedAt = new Date();
+    }
+    await this.undoHistory.push('Notiz und Tags geändert', before, this.trackingData);
+
+    await this.storage.save(this.trackingData);
+    this.updateViews();
+    vscode.window.showInformationMessage('Notiz und Tags gespeichert');
+    return true;
+  }
+
+  /**
+   * The session with the given ID, or one picked by the user among the completed sessions
+   */
+  private async resolveEditableSession(
+    sessionId: string | undefined,
+    title: string,
+    includeCurrent = false
+  ): Promise<TimeSession | undefined> {
+    if (sessionId) {
+      const found = findSession(this.trackingData, sessionId);
+      if (!found) {
+        vscode.window.showWarningMessage('Session nicht gefunden');
+      }
+      return found?.session;
+    }
+
+    const sessions: TimeSession[] = [];
+    this.trackingData.projects.forEach(project => {
+      sessions.push(...project.sessions.filter(session => session.endTime && session.id !== this.trackingData.currentSession?.id));
+    });
+    sessions.sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    if (includeCurrent && this.trackingData.currentSession) {
+      sessions.unshift(this.trackingData.currentSession);
+    }
+    if (sessions.length === 0) {
+      vscode.window.showInformationMessage('Keine abgeschlossenen Sessions vorhanden');
+      return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      sessions
+        .map(session => ({
+          label: `${session.id === this.trackingData.currentSession?.id ? '🟢' : session.manual ? '✍️' : '⏱️'}  ${this.formatSessionLabel(session)}`,
+          description: session.projectName,
+          detail: this.getSessionDetail(session),
+          session
+        })),
+      { title, placeHolder: 'Session auswählen', matchOnDescription: true }
+    );
+    return picked?.session;
+  }
+
+  /**
+   * Ask for a time of day on a session's day
+   * @param current Time shown initially; returned unchanged (with seconds) if the user keeps it
+   */
+  private async promptTimeOfDay(title: string, day: Date, current: Date): Promise<Date | undefined> {
+    const formatted = current.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+    const input = await vscode.window.showInputBox({
+      title,
+      prompt: 'Uhrzeit (HH:MM)',
+      value: formatted,
+      validateInput: value => parseTimeOfDayInput(value) === undefined ? 'Ungültige Uhrzeit' : undefined
+    });
+    if (input === undefined) {
+      return undefined;
+    }
+    if (input.trim() === formatted) {
+      return current;
+    }
+    return getTimeOnTrackingDay(getTrackingDay(day), parseTimeOfDayInput(input)!);
+  }
+
+  /**
+   * Apply a session correction, then save and refresh the views
+   * @returns Whether the edit was valid and applied
+   */
+  private async applySessionEdit(edit: () => unknown, message: string): Promise<boolean> {
+    const before = captureUndoState(this.trackingData);
+    try {
+      edit();
+    } catch (error) {
+      if (error instanceof SessionEditError) {
+        vscode.window.showWarningMessage(error.message);
+        return false;
+      }
+      throw error;
+    }
+    await this.undoHistory.push(message, before, this.trackingData);
+
+    await this.storage.save(this.trackingData);
+    this.updateViews();
+    this.logger.info('Session edited', { message });
+    vscode.window.showInformationMessage(message);
+    return true;
+  }
+
+  /**
+   * Date, time range and active time of a session, e.g. "05.03.2025 09:00-10:30 (1 hour 20 minutes)"
+   */
+  private formatSessionLabel(session: TimeSession): string {
+    const formatTime = (date: Date) => date.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+    const end = session.endTime ? formatTime(session.endTime) : 'läuft';
+    return `${formatDayLabel(session.startTime)} ${formatTime(session.startTime)}-${end} (${formatDetailedTime(session.totalTime)})`;
+  }
+
+  /**
+   * Let the user pick one of the workspace's projects or type the name of a new one
+   * @param excludePath Project that is not offered, e.g. the one a session is moved away from
+   */
+  private async pickProject(title: string, excludePath?: string): Promise<{ path: string; name: string } | undefined> {
+    const newProjectItem = { label: '$(add) Neues Projekt...', alwaysShow: true };
+    const projectItems = Array.from(this.trackingData.projects.values())
+      .filter(project => project.projectPath !== excludePath)
+      .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())
+      .map(project => ({ label: project.projectName, description: project.projectPath, project }));
+    const picked = await vscode.window.showQuickPick<vscode.QuickPickItem>([...projectItems, newProjectItem], {
+      title,
+      placeHolder: 'Projekt auswählen'
+    });
+    if (!picked) {
+      return undefined;
+    }
+
+    const existing = projectItems.find(item => item === picked)?.project;
+    if (existing) {
+      return { path: existing.projectPath, name: existing.projectName };
+    }
+
+    const name = (await vscode.window.showInputBox({
+      title,
+      prompt: 'Name des neuen Projekts',
+      validateInput: value => value.trim() ? undefined : 'Bitte einen Namen eingeben'
+    }))?.trim();
+    if (!name) {
+      return undefined;
+    }
+    // Projects without a folder are keyed by their name
+    const sameName = Array.from(this.trackingData.projects.values()).find(project => project.projectName === name);
+    return sameName ? { path: sameName.projectPath, name } : { path: name, name };
+  }
+
+  /**
+   * Export tracking data
+   */
+  async exportData(): Promise<void> {
+    const now = new Date();
+    const lastYear = new Date(now);
+    lastYear.setFullYear(lastYear.getFullYear() - 1);
+
+    const ranges: Array<vscode.QuickPickItem & { includeArchive: boolean; from?: Date }> = [
+      { label: 'Alle Daten', description: 'inkl. archivierter Sessions', includeArchive: true },
+      { label: 'Dieses Jahr', includeArchive: true, from: new Date(now.getFullYear(), 0, 1) },
+      { label: 'Letzte 12 Monate', includeArchive: true, from: lastYear },
+      { label: 'Nur aktuelle Daten', description: 'archivierte Monate nur als Tagessummen', includeArchive: false }
+    ];
+    const range = await vscode.window.showQuickPick(ranges, { title: 'Zeitraum für den Export' });
+    if (!range) {
+      return;
+    }
+
+    const options: vscode.SaveDialogOptions = {
+      defaultUri: vscode.Uri.file(`time-tracking-${formatDate(new Date())}.json`),
+      filters: {
+        'JSON Files': ['json'],
+        'All Files': ['*']
+      }
+    };
+
+    const uri = await vscode.window.showSaveDialog(options);
+    if (!uri) {
+      return;
+    }
+
+    try {
+      const exportData: any = {
+        exportDate: new Date().toISOString(),
+        version: this.trackingData.version,
+        projects: range.includeArchive
+          ? await this.getProjectsWithArchive(range.from)
+          : Array.from(this.trackingData.projects.values()),
+        totalTimeTracked: this.trackingData.totalTimeTracked
+      };
+      if (range.from) {
+        exportData.from = range.from.toISOString();
+      }
+      const sessions = (exportData.projects as Array<{ sessions: TimeSession[] }>).flatMap(project => project.sessions);
+      exportData.byTag = groupSessionsByTag(sessions).map(group => ({
+        tag: group.tag,
+        totalTime: group.totalTime,
+        sessionCount: group.sessionCount,
+        projects: Object.fromEntries(group.projects)
+      }));
+      exportData.byTicket = groupSessionsByTicket(sessions).map(group => ({
+        ticket: group.ticket,
+        totalTime: group.totalTime,
+        sessionCount: group.sessionCount,
+        branches: Array.from(group.branches),
+        projects: Object.fromEntries(group.projects)
+      }));
+      const debugTime = sessions.reduce((total, session) => total + (session.debugTime ?? 0), 0);
+      exportData.byActivity = {
+        coding: sessions.reduce((total, session) => total + session.totalTime, 0) - debugTime,
+        debugging: debugTime
+      };
+      exportData.byLanguage = groupSessionsByLanguage(sessions).map(group => ({
+        languageId: group.languageId,
+        language: formatLanguageName(group.languageId),
+        totalTime: group.totalTime,
+        files: Object.fromEntries(group.files),
+        projects: Object.fromEntries(group.projects)
+      }));
+
+      await vscode.workspace.fs.writeFile(
+        uri, 
+        Buffer.from(JSON.stringify(exportData, null, 2), 'utf8')
+      );
+
+      vscode.window.showInformationMessage(`Time tracking data exported to ${uri.fsPath}`);
+      this.logger.info('Data exported successfully', { exportPath: uri.fsPath });
+    } catch (error) {
+      this.logger.error('Failed to export data', error as Error);
+      vscode.window.showErrorMessage('Failed to export time tracking data');
+    }
+  }
+
+  /**
+   * Projects with their archived sessions loaded back in place of the daily rollups,
+   * optionally limited to sessions starting at or after `from`
+   */
+  private async getProjectsWithArchive(from?: Date): Promise<Array<Omit<ProjectStats, 'dailyRollups'>>> {
+    const archived = from
+      ? await this.sessionArchive.loadRange(from, new Date())
+      : await this.sessionArchive.loadAll();
+
+    return Array.from(this.trackingData.projects.values()).map(({ dailyRollups, ...project }) => ({
+      ...project,
+      sessions: [...archived.filter(session => session.projectPath === project.projectPath), ...project.sessions]
+        .filter(session => !from || session.startTime >= from)
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    }));
+  }
+
+  /**
+   * Restore tracking data from a backup snapshot chosen by the user
+   */
+  async restoreFromBackup(): Promise<void> {
+    const snapshots = await this.backupManager.listSnapshots();
+    if (snapshots.length === 0) {
+      vscode.window.showInformationMessage('Keine Backups vorhanden');
+      return;
+    }
+
+    const kindLabels = {
+      'daily': 'Täglich',
+      'weekly': 'Wöchentlich',
+      'pre-restore': 'Vor Wiederherstellung',
+      'pre-repair': 'Vor Reparatur',
+      'pre-relocate': 'Vor Übernahme'
+    };
+    const picked = await vscode.window.showQuickPick(
+      snapshots.map(snapshot => ({
+        label: `$(archive) ${snapshot.createdAt.toLocaleString('de-DE')}`,
+        description: `${kindLabels[snapshot.kind]} (${snapshot.period})`,
+        detail: `${snapshot.projectCount} Projekte, ${snapshot.sessionCount} Sessions - ${formatDetailedTime(snapshot.totalTime)}`,
+        snapshot
+      })),
+      { title: 'Backup zum Wiederherstellen auswählen' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const backupData = await this.backupManager.loadSnapshot(picked.snapshot.filePath);
+    const diff = this.backupManager.diff(this.trackingData, backupData);
+
+    const summary: string[] = [
+      `Sessions nur im Backup: ${diff.sessionsOnlyInBackup}`,
+      `Sessions, die verloren gehen: ${diff.sessionsOnlyInCurrent}`,
+      `Zeitdifferenz: ${diff.totalTimeDelta >= 0 ? '+' : '-'}${formatDetailedTime(Math.abs(diff.totalTimeDelta))}`
+    ];
+    if (diff.projectsOnlyInBackup.length > 0) {
+      summary.push(`Projekte nur im Backup: ${diff.projectsOnlyInBackup.join(', ')}`);
+    }
+    if (diff.projectsOnlyInCurrent.length > 0) {
+      summary.push(`Projekte, die verloren gehen: ${diff.projectsOnlyInCurrent.join(', ')}`);
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+      `Backup vom ${picked.snapshot.createdAt.toLocaleString('de-DE')} wiederherstellen?`,
+      { modal: true, detail: summary.join('\n') },
+      'Wiederherstellen'
+    );
+    if (answer !== 'Wiederherstellen') {
+      return;
+    }
+
+    // Finish the running session so it is part of the safety snapshot
+    await this.endCurrentSession();
+    await this.backupManager.createSafetySnapshot('pre-restore', this.trackingData);
+
+    // The restored data belongs to this workspace regardless of where the snapshot came from
+    this.trackingData = backupData;
+    delete this.trackingData.currentSession;
+    stampWorkspace(this.trackingData);
+    this.lastSessionDay = undefined;
+
+    await this.storage.save(this.trackingData);
+    this.updateStatusBar();
+    this.updateViews();
+
+    this.logger.info('Tracking data restored from backup', {
+      filePath: picked.snapshot.filePath,
+      projectCount: this.trackingData.projects.size
+    });
+    vscode.window.showInformationMessage('Backup wiederhergestellt');
+  }
+
+  /**
+   * Revert the most recent reset, stop, idle end, absence decision or manual edit. Only the
+   * sessions it changed are reverted; time tracked since, also in other windows, is kept.
+   * @returns Whether anything was undone
+   */
+  async undoLastAction(): Promise<boolean> {
+    const entry = await this.undoHistory.pop();
+    if (!entry) {
+      vscode.window.showInformationMessage('Es gibt nichts rückgängig zu machen');
+      return false;
+    }
+
+    const previousSessionId = this.trackingData.currentSession?.id;
+    let result: RevertResult;
+    try {
+      result = revertChanges(this.trackingData, entry.changes);
+    } catch (error) {
+      this.logger.error('Failed to undo last action', error as Error);
+      vscode.window.showErrorMessage(`Rückgängig machen fehlgeschlagen: ${entry.label}`);
+      return false;
+    }
+
+    const session = this.trackingData.currentSession;
+    if (session && session.id !== previousSessionId) {
+      // The restored session continues from now; time since the operation is not counted
+      const now = new Date();
+      session.isActive = !this.isPaused;
+      session.lastActivity = now;
+      session.lastActiveTime = now;
+      this.lastSessionDay = formatDayLabel(now);
+    } else if (!session) {
+      this.lastSessionDay = undefined;
+    }
+
+    await this.storage.save(this.trackingData);
+    if (session && !this.isRunning) {
+      // Undoing a stop resumes tracking with the restored session
+      await this.start();
+    }
+    this.updateStatusBar();
+    this.updateViews();
+
+    this.logger.info('Undid last action', { label: entry.label, recordedAt: entry.createdAt.toISOString(), ...result });
+    vscode.window.showInformationMessage(
+      `Rückgängig gemacht: ${entry.label} (${entry.createdAt.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })})`
+    );
+    return true;
+  }
+
+  /**
+   * Take over the history of a workspace whose folder was moved or renamed
+   * @returns Whether history was taken over
+   */
+  async relocateWorkspaceHistory(): Promise<boolean> {
+    const globalStoragePath = this.context.globalStorageUri.fsPath;
+    const orphans = await findOrphanedWorkspaces(
+      globalStoragePath,
+      getWorkspaceStorageDir(this.context),
+      this.encryption,
+      this.logger
+    );
+    if (orphans.length === 0) {
+      vscode.window.showInformationMessage('Keine verwaisten Workspace-Daten gefunden');
+      return false;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      orphans.map(orphan => {
+        const sessionCount = Array.from(orphan.data.projects.values()).reduce((count, project) => count + countProjectSessions(project), 0);
+        return {
+          label: orphan.name,
+          description: orphan.path ?? 'Pfad unbekannt',
+          detail: `${orphan.data.projects.size} Projekte, ${sessionCount} Sessions - zuletzt gespeichert am ${orphan.data.lastSaved.toLocaleDateString('de-DE')}`,
+          orphan
+        };
+      }),
+      { title: 'Verwaiste Workspace-Historie übernehmen', placeHolder: 'Workspace auswählen, dessen Ordner verschoben oder umbenannt wurde' }
+    );
+    if (!picked) {
+      return false;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+      `Zeiterfassung von "${picked.orphan.name}" in diesen Workspace übernehmen?`,
+      { modal: true, detail: 'Die Sessions werden mit den vorhandenen zusammengeführt. Der alte Datenordner wird danach in den Ordner "relocated" verschoben.' },
+      'Übernehmen'
+    );
+    if (answer !== 'Übernehmen') {
+      return false;
+    }
+
+    await this.backupManager.createSafetySnapshot('pre-relocate', this.trackingData);
+    const result = await mergeOrphanedWorkspace(picked.orphan, this.trackingData, this.sessionArchive, this.encryption, this.logger);
+    await this.storage.save(this.trackingData);
+    await retireOrphanedWorkspace(globalStoragePath, picked.orphan, this.logger);
+
+    this.updateViews();
+    vscode.window.showInformationMessage(
+      `${result.added + result.archived} Sessions aus "${picked.orphan.name}" übernommen`
+    );
+    return true;
+  }
+
+  /**
+   * Check the tracking data for inconsistencies and offer automatic repairs
+   */
+  async verifyData(): Promise<void> {
+    const issues = checkDataIntegrity(this.trackingData);
+    if (issues.length === 0) {
+      vscode.window.showInformationMessage('Datenprüfung abgeschlossen: keine Probleme gefunden');
+      return;
+    }
+
+    const kindLabels: Record<IntegrityIssueKind, string> = {
+      'duplicate-session-id': 'Doppelte Session-IDs',
+      'negative-time': 'Negative Zeiten',
+      'impossible-time': 'Unmögliche Zeiten',
+      'unclosed-session': 'Nicht beendete Sessions',
+      'overlapping-sessions': 'Überschneidende Sessions',
+      'stats-mismatch': 'Abweichende Projektsummen'
+    };
+
+    const fixableCount = issues.filter(issue => issue.fixable).length;
+    const items: Array<vscode.QuickPickItem & { repair?: boolean }> = [];
+
+    if (fixableCount > 0) {
+      items.push({
+        label: `$(wrench) ${fixableCount} Probleme automatisch beheben`,
+        description: 'Vorher wird ein Backup erstellt',
+        repair: true
+      });
+    }
+
+    (Object.keys(kindLabels) as IntegrityIssueKind[]).forEach(kind => {
+      const ofKind = issues.filter(issue => issue.kind === kind);
+      if (ofKind.length === 0) {
+        return;
       }
-      
-      todaysSessions.forEach(({ session, projectName }) => {
-        const startTime = session.startTime.toLocaleTimeString('de-DE', { 
-          hour: '2-digit', 
-          minute: '2-digit' 
-        });
-        const endTime = session.endTime 
-          ? session.endTime.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })
-          : 'läuft';
-        
-        const duration = formatDetailedTime(session.totalTime);
-        const timeRange = `${startTime}-${endTime}`;
-        
+      items.push({ label: `${kindLabels[kind]} (${ofKind.length})`, kind: vscode.QuickPickItemKind.Separator });
+      ofKind.forEach(issue => {
         items.push({
-          label: `⏱️  ${timeRange} (${duration})`,
-          description: projectName,
-          detail: `${session.textChanges} Textänderungen, ${session.cursorMovements} Cursor-Bewegungen`
+          label: `${issue.fixable ? '$(warning)' : '$(error)'} ${issue.message}`,
+          description: issue.fixable ? 'behebbar' : 'manuell prüfen'
         });
       });
+    });
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: `Datenprüfung: ${issues.length} Probleme gefunden`,
+      canPickMany: false
+    });
+    if (!picked?.repair) {
+      return;
     }
 
-    if (items.length === 0) {
-      items.push({
-        label: 'Heute noch keine Arbeitszeit getrackt',
-        description: 'Starten Sie das Tracking, um heutige Arbeitszeiten zu sehen'
-      });
+    await this.backupManager.createSafetySnapshot('pre-repair', this.trackingData);
+    const fixed = repairIntegrityIssues(this.trackingData, issues);
+    await this.storage.save(this.trackingData);
+    this.updateStatusBar();
+    this.updateViews();
+
+    const remaining = checkDataIntegrity(this.trackingData).length;
+    this.logger.info('Data integrity issues repaired', { fixed, remaining });
+    vscode.window.showInformationMessage(
+      remaining > 0
+        ? `${fixed} Probleme behoben, ${remaining} erfordern manuelle Prüfung`
+        : `${fixed} Probleme behoben`
+    );
+  }
+
+  /**
+   * Encrypt all tracking data and backups with a new key kept in SecretStorage
+   */
+  async enableEncryption(): Promise<void> {
+    if (this.encryption.isEnabled) {
+      vscode.window.showInformationMessage('Verschlüsselung ist bereits aktiviert');
+      return;
     }
 
-    await vscode.window.showQuickPick(items, {
-      title: `Heutige Arbeitszeiten (${todayDateString}) - Gesamt: ${formatDetailedTime(totalTodayTime)}`,
-      canPickMany: false
-    });
+    const answer = await vscode.window.showWarningMessage(
+      'Zeiterfassungsdaten verschlüsseln?',
+      {
+        modal: true,
+        detail: 'Der Schlüssel wird im Secret Storage von VS Code abgelegt. ' +
+          'Geht er verloren, können die verschlüsselten Daten nicht wiederhergestellt werden.' +
+          (this.deviceSync.isEnabled
+            ? '\n\nDie Synchronisierung zwischen Geräten wird ausgesetzt, solange die Verschlüsselung aktiviert ist, ' +
+              'denn andere Geräte haben den Schlüssel nicht. Bereits synchronisierte Dateien bleiben unverschlüsselt im Sync-Ordner.'
+            : '')
+      },
+      'Verschlüsseln'
+    );
+    if (answer !== 'Verschlüsseln') {
+      return;
+    }
+
+    await this.encryption.enable();
+    await this.rewriteStoredData('Verschlüsselung aktiviert');
   }
 
   /**
-   * Export tracking data
+   * Decrypt all tracking data and backups and store them as plain JSON again
    */
-  async exportData(): Promise<void> {
-    const options: vscode.SaveDialogOptions = {
-      defaultUri: vscode.Uri.file(`time-tracking-${formatDate(new Date())}.json`),
-      filters: {
-        'JSON Files': ['json'],
-        'All Files': ['*']
-      }
-    };
+  async disableEncryption(): Promise<void> {
+    if (!this.encryption.isEnabled) {
+      vscode.window.showInformationMessage('Verschlüsselung ist nicht aktiviert');
+      return;
+    }
 
-    const uri = await vscode.window.showSaveDialog(options);
-    if (!uri) {
+    const answer = await vscode.window.showWarningMessage(
+      'Verschlüsselung deaktivieren?',
+      { modal: true, detail: 'Alle Daten und Backups werden wieder unverschlüsselt gespeichert.' },
+      'Entschlüsseln'
+    );
+    if (answer !== 'Entschlüsseln') {
       return;
     }
 
-    try {
-      const exportData = {
-        exportDate: new Date().toISOString(),
-        version: this.trackingData.version,
-        projects: Array.from(this.trackingData.projects.values()),
-        totalTimeTracked: this.trackingData.totalTimeTracked
-      };
+    await this.encryption.disable();
+    await this.rewriteStoredData('Verschlüsselung deaktiviert');
+  }
 
-      await vscode.workspace.fs.writeFile(
-        uri, 
-        Buffer.from(JSON.stringify(exportData, null, 2), 'utf8')
-      );
+  /**
+   * Re-encrypt all tracking data and backups with a fresh key
+   */
+  async rotateEncryptionKey(): Promise<void> {
+    if (!this.encryption.isEnabled) {
+      vscode.window.showInformationMessage('Verschlüsselung ist nicht aktiviert');
+      return;
+    }
 
-      vscode.window.showInformationMessage(`Time tracking data exported to ${uri.fsPath}`);
-      this.logger.info('Data exported successfully', { exportPath: uri.fsPath });
-    } catch (error) {
-      this.logger.error('Failed to export data', error as Error);
-      vscode.window.showErrorMessage('Failed to export time tracking data');
+    await this.encryption.rotateKey();
+    await this.rewriteStoredData('Schlüssel erneuert');
+  }
+
+  /**
+   * Rewrite every stored file with the current encryption setting, then drop keys no file needs anymore
+   */
+  private async rewriteStoredData(successMessage: string): Promise<void> {
+    await this.storage.save(this.trackingData);
+    const result = await reencodeStoredFiles(this.context.globalStorageUri.fsPath, this.encryption, this.logger);
+
+    if (result.failed.length > 0) {
+      // Old keys may still be needed for the files that could not be rewritten
+      vscode.window.showWarningMessage(
+        `${successMessage}, aber ${result.failed.length} Dateien konnten nicht umgeschrieben werden. ` +
+        'Ältere Schlüssel bleiben erhalten - Details im Ausgabefenster.'
+      );
+      return;
     }
+
+    await this.encryption.retireInactiveKeys();
+    vscode.window.showInformationMessage(`${successMessage} (${result.rewritten} Dateien aktualisiert)`);
   }
 
   /**
@@ -646,6 +2140,11 @@ export class TimeTracker {
         await this.checkAndHandleProjectChange();
       }
 
+      // Check for branch change and switch sessions if needed
+      if (this.trackingData.currentSession && !this.isPaused) {
+        await this.checkAndHandleBranchChange();
+      }
+
       // Check for auto-end session after idle time
       if (this.config.autoEndSessionAfterIdle && this.trackingData.currentSession && !this.isPaused) {
         await this.checkAndHandleIdleSessionEnd();
@@ -661,7 +2160,7 @@ export class TimeTracker {
           const timeSinceLastActive = safeTimeDifference(now, this.trackingData.currentSession.lastActiveTime, 1);
           
           if (timeSinceLastActive > 0) {
-            this.trackingData.currentSession.totalTime += timeSinceLastActive;
+            this.countActiveTime(this.trackingData.currentSession, this.trackingData.currentSession.lastActiveTime, now);
           } else {
             // Log warning if time calculation failed
             this.logger.warn('Invalid time difference detected, skipping time addition', {
@@ -676,6 +2175,17 @@ export class TimeTracker {
         }
         // If not active (idle), don't add any time to totalTime
       }
+
+      this.advancePomodoro();
+
+      if (Date.now() - this.lastMinuteCheck >= 60 * 1000) {
+        this.lastMinuteCheck = Date.now();
+        await this.refreshOtherWorkspaceSessions();
+        if (this.config.workingTimeWarnings) {
+          await this.checkWorkingTime();
+        }
+        await this.checkGoals();
+      }
       
       // Auto-start session if configured and activity detected
       if (this.config.autoStart && !this.trackingData.currentSession && !this.isPaused) {
@@ -691,6 +2201,25 @@ export class TimeTracker {
     }
   }
 
+  /**
+   * Add active time to a session: to its total, its active segments, the file last edited
+   * or moved in, and its debugging time while the debugger is halted
+   */
+  private countActiveTime(session: TimeSession, from: Date, to: Date): void {
+    const time = to.getTime() - from.getTime();
+    session.totalTime += time;
+    addActiveTime(session, from, to);
+    if (this.focusedFile) {
+      addFileTime(session, {
+        path: getProjectFilePath(session.projectPath, this.focusedFile.uri.fsPath),
+        languageId: this.focusedFile.languageId
+      }, time);
+    }
+    if (this.activityMonitor.isDebugging()) {
+      session.debugTime = (session.debugTime ?? 0) + time;
+    }
+  }
+
   /**
    * Handle activity events from the monitor
    */
@@ -744,11 +2273,26 @@ export class TimeTracker {
         return;
       }
 
+      if (event.type === 'text_change' && event.documentUri) {
+        this.lastEditedDocument = event.documentUri;
+      }
+      if (event.documentUri && event.languageId) {
+        this.focusedFile = { uri: event.documentUri, languageId: event.languageId };
+      }
+
       // Skip regular activity processing if paused
       if (this.isPaused) {
         return;
       }
 
+      // Measured before this activity updates the session
+      const idleStretch = this.getIdleStretch();
+
+      // Count the activity for the folder it happened in
+      if (this.config.autoEndSessionOnProjectChange && this.trackingData.currentSession) {
+        await this.checkAndHandleProjectChange();
+      }
+
       // Update activity counters in current session
       if (this.trackingData.currentSession) {
         const now = new Date();
@@ -769,6 +2313,10 @@ export class TimeTracker {
         await this.startOrResumeSession();
       }
 
+      if (idleStretch) {
+        this.offerIdleReconciliation(idleStretch);
+      }
+
       this.logger.debug('Activity processed', { 
         type: event.type, 
         hasCurrentSession: !!this.trackingData.currentSession 
@@ -797,6 +2345,9 @@ export class TimeTracker {
       existingSession.isActive = true;
       existingSession.lastActivity = now;
       existingSession.lastActiveTime = now; // Reset active time when resuming
+      if (!existingSession.branch) {
+        this.applyBranch(existingSession);
+      }
       this.trackingData.currentSession = existingSession;
       this.logger.info('Resumed existing session', { projectName: currentProject.name });
     } else {
@@ -812,17 +2363,19 @@ export class TimeTracker {
         lastActivity: now,
         lastActiveTime: now,
         textChanges: 0,
-        cursorMovements: 0
+        cursorMovements: 0,
+        ...getRecordedZone(now)
       };
+      this.applyBranch(newSession);
 
       this.trackingData.currentSession = newSession;
       this.addSessionToProject(newSession);
-      this.logger.info('Started new session', { projectName: currentProject.name });
+      this.logger.info('Started new session', { projectName: currentProject.name, branch: newSession.branch });
     }
 
     // Track the day of the new/resumed session
     if (this.trackingData.currentSession) {
-      this.lastSessionDay = this.trackingData.currentSession.startTime.toLocaleDateString('de-DE');
+      this.lastSessionDay = formatDayLabel(this.trackingData.currentSession.startTime);
     }
   }
 
@@ -845,7 +2398,7 @@ export class TimeTracker {
     if (this.activityMonitor.isActive()) {
       const remainingActiveTime = safeTimeDifference(finalEndTime, session.lastActiveTime, this.config.idleThreshold);
       if (remainingActiveTime > 0) {
-        session.totalTime += remainingActiveTime;
+        this.countActiveTime(session, session.lastActiveTime, finalEndTime);
       }
     }
     // Note: totalTime now contains only active time, not total elapsed time
@@ -869,21 +2422,25 @@ export class TimeTracker {
   }
 
   /**
-   * Get current project information
+   * Get current project information.
+   * Each workspace folder is its own project: the one owning the active editor,
+   * else the one owning the most recently edited document, else the first folder.
    */
   private getCurrentProject(): { name: string; path: string } | undefined {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     
-         if (workspaceFolders && workspaceFolders.length > 0) {
-       // Use first workspace folder as primary project
-       const folder = workspaceFolders[0];
-       if (folder) {
-         return {
-           name: folder.name,
-           path: folder.uri.fsPath
-         };
-       }
-     }
+    if (workspaceFolders && workspaceFolders.length > 0) {
+      const activeDocument = vscode.window.activeTextEditor?.document.uri;
+      const folder = (activeDocument && vscode.workspace.getWorkspaceFolder(activeDocument)) ||
+        (this.lastEditedDocument && vscode.workspace.getWorkspaceFolder(this.lastEditedDocument)) ||
+        workspaceFolders[0];
+      if (folder) {
+        return {
+          name: folder.name,
+          path: folder.uri.fsPath
+        };
+      }
+    }
 
     // Fallback: use currently active file's directory
     const activeEditor = vscode.window.activeTextEditor;
@@ -923,18 +2480,92 @@ export class TimeTracker {
       trackBackground: config.get('trackBackground', true),
       autoEndSessionAfterIdle: config.get('autoEndSessionAfterIdle', true),
       autoEndIdleThreshold: config.get('autoEndIdleThreshold', 30),
-      autoEndSessionOnProjectChange: config.get('autoEndSessionOnProjectChange', true)
+      autoEndSessionOnProjectChange: config.get('autoEndSessionOnProjectChange', true),
+      idleReturnPrompt: config.get('idleReturnPrompt', true),
+      storageBackend: config.get('storageBackend', 'file'),
+      backupRetentionDays: config.get('backupRetentionDays', 7),
+      backupRetentionWeeks: config.get('backupRetentionWeeks', 4),
+      archiveAfterDays: config.get('archiveAfterDays', 180),
+      ticketPattern: config.get('ticketPattern', '[A-Z][A-Z0-9]+-\\d+'),
+      pomodoroWork: config.get('pomodoroWork', 25),
+      pomodoroShortBreak: config.get('pomodoroShortBreak', 5),
+      pomodoroLongBreak: config.get('pomodoroLongBreak', 15),
+      pomodoroLongBreakInterval: config.get('pomodoroLongBreakInterval', 4),
+      workingTimeWarnings: config.get('workingTimeWarnings', true),
+      breakRuleHours: config.get('breakRuleHours', 6),
+      breakRuleMinutes: config.get('breakRuleMinutes', 30),
+      extendedBreakRuleHours: config.get('extendedBreakRuleHours', 9),
+      extendedBreakRuleMinutes: config.get('extendedBreakRuleMinutes', 45),
+      maxDailyWorkHours: config.get('maxDailyWorkHours', 10),
+      dailyGoalHours: config.get('dailyGoalHours', 0),
+      weeklyGoalHours: config.get('weeklyGoalHours', 0),
+      projectGoals: config.get('projectGoals', {}),
+      dayStartsAt: config.get('dayStartsAt', '00:00'),
+      reportTimeZone: config.get('reportTimeZone', 'recorded')
     };
   }
 
+  /**
+   * Make all day bucketing follow the `dayStartsAt` setting
+   */
+  private applyDayStart(): void {
+    const dayStart = parseTimeOfDayInput(this.config.dayStartsAt);
+    if (dayStart === undefined) {
+      vscode.window.showWarningMessage(
+        `The day start "${this.config.dayStartsAt}" is not a valid time (HH:MM). Days start at midnight.`
+      );
+    }
+    setDayStart((dayStart ?? 0) / (60 * 1000));
+  }
+
   /**
    * Handle configuration changes
    */
   private onConfigurationChanged(event: vscode.ConfigurationChangeEvent): void {
     if (event.affectsConfiguration('o3-time-tracker')) {
       const newConfig = this.loadConfiguration();
+      
+      if (newConfig.storageBackend !== this.config.storageBackend) {
+        // The backend in use keeps running; data is converted on the next start
+        newConfig.storageBackend = this.config.storageBackend;
+        vscode.window.showInformationMessage(
+          'The storage backend change takes effect after reloading the window.',
+          'Reload Window'
+        ).then(choice => {
+          if (choice === 'Reload Window') {
+            vscode.commands.executeCommand('workbench.action.reloadWindow');
+          }
+        });
+      }
+      
+      if (newConfig.archiveAfterDays !== this.config.archiveAfterDays) {
+        // Apply the new age on the next auto-save
+        this.lastArchiveDay = undefined;
+      }
+      
+      if (newConfig.ticketPattern !== this.config.ticketPattern && !isValidTicketPattern(newConfig.ticketPattern)) {
+        vscode.window.showWarningMessage(
+          `The ticket pattern "${newConfig.ticketPattern}" is not a valid regular expression. No ticket keys are extracted.`
+        );
+      }
+      
+      const dayStartChanged = newConfig.dayStartsAt !== this.config.dayStartsAt;
+      const reportTimeZoneChanged = newConfig.reportTimeZone !== this.config.reportTimeZone;
       this.config = newConfig;
       this.activityMonitor.updateConfig(newConfig);
+      this.pomodoro?.updateDurations(this.getPomodoroDurations());
+      if (dayStartChanged) {
+        this.applyDayStart();
+        if (this.trackingData.currentSession) {
+          // The running session keeps the day it started on; it is split at the next boundary
+          this.lastSessionDay = formatDayLabel(this.trackingData.currentSession.startTime);
+        }
+        this.updateViews();
+      }
+      if (reportTimeZoneChanged) {
+        setReportTimeZone(newConfig.reportTimeZone);
+        this.updateViews();
+      }
       
       this.logger.info('Configuration updated');
     }
@@ -952,6 +2583,9 @@ export class TimeTracker {
     if (!this.isRunning) {
       this.statusBarItem.text = '⏱ Stopped';
       this.statusBarItem.tooltip = 'Time Tracker is stopped. Click to start.';
+    } else if (this.isPaused && this.pausedForBreak && this.pomodoro?.isBreak) {
+      this.statusBarItem.text = `☕ ${formatCountdown(this.pomodoro.remainingTime)}`;
+      this.statusBarItem.tooltip = `Pomodoro-Pause - das Tracking läuft danach weiter. ${this.getTodayPomodoroCount()} 🍅 heute`;
     } else if (this.isPaused) {
       this.statusBarItem.text = '⏸ Paused';
       this.statusBarItem.tooltip = 'Time Tracker is paused. Click to resume.';
@@ -961,6 +2595,21 @@ export class TimeTracker {
       const time = formatStatusBarTime(todayProjectTime);
       this.statusBarItem.text = `⏱ ${time}`;
       this.statusBarItem.tooltip = `Heutige Arbeitszeit für ${this.trackingData.currentSession.projectName}: ${formatDetailedTime(todayProjectTime)}`;
+
+      // With a daily goal, show progress towards it: the project's own goal, else the global one
+      const projectGoal = this.config.projectGoals[this.trackingData.currentSession.projectName]?.daily ?? 0;
+      if (projectGoal > 0) {
+        this.statusBarItem.text = `⏱ ${formatGoalProgress(todayProjectTime, projectGoal)}`;
+        this.statusBarItem.tooltip += `\nTagesziel des Projekts: ${formatGoalPercent(todayProjectTime, projectGoal)}`;
+      } else if (this.config.dailyGoalHours > 0) {
+        const todayTime = this.getTrackedTime(getTodayStart(), new Date());
+        this.statusBarItem.text = `⏱ ${formatGoalProgress(todayTime, this.config.dailyGoalHours)}`;
+        this.statusBarItem.tooltip += `\nTagesziel (alle Projekte): ${formatGoalProgress(todayTime, this.config.dailyGoalHours)} - ${formatGoalPercent(todayTime, this.config.dailyGoalHours)}`;
+      }
+      if (this.pomodoro && !this.pomodoro.isBreak) {
+        this.statusBarItem.text += ` 🍅 ${formatCountdown(this.pomodoro.remainingTime)}`;
+        this.statusBarItem.tooltip += `\nPomodoro: noch ${formatCountdown(this.pomodoro.remainingTime)} aktive Arbeit - ${this.getTodayPomodoroCount()} 🍅 heute`;
+      }
     } else {
       this.statusBarItem.text = '⏱ Ready';
       this.statusBarItem.tooltip = 'Time Tracker is ready. Start working to begin tracking.';
@@ -977,15 +2626,55 @@ export class TimeTracker {
     
     if (this.saveCounter >= 1) { // Save every interval
       try {
+        await this.archiveOldSessions();
         await this.storage.save(this.trackingData);
         this.saveCounter = 0;
         this.logger.debug('Auto-save completed');
+        
+        await this.publishToSyncFolder();
+        
+        await this.backupManager.createScheduledSnapshots(this.trackingData, {
+          days: this.config.backupRetentionDays,
+          weeks: this.config.backupRetentionWeeks
+        });
       } catch (error) {
         this.logger.error('Auto-save failed', error as Error);
       }
     }
   }
 
+  /**
+   * Share this workspace's data with other devices through the sync folder, if one is configured
+   */
+  private async publishToSyncFolder(force = false): Promise<void> {
+    if (this.deviceSync.isEnabled) {
+      await this.deviceSync.publish(this.trackingData, path.basename(getWorkspaceStorageDir(this.context)), force);
+    }
+  }
+
+  /**
+   * Move sessions older than the configured age into the monthly archive, once per day
+   */
+  private async archiveOldSessions(): Promise<void> {
+    const today = getDayKey(new Date());
+    if (this.lastArchiveDay === today) {
+      return;
+    }
+    this.lastArchiveDay = today;
+
+    try {
+      const removed = await this.sessionArchive.archiveOldSessions(this.trackingData, this.config.archiveAfterDays);
+      if (removed > 0) {
+        // Older states still contain the archived sessions
+        await this.undoHistory.clear();
+        this.updateViews();
+      }
+    } catch (error) {
+      // Sessions stay in the main data and are archived on a later attempt
+      this.logger.error('Failed to archive old sessions', error as Error);
+    }
+  }
+
   /**
    * Add session to project statistics
    */
@@ -1001,7 +2690,8 @@ export class TimeTracker {
         lastActivity: session.startTime,
         firstSession: session.startTime,
         averageSessionDuration: 0,
-        activeDays: 1
+        activeDays: 1,
+        dailyRollups: []
       };
       this.trackingData.projects.set(session.projectPath, projectStats);
     }
@@ -1014,22 +2704,7 @@ export class TimeTracker {
    * Recalculate project statistics
    */
   private recalculateProjectStats(projectStats: ProjectStats): void {
-    const sessions = projectStats.sessions.filter(s => s.endTime); // Only completed sessions
-    
-    projectStats.totalTime = sessions.reduce((total, session) => total + session.totalTime, 0);
-    projectStats.averageSessionDuration = sessions.length > 0 
-      ? projectStats.totalTime / sessions.length 
-      : 0;
-    
-    // Calculate active days
-    const uniqueDays = new Set(sessions.map(s => formatDate(s.startTime)));
-    projectStats.activeDays = uniqueDays.size;
-    
-    // Update last activity
-    const lastSession = sessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())[0];
-    if (lastSession) {
-      projectStats.lastActivity = lastSession.lastActivity;
-    }
+    recalculateProjectStats(projectStats);
   }
 
   /**
@@ -1053,12 +2728,19 @@ export class TimeTracker {
   private shouldResumeSession(session: TimeSession): boolean {
     const timeSinceLastActivity = Date.now() - session.lastActivity.getTime();
     const resumeThreshold = 30 * 60 * 1000; // 30 minutes
+
+    // A session recorded on another branch belongs to another ticket
+    const branch = this.gitBranches.getBranch(session.projectPath);
+    const sameBranch = !session.branch || !branch || session.branch === branch;
+
+    // After travelling, work in the new time zone starts a new session
+    const sameZone = !session.timeZone || session.timeZone === getCurrentTimeZone();
     
-    return timeSinceLastActivity < resumeThreshold;
+    return timeSinceLastActivity < resumeThreshold && sameBranch && sameZone;
   }
 
   /**
-   * Check if midnight has crossed and handle session splitting
+   * Check if the day boundary has been crossed and handle session splitting
    */
   private async checkAndHandleMidnightCrossing(): Promise<void> {
     if (!this.trackingData.currentSession) {
@@ -1066,7 +2748,7 @@ export class TimeTracker {
     }
 
     const now = new Date();
-    const currentDay = now.toLocaleDateString('de-DE');
+    const currentDay = formatDayLabel(now);
     
     // If the day has changed since the session started, we need to split the session
     if (this.lastSessionDay && this.lastSessionDay !== currentDay) {
@@ -1076,7 +2758,7 @@ export class TimeTracker {
   }
 
   /**
-   * Split the current session at midnight
+   * Split the current session at the day boundary (midnight or the configured day start)
    */
   private async splitSessionAtMidnight(): Promise<void> {
     if (!this.trackingData.currentSession) {
@@ -1086,19 +2768,16 @@ export class TimeTracker {
     const currentSession = this.trackingData.currentSession;
     const now = new Date();
     
-    // Create the end of yesterday (23:59:59.999)
-    const endOfYesterday = new Date(now);
-    endOfYesterday.setHours(0, 0, 0, 0); // Start of today
-    endOfYesterday.setTime(endOfYesterday.getTime() - 1); // Subtract 1ms to get end of yesterday
+    // Create the end of yesterday (1ms before the day boundary)
+    const endOfYesterday = new Date(getDayBoundary(getTrackingDay(now)).getTime() - 1);
 
     // End the current session at end of yesterday
     currentSession.endTime = endOfYesterday;
     currentSession.isActive = false;
 
-    // Add any remaining active time up to midnight
+    // Add any remaining active time up to the day boundary
     if (this.activityMonitor.isActive() && currentSession.lastActiveTime < endOfYesterday) {
-      const remainingActiveTime = endOfYesterday.getTime() - currentSession.lastActiveTime.getTime();
-      currentSession.totalTime += remainingActiveTime;
+      this.countActiveTime(currentSession, currentSession.lastActiveTime, endOfYesterday);
     }
 
     // Update project stats for the ended session
@@ -1124,8 +2803,10 @@ export class TimeTracker {
       lastActivity: now,
       lastActiveTime: now, // Consistent with startTime
       textChanges: 0,
-      cursorMovements: 0
+      cursorMovements: 0,
+      ...getRecordedZone(now)
     };
+    this.applyBranch(newSession);
 
     // Clear the current session first
     delete this.trackingData.currentSession;
@@ -1156,8 +2837,200 @@ export class TimeTracker {
     
     const timeSinceLastActivity = now.getTime() - this.trackingData.currentSession.lastActiveTime.getTime();
     if (timeSinceLastActivity > idleThreshold) {
+      // Remembered so the absence can still be counted when the user returns
+      this.endedIdleStretch = { sessionId: this.trackingData.currentSession.id, start: new Date(this.trackingData.currentSession.lastActiveTime) };
+      const before = captureUndoState(this.trackingData);
       await this.endCurrentSession();
+      await this.undoHistory.push('Session nach Inaktivität beendet', before, this.trackingData);
+    }
+  }
+
+  /**
+   * The time since the current session was last active, or since the session that was
+   * ended for inactivity was last active, if the user is returning from an absence
+   */
+  private getIdleStretch(): IdleStretch | undefined {
+    const session = this.trackingData.currentSession;
+    if (!this.config.idleReturnPrompt) {
+      this.endedIdleStretch = undefined;
+      return undefined;
+    }
+    if (this.idlePromptOpen) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const ended = this.endedIdleStretch;
+    if (ended && ended.sessionId !== session?.id) {
+      this.endedIdleStretch = undefined;
+      const found = findSession(this.trackingData, ended.sessionId);
+      // A session started in the meantime, e.g. by hand, ends the absence
+      const end = session && session.startTime > ended.start && session.startTime < now ? new Date(session.startTime) : now;
+      if (!found || end.getTime() - ended.start.getTime() < MIN_IDLE_STRETCH) {
+        return undefined;
+      }
+      return { sessionId: ended.sessionId, start: ended.start, end, sessionTimeAtReturn: found.session.totalTime };
+    }
+    this.endedIdleStretch = undefined;
+
+    if (!session) {
+      return undefined;
+    }
+    if (now.getTime() - session.lastActiveTime.getTime() < MIN_IDLE_STRETCH) {
+      return undefined;
+    }
+    return { sessionId: session.id, start: new Date(session.lastActiveTime), end: now, sessionTimeAtReturn: session.totalTime };
+  }
+
+  /**
+   * Ask how to count an absence without blocking tracking. Dismissing the notification discards it.
+   */
+  private offerIdleReconciliation(stretch: IdleStretch): void {
+    const duration = stretch.end.getTime() - stretch.start.getTime();
+    const away = formatTime(duration, { showSeconds: false, shortFormat: true, alwaysShowHours: false });
+    const actions = {
+      discard: 'Verwerfen',
+      keep: 'In dieser Session behalten',
+      assign: 'Anderem Projekt zuordnen',
+      manual: 'Als manuellen Eintrag erfassen'
+    };
+
+    this.idlePromptOpen = true;
+    vscode.window.showInformationMessage(
+      `Sie waren ${away} abwesend (${formatClockTime(stretch.start)}-${formatClockTime(stretch.end)})`,
+      actions.discard,
+      actions.keep,
+      actions.assign,
+      actions.manual
+    ).then(async choice => {
+      this.idlePromptOpen = false;
+      try {
+        if (choice === actions.keep) {
+          await this.keepIdleStretch(stretch);
+        } else if (choice === actions.assign || choice === actions.manual) {
+          await this.logIdleStretch(stretch, choice === actions.manual);
+        } else {
+          this.logger.info('Idle time discarded', { duration: formatDetailedTime(duration) });
+        }
+      } catch (error) {
+        this.logger.error('Failed to apply idle time', error as Error);
+        vscode.window.showErrorMessage('Failed to apply idle time');
+      }
+    });
+  }
+
+  /**
+   * Count an absence as active time of the session it interrupted
+   */
+  private async keepIdleStretch(stretch: IdleStretch): Promise<void> {
+    const found = findSession(this.trackingData, stretch.sessionId);
+    if (!found) {
+      vscode.window.showWarningMessage('Session nicht gefunden');
+      return;
+    }
+
+    const before = captureUndoState(this.trackingData);
+    const duration = stretch.end.getTime() - stretch.start.getTime();
+    found.session.totalTime += duration;
+    found.session.activeSegments = normalizeSegments([...getActiveSegments(found.session), { start: stretch.start, end: stretch.end }]);
+    if (found.session.endTime) {
+      // The session was ended for inactivity: it now lasts until the return
+      if (found.session.endTime < stretch.end) {
+        found.session.endTime = new Date(stretch.end);
+      }
+      found.session.lastActivity = new Date(stretch.end);
+      found.session.lastActiveTime = new Date(stretch.end);
+    }
+    this.recalculateProjectStats(found.project);
+    await this.undoHistory.push('Abwesenheit behalten', before, this.trackingData);
+    await this.storage.save(this.trackingData);
+    this.updateStatusBar();
+    this.updateViews();
+
+    this.logger.info('Idle time kept in session', { duration: formatDetailedTime(duration), projectName: found.session.projectName });
+  }
+
+  /**
+   * Record an absence as a manual session of its own, in another project or with a note.
+   * The interrupted session is split around it so the sessions do not overlap.
+   * @param withNote Log it in the session's own project, with a required note
+   */
+  private async logIdleStretch(stretch: IdleStretch, withNote: boolean): Promise<void> {
+    const found = findSession(this.trackingData, stretch.sessionId);
+    if (!found) {
+      vscode.window.showWarningMessage('Session nicht gefunden');
+      return;
+    }
+
+    const target = withNote
+      ? { path: found.project.projectPath, name: found.project.projectName }
+      : await this.pickProject('Abwesenheit zuordnen', found.project.projectPath);
+    if (!target) {
+      return;
+    }
+    const note = await vscode.window.showInputBox({
+      title: 'Abwesenheit erfassen',
+      prompt: withNote ? 'Notiz' : 'Notiz (optional)',
+      placeHolder: 'z.B. Besprechung am Whiteboard',
+      validateInput: value => withNote && !value.trim() ? 'Bitte eine Notiz eingeben' : undefined
+    });
+    if (note === undefined) {
+      return;
+    }
+
+    // The running session is split around the absence. A session that was ended for
+    // inactivity just ends where the absence began; one that was worked in after the
+    // return and ended since can no longer be split.
+    const { session } = found;
+    const running = this.trackingData.currentSession?.id === stretch.sessionId;
+    if (!running && (!session.endTime || session.lastActiveTime > stretch.start)) {
+      vscode.window.showWarningMessage('Die Session ist inzwischen beendet - bitte die Abwesenheit als manuellen Eintrag nachtragen');
+      return;
+    }
+
+    const before = captureUndoState(this.trackingData);
+    if (running) {
+      const continued = splitAroundIdleStretch(session, stretch, this.generateSessionId());
+      if (continued) {
+        this.applyBranch(continued);
+        this.trackingData.currentSession = continued;
+        this.addSessionToProject(continued);
+      }
+    } else {
+      session.endTime = new Date(stretch.start);
+      if (session.activeSegments) {
+        session.activeSegments = clipSegments(session.activeSegments, session.startTime, stretch.start);
+      }
+      this.recalculateProjectStats(found.project);
+    }
+
+    const absence: TimeSession = {
+      id: this.generateSessionId(),
+      projectName: target.name,
+      projectPath: target.path,
+      startTime: new Date(stretch.start),
+      endTime: new Date(stretch.end),
+      totalTime: stretch.end.getTime() - stretch.start.getTime(),
+      isActive: false,
+      lastActivity: new Date(stretch.end),
+      lastActiveTime: new Date(stretch.end),
+      textChanges: 0,
+      cursorMovements: 0,
+      manual: true,
+      ...getRecordedZone(stretch.start)
+    };
+    if (note.trim()) {
+      absence.note = note.trim();
     }
+    this.addSessionToProject(absence);
+    await this.undoHistory.push('Abwesenheit erfasst', before, this.trackingData);
+
+    await this.storage.save(this.trackingData);
+    this.updateStatusBar();
+    this.updateViews();
+
+    this.logger.info('Idle time logged as manual session', { projectName: target.name, totalTime: absence.totalTime });
+    vscode.window.showInformationMessage(`Abwesenheit erfasst: ${target.name}, ${formatDetailedTime(absence.totalTime)}`);
   }
 
   /**
@@ -1192,4 +3065,51 @@ export class TimeTracker {
       await this.startOrResumeSession();
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Check for a branch change in the current session's repository and switch sessions if needed
+   */
+  private async checkAndHandleBranchChange(): Promise<void> {
+    const session = this.trackingData.currentSession;
+    if (!session) {
+      return;
+    }
+
+    // Unknown branch (no git, detached HEAD): keep the session as it is
+    const branch = this.gitBranches.getBranch(session.projectPath);
+    if (!branch || branch === session.branch) {
+      return;
+    }
+
+    // The git extension may have finished loading after the session started
+    if (!session.branch) {
+      this.applyBranch(session);
+      return;
+    }
+
+    this.logger.info('Branch change detected', {
+      projectName: session.projectName,
+      oldBranch: session.branch,
+      newBranch: branch
+    });
+
+    await this.endCurrentSession();
+    await this.startOrResumeSession();
+  }
+
+  /**
+   * Record the checked out branch and its ticket key on a session
+   */
+  private applyBranch(session: TimeSession): void {
+    const branch = this.gitBranches.getBranch(session.projectPath);
+    if (!branch) {
+      return;
+    }
+
+    session.branch = branch;
+    const ticket = extractTicketKey(branch, this.config.ticketPattern);
+    if (ticket) {
+      session.ticket = ticket;
+    }
+  }
+}
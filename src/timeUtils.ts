@@ -2,7 +2,8 @@
  * Utility functions for time formatting and calculations
  */
 
-import { TimeFormatOptions, TimeFormatter, DurationCalculator } from './types';
+import { TimeFormatOptions, TimeFormatter, DurationCalculator, RecordedZone, ReportTimeZone, TimeSession } from './types';
+import { getSegmentShareInRange } from './activeSegments';
 
 /**
  * Format milliseconds to human-readable time string
@@ -99,17 +100,266 @@ export const formatDate = (date: Date): string => {
   return date.toISOString().split('T')[0] ?? '';
 };
 
+/**
+ * Minutes after midnight at which a tracking day begins (setting `dayStartsAt`)
+ */
+let dayStartMinutes = 0;
+
+/**
+ * Set when a tracking day begins, e.g. 240 for 04:00. Work before that time counts for the previous day.
+ */
+export const setDayStart = (minutes: number): void => {
+  dayStartMinutes = minutes;
+};
+
+/**
+ * Whether reports use the recorded time zone of sessions (setting `reportTimeZone`)
+ */
+let reportTimeZone: ReportTimeZone = 'recorded';
+
+export const setReportTimeZone = (mode: ReportTimeZone): void => {
+  reportTimeZone = mode;
+};
+
+let currentTimeZone: string | undefined;
+
+/**
+ * IANA time zone the editor runs in. The runtime keeps its zone for the lifetime of the process.
+ */
+export const getCurrentTimeZone = (): string => {
+  currentTimeZone ??= Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return currentTimeZone;
+};
+
+/**
+ * The zone a new session is recorded in, with the UTC offset at its start
+ */
+export const getRecordedZone = (start: Date): Required<RecordedZone> => ({
+  timeZone: getCurrentTimeZone(),
+  utcOffset: -start.getTimezoneOffset()
+});
+
+/**
+ * Format a UTC offset in minutes, e.g. "UTC+02:00"
+ */
+export const formatUtcOffset = (offset: number): string => {
+  const hours = Math.floor(Math.abs(offset) / 60).toString().padStart(2, '0');
+  const minutes = (Math.abs(offset) % 60).toString().padStart(2, '0');
+  return `UTC${offset < 0 ? '-' : '+'}${hours}:${minutes}`;
+};
+
+/**
+ * The recorded zone of a session if it differs from the current one, e.g. "America/New_York (UTC-04:00)"
+ */
+export const formatRecordedZone = (recordedIn: RecordedZone): string | undefined => {
+  if (!recordedIn.timeZone || recordedIn.timeZone === getCurrentTimeZone()) {
+    return undefined;
+  }
+  return recordedIn.utcOffset !== undefined
+    ? `${recordedIn.timeZone} (${formatUtcOffset(recordedIn.utcOffset)})`
+    : recordedIn.timeZone;
+};
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat | undefined>();
+
+const getZoneFormatter = (timeZone: string): Intl.DateTimeFormat | undefined => {
+  if (!zoneFormatters.has(timeZone)) {
+    try {
+      zoneFormatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23'
+      }));
+    } catch (error) {
+      // A zone this runtime does not know - the recorded UTC offset is used instead
+      zoneFormatters.set(timeZone, undefined);
+    }
+  }
+  return zoneFormatters.get(timeZone);
+};
+
+/**
+ * Calendar date and minutes since midnight of a timestamp, in a recorded zone or the current one.
+ * The IANA zone follows daylight saving changes; the fixed offset is only a fallback.
+ */
+const getWallClock = (date: Date, recordedIn?: RecordedZone): { year: number; month: number; day: number; minutes: number } => {
+  const formatter = recordedIn?.timeZone && recordedIn.timeZone !== getCurrentTimeZone()
+    ? getZoneFormatter(recordedIn.timeZone)
+    : undefined;
+  if (formatter) {
+    const parts = formatter.formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    return { year: part('year'), month: part('month') - 1, day: part('day'), minutes: part('hour') * 60 + part('minute') };
+  }
+  if (recordedIn?.utcOffset !== undefined && recordedIn.utcOffset !== -date.getTimezoneOffset()) {
+    const shifted = new Date(date.getTime() + recordedIn.utcOffset * 60 * 1000);
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth(),
+      day: shifted.getUTCDate(),
+      minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes()
+    };
+  }
+  return { year: date.getFullYear(), month: date.getMonth(), day: date.getDate(), minutes: date.getHours() * 60 + date.getMinutes() };
+};
+
+/**
+ * UTC offset in minutes of a recorded zone at a timestamp, following daylight saving changes
+ */
+export const getUtcOffsetAt = (date: Date, recordedIn: RecordedZone): number | undefined => {
+  if (!recordedIn.timeZone) {
+    return recordedIn.utcOffset;
+  }
+  const { year, month, day, minutes } = getWallClock(date, recordedIn);
+  return Math.round((Date.UTC(year, month, day, 0, minutes) - date.getTime()) / (60 * 1000));
+};
+
+/**
+ * The zone reports use for a session: its recorded zone, unless reports use the current zone
+ */
+const inReportZone = (recordedIn?: RecordedZone): RecordedZone | undefined => {
+  return reportTimeZone === 'recorded' ? recordedIn : undefined;
+};
+
+const toTrackingDay = (wallClock: { year: number; month: number; day: number; minutes: number }): Date => {
+  const day = wallClock.minutes < dayStartMinutes ? wallClock.day - 1 : wallClock.day;
+  return new Date(wallClock.year, wallClock.month, day);
+};
+
+const toDayKey = (trackingDay: Date): string => {
+  const month = (trackingDay.getMonth() + 1).toString().padStart(2, '0');
+  const day = trackingDay.getDate().toString().padStart(2, '0');
+  return `${trackingDay.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Local midnight of the calendar day a timestamp is counted for, taking the day start into account
+ * @param recordedIn Zone of the session the timestamp belongs to, used when reports show sessions as recorded
+ */
+export const getTrackingDay = (date: Date, recordedIn?: RecordedZone): Date => {
+  return toTrackingDay(getWallClock(date, inReportZone(recordedIn)));
+};
+
+/**
+ * The moment a tracking day begins
+ * @param day Any time on the calendar day
+ */
+export const getDayBoundary = (day: Date): Date => {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, dayStartMinutes);
+};
+
+/**
+ * A time of day on a tracking day. Times before the day start belong to the night after it.
+ * @param day Local midnight of the tracking day
+ * @param timeOfDay Milliseconds since midnight
+ */
+export const getTimeOnTrackingDay = (day: Date, timeOfDay: number): Date => {
+  const nextDay = timeOfDay < dayStartMinutes * 60 * 1000 ? 1 : 0;
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + nextDay, 0, 0, 0, timeOfDay);
+};
+
+/**
+ * Get the local calendar day (YYYY-MM-DD) a timestamp is counted for in date ranges
+ */
+export const getDayKey = (date: Date, recordedIn?: RecordedZone): string => {
+  return toDayKey(getTrackingDay(date, recordedIn));
+};
+
+/**
+ * Day key in the recorded zone regardless of the report setting, for data that is stored
+ */
+export const getRecordedDayKey = (date: Date, recordedIn: RecordedZone): string => {
+  return toDayKey(toTrackingDay(getWallClock(date, recordedIn)));
+};
+
+/**
+ * Month (YYYY-MM) a session is archived under
+ * @param recordedIn Zone the session was recorded in
+ */
+export const getArchiveMonth = (date: Date, recordedIn: RecordedZone = {}): string => getRecordedDayKey(date, recordedIn).slice(0, 7);
+
+/**
+ * The day a timestamp is counted for, formatted for display (DD.MM.YYYY)
+ */
+export const formatDayLabel = (date: Date, recordedIn?: RecordedZone): string => {
+  return getTrackingDay(date, recordedIn).toLocaleDateString('de-DE');
+};
+
+/**
+ * Time of day of a session timestamp as HH:MM, in the zone reports use for the session
+ */
+export const formatClockTime = (date: Date, recordedIn?: RecordedZone): string => {
+  const { minutes } = getWallClock(date, inReportZone(recordedIn));
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Parse a date typed by the user (TT.MM.JJJJ or YYYY-MM-DD)
+ * @returns Local midnight of that day, or undefined if the input is not a valid date
+ */
+export const parseDateInput = (input: string): Date | undefined => {
+  const trimmed = input.trim();
+  const german = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(trimmed);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+  const [year, month, day] = german
+    ? [Number(german[3]), Number(german[2]), Number(german[1])]
+    : iso ? [Number(iso[1]), Number(iso[2]), Number(iso[3])] : [NaN, NaN, NaN];
+
+  const date = new Date(year, month - 1, day);
+  if (isNaN(date.getTime()) || date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return undefined;
+  }
+  return date;
+};
+
+/**
+ * Parse a time of day (HH:MM) typed by the user
+ * @returns Milliseconds since midnight, or undefined if the input is not a valid time
+ */
+export const parseTimeOfDayInput = (input: string): number | undefined => {
+  const match = /^(\d{1,2})[:.](\d{2})$/.exec(input.trim());
+  if (!match) {
+    return undefined;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+  return (hours * 60 + minutes) * 60 * 1000;
+};
+
+/**
+ * Parse a duration typed by the user ("1h 30m", "45m", "2h", "1:30")
+ * @returns Milliseconds, or undefined if the input is not a valid duration
+ */
+export const parseDurationInput = (input: string): number | undefined => {
+  const trimmed = input.trim().toLowerCase();
+  const clock = /^(\d+):(\d{2})$/.exec(trimmed);
+  if (clock) {
+    const minutes = Number(clock[2]);
+    return minutes > 59 ? undefined : (Number(clock[1]) * 60 + minutes) * 60 * 1000;
+  }
+
+  const units = /^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/.exec(trimmed);
+  if (!units || (units[1] === undefined && units[2] === undefined)) {
+    return undefined;
+  }
+  return (Number(units[1] ?? 0) * 60 + Number(units[2] ?? 0)) * 60 * 1000;
+};
+
 /**
  * Get the start of the current week (Monday)
  */
 export const getCurrentWeekStart = (): Date => {
-  const now = new Date();
-  const day = now.getDay();
+  const today = getTrackingDay(new Date());
+  const day = today.getDay();
   const diff = day === 0 ? -6 : 1 - day; // Monday as first day of week
-  const weekStart = new Date(now);
-  weekStart.setDate(now.getDate() + diff);
-  weekStart.setHours(0, 0, 0, 0);
-  return weekStart;
+  return getDayBoundary(new Date(today.getFullYear(), today.getMonth(), today.getDate() + diff));
 };
 
 /**
@@ -117,48 +367,41 @@ export const getCurrentWeekStart = (): Date => {
  */
 export const getCurrentWeekEnd = (): Date => {
   const weekStart = getCurrentWeekStart();
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6);
-  weekEnd.setHours(23, 59, 59, 999);
-  return weekEnd;
+  const nextWeek = getDayBoundary(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 7));
+  return new Date(nextWeek.getTime() - 1);
 };
 
 /**
  * Get the start of the current month
  */
 export const getCurrentMonthStart = (): Date => {
-  const now = new Date();
-  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-  monthStart.setHours(0, 0, 0, 0);
-  return monthStart;
+  const today = getTrackingDay(new Date());
+  return getDayBoundary(new Date(today.getFullYear(), today.getMonth(), 1));
 };
 
 /**
  * Get the end of the current month
  */
 export const getCurrentMonthEnd = (): Date => {
-  const now = new Date();
-  const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-  monthEnd.setHours(23, 59, 59, 999);
-  return monthEnd;
+  const today = getTrackingDay(new Date());
+  const nextMonth = getDayBoundary(new Date(today.getFullYear(), today.getMonth() + 1, 1));
+  return new Date(nextMonth.getTime() - 1);
 };
 
 /**
  * Get the start of today
  */
 export const getTodayStart = (): Date => {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  return today;
+  return getDayBoundary(getTrackingDay(new Date()));
 };
 
 /**
  * Get the end of today
  */
 export const getTodayEnd = (): Date => {
-  const today = new Date();
-  today.setHours(23, 59, 59, 999);
-  return today;
+  const today = getTrackingDay(new Date());
+  const tomorrow = getDayBoundary(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1));
+  return new Date(tomorrow.getTime() - 1);
 };
 
 /**
@@ -167,24 +410,35 @@ export const getTodayEnd = (): Date => {
  * @param sessionTotalTime Total active time in the session (in milliseconds)
  * @param rangeStart Range start time
  * @param rangeEnd Range end time
+ * @param session The session itself, for its recorded zone and active segments
  * @returns The amount of time (in milliseconds) that should be counted for this range
  */
 export const calculateSessionTimeInRange = (
   sessionStart: Date,
   sessionTotalTime: number,
   rangeStart: Date,
-  rangeEnd: Date
+  rangeEnd: Date,
+  session?: Pick<TimeSession, 'timeZone' | 'utcOffset' | 'activeSegments'>
 ): number => {
-  // Since sessions automatically split at midnight, each session belongs to a single day.
-  // Use ISO date string comparison for more reliable day-based filtering
+  // Active segments tell exactly when the time was worked, e.g. for a session recorded in another
+  // zone that crosses a day boundary of this one. In the "as recorded" view such a session
+  // counts for the day it was recorded on instead.
+  const zone = inReportZone(session);
+  if (!zone?.timeZone || zone.timeZone === getCurrentTimeZone()) {
+    const share = getSegmentShareInRange(session?.activeSegments, rangeStart, new Date(rangeEnd.getTime() + 1));
+    if (share !== undefined) {
+      return Math.round(sessionTotalTime * share);
+    }
+  }
+
+  // Since sessions automatically split at the day boundary, each session belongs to a single day.
+  // Compare the tracking days (YYYY-MM-DD keys sort like dates)
   
-  const sessionDate = new Date(sessionStart.getFullYear(), sessionStart.getMonth(), sessionStart.getDate());
-  const rangeStartDate = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), rangeStart.getDate());
-  const rangeEndDate = new Date(rangeEnd.getFullYear(), rangeEnd.getMonth(), rangeEnd.getDate());
+  const sessionDay = getDayKey(sessionStart, session);
   
-  // For sessions within a single day (which they should be after midnight splitting),
-  // we just need to check if the session date falls within the range dates
-  if (sessionDate >= rangeStartDate && sessionDate <= rangeEndDate) {
+  // For sessions within a single day (which they should be after splitting),
+  // we just need to check if the session day falls within the range days
+  if (sessionDay >= getDayKey(rangeStart) && sessionDay <= getDayKey(rangeEnd)) {
     return sessionTotalTime;
   }
   
@@ -4,7 +4,23 @@
 
 import * as vscode from 'vscode';
 import { TrackingData, TimeSession } from './types';
-import { formatDetailedTime } from './timeUtils';
+import { formatDetailedTime, formatDayLabel, formatClockTime, formatRecordedZone } from './timeUtils';
+import { getIdleGaps } from './activeSegments';
+import { countProjectSessions } from './projectStats';
+import { formatTags } from './sessionTags';
+import { NO_TICKET, groupSessionsByTicket } from './gitBranches';
+import { countPomodoros } from './pomodoro';
+import { formatGoalProgress, formatGoalPercent } from './workGoals';
+import { groupSessionsByLanguage, formatLanguageName, formatShare } from './fileTimes';
+
+/** Icon of sessions entered by hand */
+const MANUAL_SESSION_ICON = new vscode.ThemeIcon('person', new vscode.ThemeColor('charts.purple'));
+
+/** Active segments listed in a session tooltip */
+const MAX_TOOLTIP_SEGMENTS = 6;
+
+/** Files listed under a language */
+const MAX_LANGUAGE_FILES = 25;
 
 export class TimeViewItem extends vscode.TreeItem {
   constructor(
@@ -13,7 +29,10 @@ export class TimeViewItem extends vscode.TreeItem {
     public readonly itemType: string,
     tooltip?: string,
     description?: string,
-    iconPath?: vscode.ThemeIcon
+    iconPath?: vscode.ThemeIcon,
+    public readonly sessionId?: string,  // Für Session-Einträge
+    public readonly projectPath?: string,  // Für Projekt-Einträge
+    public readonly languageId?: string  // Für Sprach-Einträge
   ) {
     super(label, collapsibleState);
     if (tooltip) {
@@ -93,9 +112,10 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
         'Aktuelle Session',
         vscode.TreeItemCollapsibleState.Expanded,
         'current-session',
-        `${this.trackingData.currentSession.projectName} - ${formatDetailedTime(sessionTime)}`,
+        this.getSessionTooltip(this.trackingData.currentSession, this.trackingData.currentSession.projectName),
         `${startTime} - ${formatDetailedTime(sessionTime)}`,
-        new vscode.ThemeIcon('play-circle', new vscode.ThemeColor('charts.green'))
+        new vscode.ThemeIcon('play-circle', new vscode.ThemeColor('charts.green')),
+        this.trackingData.currentSession.id
       ));
     } else {
       items.push(new TimeViewItem(
@@ -111,13 +131,22 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
     // Today's Summary
     const todayTime = this.getTodayTotalTime();
     const todaySessionCount = this.getTodaySessionCount();
+    const todayPomodoros = this.getTodayPomodoroCount();
+    const todayDebugTime = this.getTodayDebugTime();
+    const pomodoroSuffix = todayPomodoros > 0 ? ` - ${todayPomodoros} 🍅 heute` : '';
+    const dailyGoal = vscode.workspace.getConfiguration('o3-time-tracker').get<number>('dailyGoalHours', 0);
+    const todayProgress = dailyGoal > 0
+      ? `${formatGoalProgress(todayTime, dailyGoal)} (${formatGoalPercent(todayTime, dailyGoal)})`
+      : formatDetailedTime(todayTime);
     
     items.push(new TimeViewItem(
       'Heute',
       vscode.TreeItemCollapsibleState.Collapsed,
       'today-sessions',
-      `${todaySessionCount} Sessions - ${formatDetailedTime(todayTime)}`,
-      formatDetailedTime(todayTime),
+      `${todaySessionCount} Sessions - ${formatDetailedTime(todayTime)}${pomodoroSuffix}` +
+        (todayDebugTime > 0 ? `\n${this.formatCodingAndDebugging(todayTime, todayDebugTime)}` : '') +
+        (dailyGoal > 0 ? `\nTagesziel: ${formatGoalPercent(todayTime, dailyGoal)} von ${dailyGoal}h` : ''),
+      `${todayProgress}${pomodoroSuffix}`,
       new vscode.ThemeIcon('calendar')
     ));
 
@@ -187,12 +216,12 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
       return [];
     }
 
-    const today = new Date().toLocaleDateString('de-DE');
+    const today = formatDayLabel(new Date());
     const items: TimeViewItem[] = [];
 
     // Add current session if it's from today
     if (this.trackingData.currentSession) {
-      const sessionDate = this.trackingData.currentSession.startTime.toLocaleDateString('de-DE');
+      const sessionDate = formatDayLabel(this.trackingData.currentSession.startTime);
       if (sessionDate === today) {
         // Use totalTime to show only active work time, not idle time
         const sessionTime = this.trackingData.currentSession.totalTime;
@@ -205,9 +234,10 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
           `${startTime} - läuft`,
           vscode.TreeItemCollapsibleState.None,
           'today-current',
-          `${this.trackingData.currentSession.projectName} - ${formatDetailedTime(sessionTime)}`,
+          this.getSessionTooltip(this.trackingData.currentSession, this.trackingData.currentSession.projectName),
           formatDetailedTime(sessionTime),
-          new vscode.ThemeIcon('play-circle', new vscode.ThemeColor('charts.green'))
+          new vscode.ThemeIcon('play-circle', new vscode.ThemeColor('charts.green')),
+          this.trackingData.currentSession.id
         ));
       }
     }
@@ -215,24 +245,19 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
     // Add completed sessions from today
     this.trackingData.projects.forEach(project => {
       project.sessions.forEach(session => {
-        const sessionDate = session.startTime.toLocaleDateString('de-DE');
+        const sessionDate = formatDayLabel(session.startTime, session);
         if (sessionDate === today && session.endTime) {
-          const startTime = session.startTime.toLocaleTimeString('de-DE', {
-            hour: '2-digit',
-            minute: '2-digit'
-          });
-          const endTime = session.endTime.toLocaleTimeString('de-DE', {
-            hour: '2-digit',
-            minute: '2-digit'
-          });
+          const startTime = formatClockTime(session.startTime, session);
+          const endTime = formatClockTime(session.endTime, session);
 
           items.push(new TimeViewItem(
             `${startTime} - ${endTime}`,
             vscode.TreeItemCollapsibleState.None,
             'today-completed',
-            `${project.projectName} - ${formatDetailedTime(session.totalTime)}`,
+            this.getSessionTooltip(session, project.projectName),
             formatDetailedTime(session.totalTime),
-            new vscode.ThemeIcon('check-all')
+            session.manual ? MANUAL_SESSION_ICON : new vscode.ThemeIcon('check-all'),
+            session.id
           ));
         }
       });
@@ -277,23 +302,18 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
     const items: TimeViewItem[] = [];
 
     recentSessions.forEach(({ session, projectName }) => {
-      const date = session.startTime.toLocaleDateString('de-DE');
-      const startTime = session.startTime.toLocaleTimeString('de-DE', {
-        hour: '2-digit',
-        minute: '2-digit'
-      });
-      const endTime = session.endTime?.toLocaleTimeString('de-DE', {
-        hour: '2-digit',
-        minute: '2-digit'
-      });
+      const date = formatDayLabel(session.startTime, session);
+      const startTime = formatClockTime(session.startTime, session);
+      const endTime = session.endTime && formatClockTime(session.endTime, session);
 
       items.push(new TimeViewItem(
         `${date} ${startTime}-${endTime}`,
         vscode.TreeItemCollapsibleState.None,
         'recent-session',
-        `${projectName} - ${formatDetailedTime(session.totalTime)}`,
+        this.getSessionTooltip(session, projectName),
         formatDetailedTime(session.totalTime),
-        new vscode.ThemeIcon('history')
+        session.manual ? MANUAL_SESSION_ICON : new vscode.ThemeIcon('history'),
+        session.id
       ));
     });
 
@@ -311,17 +331,56 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
     return items;
   }
 
+  private getSessionTooltip(session: TimeSession, projectName: string): string {
+    const lines = [`${projectName} - ${formatDetailedTime(session.totalTime)}`];
+    if (session.manual) {
+      lines.push('Manueller Eintrag');
+    }
+    if (session.note) {
+      lines.push(session.note);
+    }
+    if (session.tags?.length) {
+      lines.push(formatTags(session.tags));
+    }
+    if (session.branch) {
+      lines.push(`Branch: ${session.branch}`);
+    }
+    if (session.pomodoros) {
+      lines.push(`${session.pomodoros} 🍅`);
+    }
+    const zone = formatRecordedZone(session);
+    if (zone) {
+      lines.push(`Zeitzone: ${zone}`);
+    }
+    if (session.debugTime) {
+      lines.push(this.formatCodingAndDebugging(session.totalTime, session.debugTime));
+    }
+    if (session.activeSegments?.length) {
+      const shown = session.activeSegments
+        .slice(0, MAX_TOOLTIP_SEGMENTS)
+        .map(segment => `${formatClockTime(segment.start, session)}-${formatClockTime(segment.end, session)}`);
+      const more = session.activeSegments.length - shown.length;
+      lines.push(`Aktiv: ${shown.join(', ')}${more > 0 ? ` (+${more} weitere)` : ''}`);
+    }
+    const idleGaps = getIdleGaps(session);
+    if (idleGaps.length) {
+      const idleTime = idleGaps.reduce((total, gap) => total + gap.end.getTime() - gap.start.getTime(), 0);
+      lines.push(`Leerlauf: ${formatDetailedTime(idleTime)} in ${idleGaps.length} ${idleGaps.length === 1 ? 'Unterbrechung' : 'Unterbrechungen'}`);
+    }
+    return lines.join('\n');
+  }
+
   private getTodayTotalTime(): number {
     if (!this.trackingData) {
       return 0;
     }
 
-    const today = new Date().toLocaleDateString('de-DE');
+    const today = formatDayLabel(new Date());
     let totalTime = 0;
 
     // Add current session time (use totalTime to show only active work time)
     if (this.trackingData.currentSession) {
-      const sessionDate = this.trackingData.currentSession.startTime.toLocaleDateString('de-DE');
+      const sessionDate = formatDayLabel(this.trackingData.currentSession.startTime);
       if (sessionDate === today) {
         totalTime += this.trackingData.currentSession.totalTime;
       }
@@ -330,7 +389,7 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
     // Add completed sessions from today
     this.trackingData.projects.forEach(project => {
       project.sessions.forEach(session => {
-        const sessionDate = session.startTime.toLocaleDateString('de-DE');
+        const sessionDate = formatDayLabel(session.startTime, session);
         if (sessionDate === today && session.endTime) {
           // Only count completed sessions to avoid double counting with current session
           totalTime += session.totalTime;
@@ -341,16 +400,51 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
     return totalTime;
   }
 
+  private getTodayPomodoroCount(): number {
+    if (!this.trackingData) {
+      return 0;
+    }
+
+    const today = formatDayLabel(new Date());
+    const sessions: TimeSession[] = [];
+    this.trackingData.projects.forEach(project => {
+      sessions.push(...project.sessions.filter(session => formatDayLabel(session.startTime, session) === today));
+    });
+    return countPomodoros(sessions);
+  }
+
+  private getTodayDebugTime(): number {
+    if (!this.trackingData) {
+      return 0;
+    }
+
+    const today = formatDayLabel(new Date());
+    let debugTime = 0;
+    this.trackingData.projects.forEach(project => {
+      project.sessions
+        .filter(session => formatDayLabel(session.startTime, session) === today)
+        .forEach(session => debugTime += session.debugTime ?? 0);
+    });
+    return debugTime;
+  }
+
+  /**
+   * Active time split into coding and debugging, e.g. "Coding: 2 hours · Debugging: 40 minutes"
+   */
+  private formatCodingAndDebugging(totalTime: number, debugTime: number): string {
+    return `Coding: ${formatDetailedTime(Math.max(0, totalTime - debugTime))} · Debugging: ${formatDetailedTime(debugTime)}`;
+  }
+
   private getTodaySessionCount(): number {
     if (!this.trackingData) {
       return 0;
     }
 
-    const today = new Date().toLocaleDateString('de-DE');
+    const today = formatDayLabel(new Date());
     let count = 0;
 
     if (this.trackingData.currentSession) {
-      const sessionDate = this.trackingData.currentSession.startTime.toLocaleDateString('de-DE');
+      const sessionDate = formatDayLabel(this.trackingData.currentSession.startTime);
       if (sessionDate === today) {
         count++;
       }
@@ -358,7 +452,7 @@ export class TimeViewProvider implements vscode.TreeDataProvider<TimeViewItem> {
 
     this.trackingData.projects.forEach(project => {
       project.sessions.forEach(session => {
-        const sessionDate = session.startTime.toLocaleDateString('de-DE');
+        const sessionDate = formatDayLabel(session.startTime, session);
         if (sessionDate === today) {
           count++;
         }
@@ -406,6 +500,18 @@ export class ProjectsViewProvider implements vscode.TreeDataProvider<TimeViewIte
       return Promise.resolve(this.getProjectItems());
     }
 
+    if (element.itemType === 'project' && element.projectPath) {
+      return Promise.resolve(this.getProjectChildren(element.projectPath));
+    }
+
+    if (element.itemType === 'file-breakdown' && element.projectPath) {
+      return Promise.resolve(this.getLanguageItems(element.projectPath));
+    }
+
+    if (element.itemType === 'language' && element.projectPath && element.languageId) {
+      return Promise.resolve(this.getLanguageFileItems(element.projectPath, element.languageId));
+    }
+
     return Promise.resolve([]);
   }
 
@@ -421,14 +527,18 @@ export class ProjectsViewProvider implements vscode.TreeDataProvider<TimeViewIte
 
     projects.forEach(project => {
       const lastActivity = project.lastActivity.toLocaleDateString('de-DE');
+      // Projects with ticket sessions or file times expand to their time per ticket and language
+      const expandable = project.sessions.some(session => session.ticket || session.files?.length);
       
       items.push(new TimeViewItem(
         project.projectName,
-        vscode.TreeItemCollapsibleState.None,
+        expandable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
         'project',
-        `${formatDetailedTime(project.totalTime)} - ${project.sessions.length} Sessions - Zuletzt: ${lastActivity}`,
+        `${formatDetailedTime(project.totalTime)} - ${countProjectSessions(project)} Sessions - Zuletzt: ${lastActivity}`,
         formatDetailedTime(project.totalTime),
-        new vscode.ThemeIcon('folder')
+        new vscode.ThemeIcon('folder'),
+        undefined,
+        project.projectPath
       ));
     });
 
@@ -445,4 +555,97 @@ export class ProjectsViewProvider implements vscode.TreeDataProvider<TimeViewIte
 
     return items;
   }
-} 
\ No newline at end of file
+
+  private getProjectChildren(projectPath: string): TimeViewItem[] {
+    const project = this.trackingData?.projects.get(projectPath);
+    if (!project) {
+      return [];
+    }
+
+    const items = project.sessions.some(session => session.ticket) ? this.getTicketItems(projectPath) : [];
+    const fileTime = groupSessionsByLanguage(project.sessions).reduce((total, group) => total + group.totalTime, 0);
+    if (fileTime > 0) {
+      items.push(new TimeViewItem(
+        'Dateien/Sprachen',
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'file-breakdown',
+        `Aktive Zeit mit einer Datei im Fokus: ${formatDetailedTime(fileTime)}`,
+        formatDetailedTime(fileTime),
+        new vscode.ThemeIcon('files'),
+        undefined,
+        projectPath
+      ));
+    }
+    return items;
+  }
+
+  /**
+   * Time per language of a project's sessions, as a share of the time with a file in focus
+   */
+  private getLanguageItems(projectPath: string): TimeViewItem[] {
+    const project = this.trackingData?.projects.get(projectPath);
+    if (!project) {
+      return [];
+    }
+
+    const groups = groupSessionsByLanguage(project.sessions);
+    const fileTime = groups.reduce((total, group) => total + group.totalTime, 0);
+    return groups.map(group => new TimeViewItem(
+      formatLanguageName(group.languageId),
+      vscode.TreeItemCollapsibleState.Collapsed,
+      'language',
+      `${formatLanguageName(group.languageId)}: ${formatDetailedTime(group.totalTime)} in ${group.files.size} Dateien`,
+      `${formatShare(group.totalTime, fileTime)} · ${formatDetailedTime(group.totalTime)}`,
+      new vscode.ThemeIcon('code'),
+      undefined,
+      projectPath,
+      group.languageId
+    ));
+  }
+
+  /**
+   * Files of one language in a project, largest first
+   */
+  private getLanguageFileItems(projectPath: string, languageId: string): TimeViewItem[] {
+    const project = this.trackingData?.projects.get(projectPath);
+    const group = project && groupSessionsByLanguage(project.sessions).find(group => group.languageId === languageId);
+    if (!group) {
+      return [];
+    }
+
+    return Array.from(group.files.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_LANGUAGE_FILES)
+      .map(([filePath, time]) => new TimeViewItem(
+        filePath.split('/').pop() || filePath,
+        vscode.TreeItemCollapsibleState.None,
+        'file',
+        `${filePath}: ${formatDetailedTime(time)}`,
+        `${formatShare(time, group.totalTime)} · ${formatDetailedTime(time)}`,
+        new vscode.ThemeIcon('file')
+      ));
+  }
+
+  /**
+   * Time per ticket of a project's sessions (archived sessions only exist as daily totals)
+   */
+  private getTicketItems(projectPath: string): TimeViewItem[] {
+    const project = this.trackingData?.projects.get(projectPath);
+    if (!project) {
+      return [];
+    }
+
+    return groupSessionsByTicket(project.sessions).map(group => {
+      const branches = Array.from(group.branches).join(', ');
+      return new TimeViewItem(
+        group.ticket,
+        vscode.TreeItemCollapsibleState.None,
+        'ticket',
+        `${group.ticket}: ${formatDetailedTime(group.totalTime)} in ${group.sessionCount} Sessions` +
+          (branches ? `\nBranches: ${branches}` : ''),
+        formatDetailedTime(group.totalTime),
+        new vscode.ThemeIcon(group.ticket === NO_TICKET ? 'circle-outline' : 'git-branch')
+      );
+    });
+  }
+}
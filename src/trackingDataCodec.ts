@@ -0,0 +1,382 @@
+/**
+ * Strictly validated conversion between in-memory tracking data and its JSON storage format
+ */
+
+import { TrackingData, TimeSession, ProjectStats, DailyRollup } from './types';
+import { CURRENT_DATA_VERSION } from './dataMigrations';
+
+/**
+ * Raised when stored data does not match the expected format
+ */
+export class DataValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid tracking data: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` (+${problems.length - 5} more)` : ''}`);
+    this.name = 'DataValidationError';
+  }
+}
+
+/**
+ * Collects validation problems together with the JSON path they occurred at
+ */
+class Validator {
+  readonly problems: string[] = [];
+
+  object(value: unknown, at: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.problems.push(`${at}: expected an object`);
+      return {};
+    }
+    return value as Record<string, unknown>;
+  }
+
+  array(value: unknown, at: string): unknown[] {
+    if (!Array.isArray(value)) {
+      this.problems.push(`${at}: expected an array`);
+      return [];
+    }
+    return value;
+  }
+
+  string(value: unknown, at: string): string {
+    if (typeof value !== 'string') {
+      this.problems.push(`${at}: expected a string`);
+      return '';
+    }
+    return value;
+  }
+
+  optionalString(value: unknown, at: string): string | undefined {
+    return value === undefined || value === null ? undefined : this.string(value, at);
+  }
+
+  number(value: unknown, at: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.problems.push(`${at}: expected a finite number`);
+      return 0;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, at: string): boolean {
+    if (typeof value !== 'boolean') {
+      this.problems.push(`${at}: expected a boolean`);
+      return false;
+    }
+    return value;
+  }
+
+  optionalNumber(value: unknown, at: string): number | undefined {
+    return value === undefined || value === null ? undefined : this.number(value, at);
+  }
+
+  optionalBoolean(value: unknown, at: string): boolean | undefined {
+    return value === undefined || value === null ? undefined : this.boolean(value, at);
+  }
+
+  date(value: unknown, at: string): Date {
+    const date = typeof value === 'string' ? new Date(value) : undefined;
+    if (!date || isNaN(date.getTime())) {
+      this.problems.push(`${at}: expected an ISO date string`);
+      return new Date(0);
+    }
+    return date;
+  }
+
+  optionalDate(value: unknown, at: string): Date | undefined {
+    return value === undefined || value === null ? undefined : this.date(value, at);
+  }
+}
+
+/**
+ * Parse the content of a stored data file
+ * @throws SyntaxError if the content is not JSON, DataValidationError if it is not a JSON object
+ */
+export const parseStoredJson = (content: string): any => {
+  const rawData = JSON.parse(content);
+  if (typeof rawData !== 'object' || rawData === null || Array.isArray(rawData)) {
+    throw new DataValidationError(['$: expected an object']);
+  }
+  return rawData;
+};
+
+/**
+ * Serialize a single session for JSON storage
+ */
+export const serializeSession = (session: TimeSession): any => ({
+  id: session.id,
+  projectName: session.projectName,
+  projectPath: session.projectPath,
+  startTime: session.startTime.toISOString(),
+  endTime: session.endTime?.toISOString(),
+  totalTime: session.totalTime,
+  isActive: session.isActive,
+  lastActivity: session.lastActivity.toISOString(),
+  lastActiveTime: session.lastActiveTime.toISOString(),
+  textChanges: session.textChanges,
+  cursorMovements: session.cursorMovements,
+  manual: session.manual || undefined,
+  note: session.note,
+  tags: session.tags?.length ? session.tags : undefined,
+  editedAt: session.editedAt?.toISOString(),
+  branch: session.branch,
+  ticket: session.ticket,
+  pomodoros: session.pomodoros || undefined,
+  timeZone: session.timeZone,
+  utcOffset: session.utcOffset,
+  activeSegments: session.activeSegments?.length
+    ? session.activeSegments.map(segment => [segment.start.toISOString(), segment.end.toISOString()])
+    : undefined,
+  files: session.files?.length ? session.files : undefined,
+  debugTime: session.debugTime || undefined
+});
+
+/**
+ * Decode a session, recording problems in the validator
+ */
+const decodeSession = (v: Validator, value: unknown, at: string): TimeSession => {
+  const raw = v.object(value, at);
+  const session: TimeSession = {
+    id: v.string(raw['id'], `${at}.id`),
+    projectName: v.string(raw['projectName'], `${at}.projectName`),
+    projectPath: v.string(raw['projectPath'], `${at}.projectPath`),
+    startTime: v.date(raw['startTime'], `${at}.startTime`),
+    totalTime: v.number(raw['totalTime'], `${at}.totalTime`),
+    isActive: v.boolean(raw['isActive'], `${at}.isActive`),
+    lastActivity: v.date(raw['lastActivity'], `${at}.lastActivity`),
+    lastActiveTime: v.date(raw['lastActiveTime'], `${at}.lastActiveTime`),
+    textChanges: v.number(raw['textChanges'], `${at}.textChanges`),
+    cursorMovements: v.number(raw['cursorMovements'], `${at}.cursorMovements`)
+  };
+
+  const endTime = v.optionalDate(raw['endTime'], `${at}.endTime`);
+  if (endTime) {
+    session.endTime = endTime;
+  }
+  if (v.optionalBoolean(raw['manual'], `${at}.manual`)) {
+    session.manual = true;
+  }
+  const note = v.optionalString(raw['note'], `${at}.note`);
+  if (note) {
+    session.note = note;
+  }
+  if (raw['tags'] !== undefined && raw['tags'] !== null) {
+    const tags = v.array(raw['tags'], `${at}.tags`).map((tag, index) => v.string(tag, `${at}.tags[${index}]`));
+    if (tags.length > 0) {
+      session.tags = tags;
+    }
+  }
+  const editedAt = v.optionalDate(raw['editedAt'], `${at}.editedAt`);
+  if (editedAt) {
+    session.editedAt = editedAt;
+  }
+  const branch = v.optionalString(raw['branch'], `${at}.branch`);
+  if (branch) {
+    session.branch = branch;
+  }
+  const ticket = v.optionalString(raw['ticket'], `${at}.ticket`);
+  if (ticket) {
+    session.ticket = ticket;
+  }
+  const pomodoros = v.optionalNumber(raw['pomodoros'], `${at}.pomodoros`);
+  if (pomodoros) {
+    session.pomodoros = pomodoros;
+  }
+  const timeZone = v.optionalString(raw['timeZone'], `${at}.timeZone`);
+  if (timeZone) {
+    session.timeZone = timeZone;
+  }
+  const utcOffset = v.optionalNumber(raw['utcOffset'], `${at}.utcOffset`);
+  if (utcOffset !== undefined) {
+    session.utcOffset = utcOffset;
+  }
+  if (raw['activeSegments'] !== undefined && raw['activeSegments'] !== null) {
+    const segments = v.array(raw['activeSegments'], `${at}.activeSegments`).map((value, index) => {
+      const [start, end] = v.array(value, `${at}.activeSegments[${index}]`);
+      return {
+        start: v.date(start, `${at}.activeSegments[${index}][0]`),
+        end: v.date(end, `${at}.activeSegments[${index}][1]`)
+      };
+    }).filter(segment => segment.end > segment.start); // Empty segments written by earlier versions
+    if (segments.length > 0) {
+      session.activeSegments = segments;
+    }
+  }
+  if (raw['files'] !== undefined && raw['files'] !== null) {
+    const files = v.array(raw['files'], `${at}.files`).map((value, index) => {
+      const file = v.object(value, `${at}.files[${index}]`);
+      return {
+        path: v.string(file['path'], `${at}.files[${index}].path`),
+        languageId: v.string(file['languageId'], `${at}.files[${index}].languageId`),
+        time: v.number(file['time'], `${at}.files[${index}].time`)
+      };
+    });
+    if (files.length > 0) {
+      session.files = files;
+    }
+  }
+  const debugTime = v.optionalNumber(raw['debugTime'], `${at}.debugTime`);
+  if (debugTime) {
+    session.debugTime = debugTime;
+  }
+
+  return session;
+};
+
+/**
+ * Decode a daily rollup, recording problems in the validator
+ */
+const decodeRollup = (v: Validator, value: unknown, at: string): DailyRollup => {
+  const raw = v.object(value, at);
+  const date = v.string(raw['date'], `${at}.date`);
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    v.problems.push(`${at}.date: expected YYYY-MM-DD`);
+  }
+  return {
+    date,
+    totalTime: v.number(raw['totalTime'], `${at}.totalTime`),
+    sessionCount: v.number(raw['sessionCount'], `${at}.sessionCount`)
+  };
+};
+
+/**
+ * Deserialize a single session from JSON storage
+ * @throws DataValidationError if the session is malformed
+ */
+export const deserializeSession = (rawSession: unknown): TimeSession => {
+  const v = new Validator();
+  const session = decodeSession(v, rawSession, 'session');
+  if (v.problems.length > 0) {
+    throw new DataValidationError(v.problems);
+  }
+  return session;
+};
+
+/**
+ * Serialize tracking data for JSON storage
+ */
+export const serializeTrackingData = (data: TrackingData): any => {
+  return {
+    projects: Array.from(data.projects.entries()).map(([key, value]) => ({
+      key,
+      value: {
+        projectName: value.projectName,
+        projectPath: value.projectPath,
+        totalTime: value.totalTime,
+        sessions: value.sessions.map(serializeSession),
+        lastActivity: value.lastActivity.toISOString(),
+        firstSession: value.firstSession.toISOString(),
+        averageSessionDuration: value.averageSessionDuration,
+        activeDays: value.activeDays,
+        dailyRollups: value.dailyRollups.map(rollup => ({
+          date: rollup.date,
+          totalTime: rollup.totalTime,
+          sessionCount: rollup.sessionCount
+        }))
+      }
+    })),
+    currentSession: data.currentSession ? serializeSession(data.currentSession) : undefined,
+    lastActivity: data.lastActivity.toISOString(),
+    totalTimeTracked: data.totalTimeTracked,
+    version: data.version,
+    lastSaved: data.lastSaved.toISOString(),
+    workspacePath: data.workspacePath,
+    workspaceName: data.workspaceName,
+    workspaceId: data.workspaceId
+  };
+};
+
+/**
+ * Deserialize tracking data from JSON storage (expects migrated data).
+ * Every field is checked - nothing is copied over unvalidated.
+ * @throws DataValidationError listing every malformed field
+ */
+export const deserializeTrackingData = (rawData: unknown): TrackingData => {
+  const v = new Validator();
+  const raw = v.object(rawData, '$');
+  const projects = new Map<string, ProjectStats>();
+
+  v.array(raw['projects'], '$.projects').forEach((entryValue, index) => {
+    const at = `$.projects[${index}]`;
+    const entry = v.object(entryValue, at);
+    const key = v.string(entry['key'], `${at}.key`);
+    const value = v.object(entry['value'], `${at}.value`);
+
+    const projectStats: ProjectStats = {
+      projectName: v.string(value['projectName'], `${at}.value.projectName`),
+      projectPath: v.string(value['projectPath'], `${at}.value.projectPath`),
+      totalTime: v.number(value['totalTime'], `${at}.value.totalTime`),
+      sessions: v.array(value['sessions'], `${at}.value.sessions`)
+        .map((session, sessionIndex) => decodeSession(v, session, `${at}.value.sessions[${sessionIndex}]`)),
+      lastActivity: v.date(value['lastActivity'], `${at}.value.lastActivity`),
+      firstSession: v.date(value['firstSession'], `${at}.value.firstSession`),
+      averageSessionDuration: v.number(value['averageSessionDuration'], `${at}.value.averageSessionDuration`),
+      activeDays: v.number(value['activeDays'], `${at}.value.activeDays`),
+      dailyRollups: v.array(value['dailyRollups'], `${at}.value.dailyRollups`)
+        .map((rollup, rollupIndex) => decodeRollup(v, rollup, `${at}.value.dailyRollups[${rollupIndex}]`))
+    };
+    projects.set(key, projectStats);
+  });
+
+  const data: TrackingData = {
+    projects,
+    lastActivity: v.date(raw['lastActivity'], '$.lastActivity'),
+    totalTimeTracked: v.number(raw['totalTimeTracked'], '$.totalTimeTracked'),
+    version: v.string(raw['version'], '$.version'),
+    lastSaved: v.date(raw['lastSaved'], '$.lastSaved')
+  };
+
+  if (raw['currentSession'] !== undefined && raw['currentSession'] !== null) {
+    const decoded = decodeSession(v, raw['currentSession'], '$.currentSession');
+    // Keep the current session identical to its entry in the project's session list
+    const projectSession = projects.get(decoded.projectPath)?.sessions
+      .find(session => session.id === decoded.id);
+    data.currentSession = projectSession ?? decoded;
+  }
+
+  const workspacePath = v.optionalString(raw['workspacePath'], '$.workspacePath');
+  if (workspacePath) {
+    data.workspacePath = workspacePath;
+  }
+  const workspaceName = v.optionalString(raw['workspaceName'], '$.workspaceName');
+  if (workspaceName) {
+    data.workspaceName = workspaceName;
+  }
+  const workspaceId = v.optionalString(raw['workspaceId'], '$.workspaceId');
+  if (workspaceId) {
+    data.workspaceId = workspaceId;
+  }
+
+  if (v.problems.length > 0) {
+    throw new DataValidationError(v.problems);
+  }
+
+  return data;
+};
+
+/**
+ * Serialize the sessions of one month for an archive file
+ */
+export const serializeArchive = (month: string, sessions: TimeSession[]): any => ({
+  version: CURRENT_DATA_VERSION,
+  month,
+  createdAt: new Date().toISOString(),
+  sessions: sessions.map(serializeSession)
+});
+
+/**
+ * Deserialize the sessions stored in an archive file
+ * @throws DataValidationError listing every malformed field
+ */
+export const deserializeArchive = (rawData: unknown): { month: string; sessions: TimeSession[] } => {
+  const v = new Validator();
+  const raw = v.object(rawData, '$');
+  const archive = {
+    month: v.string(raw['month'], '$.month'),
+    sessions: v.array(raw['sessions'], '$.sessions')
+      .map((session, index) => decodeSession(v, session, `$.sessions[${index}]`))
+  };
+  if (v.problems.length > 0) {
+    throw new DataValidationError(v.problems);
+  }
+  return archive;
+};
@@ -0,0 +1,186 @@
+/**
+ * Merging of tracking data written concurrently by several VS Code windows
+ */
+
+import { TrackingData, TimeSession, ProjectStats } from './types';
+import { recalculateProjectStats } from './projectStats';
+import { getArchiveMonth } from './timeUtils';
+
+/**
+ * Summary of what a merge changed in the local data
+ */
+export interface MergeResult {
+  /** Sessions that only existed in the other copy and were added */
+  added: number;
+
+  /** Sessions that existed in both copies and were replaced by the newer other copy */
+  updated: number;
+
+  /** Known sessions the other copy no longer has, deleted there and removed locally */
+  removed: number;
+}
+
+/**
+ * Pick the more recent of two versions of the same session
+ */
+const isNewerSession = (candidate: TimeSession, existing: TimeSession): boolean => {
+  // A correction made by hand beats any copy from before it
+  const candidateEdited = candidate.editedAt?.getTime() ?? 0;
+  const existingEdited = existing.editedAt?.getTime() ?? 0;
+  if (candidateEdited !== existingEdited) {
+    return candidateEdited > existingEdited;
+  }
+
+  const candidateActivity = candidate.lastActivity.getTime();
+  const existingActivity = existing.lastActivity.getTime();
+  if (candidateActivity !== existingActivity) {
+    return candidateActivity > existingActivity;
+  }
+  if (!!candidate.endTime !== !!existing.endTime) {
+    return !!candidate.endTime;
+  }
+  return candidate.totalTime > existing.totalTime;
+};
+
+/**
+ * Merge sessions from another copy of the data into the local data, in place.
+ *
+ * Sessions are matched by ID. A session missing locally is only taken over if
+ * its ID is not in `knownSessionIds` - otherwise it was deleted locally (e.g. by
+ * a reset) and must not be resurrected. Likewise a known session missing in the
+ * other copy was deleted, moved to another ID or archived there and is removed
+ * locally. The local current session always wins.
+ * Months that the other copy has archived are taken over with their rollups.
+ */
+export const mergeTrackingData = (
+  local: TrackingData,
+  other: TrackingData,
+  knownSessionIds: ReadonlySet<string>
+): MergeResult => {
+  const currentSessionId = local.currentSession?.id;
+  const result: MergeResult = { added: 0, updated: 0, removed: removeDeletedSessions(local, other, knownSessionIds) };
+
+  other.projects.forEach((otherProject, projectPath) => {
+    let localProject = local.projects.get(projectPath);
+    let changed = false;
+
+    if (localProject) {
+      changed = adoptArchivedMonths(localProject, otherProject, knownSessionIds);
+    }
+
+    otherProject.sessions.forEach(otherSession => {
+      if (otherSession.id === currentSessionId) {
+        return;
+      }
+
+      const index = localProject?.sessions.findIndex(session => session.id === otherSession.id) ?? -1;
+
+      if (localProject && index >= 0) {
+        const localSession = localProject.sessions[index];
+        if (localSession && isNewerSession(otherSession, localSession)) {
+          localProject.sessions[index] = otherSession;
+          result.updated++;
+          changed = true;
+        }
+        return;
+      }
+
+      if (knownSessionIds.has(otherSession.id)) {
+        return;
+      }
+
+      if (!localProject) {
+        localProject = { ...otherProject, sessions: [], dailyRollups: [...otherProject.dailyRollups] };
+        local.projects.set(projectPath, localProject);
+      }
+
+      localProject.sessions.push(otherSession);
+      result.added++;
+      changed = true;
+    });
+
+    if (localProject && changed) {
+      localProject.sessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+      recalculateProjectStats(localProject);
+    }
+  });
+
+  if (other.lastActivity > local.lastActivity) {
+    local.lastActivity = other.lastActivity;
+  }
+
+  return result;
+};
+
+/**
+ * Remove local sessions that were persisted before but are missing from the other copy,
+ * so deletions made in another window are not written back
+ * @returns Number of sessions removed
+ */
+export const removeDeletedSessions = (
+  local: TrackingData,
+  other: TrackingData,
+  knownSessionIds: ReadonlySet<string>
+): number => {
+  const otherIds = collectSessionIds(other);
+  const isDeleted = (session: TimeSession) =>
+    knownSessionIds.has(session.id) && !otherIds.has(session.id) && session.id !== local.currentSession?.id;
+
+  let removed = 0;
+  local.projects.forEach((project, projectPath) => {
+    const sessions = project.sessions.filter(session => !isDeleted(session));
+    if (sessions.length === project.sessions.length) {
+      return;
+    }
+    removed += project.sessions.length - sessions.length;
+    project.sessions = sessions;
+    if (sessions.length === 0 && project.dailyRollups.length === 0 && !other.projects.has(projectPath)) {
+      local.projects.delete(projectPath);
+    } else {
+      recalculateProjectStats(project);
+    }
+  });
+  return removed;
+};
+
+/**
+ * Take over rollups for months the other copy archived but the local copy did not yet.
+ * Local sessions of such a month that the other copy no longer has were archived there.
+ * @returns Whether the local project changed
+ */
+const adoptArchivedMonths = (
+  localProject: ProjectStats,
+  otherProject: ProjectStats,
+  knownSessionIds: ReadonlySet<string>
+): boolean => {
+  const month = (date: string) => date.slice(0, 7);
+  const localMonths = new Set(localProject.dailyRollups.map(rollup => month(rollup.date)));
+  const newMonths = new Set(
+    otherProject.dailyRollups.map(rollup => month(rollup.date)).filter(rollupMonth => !localMonths.has(rollupMonth))
+  );
+  if (newMonths.size === 0) {
+    return false;
+  }
+
+  const otherIds = new Set(otherProject.sessions.map(session => session.id));
+  localProject.sessions = localProject.sessions.filter(session =>
+    !newMonths.has(getArchiveMonth(session.startTime, session)) || otherIds.has(session.id) || !knownSessionIds.has(session.id)
+  );
+  localProject.dailyRollups = [
+    ...localProject.dailyRollups,
+    ...otherProject.dailyRollups.filter(rollup => newMonths.has(month(rollup.date)))
+  ].sort((a, b) => a.date.localeCompare(b.date));
+  return true;
+};
+
+/**
+ * Collect all session IDs contained in the data
+ */
+export const collectSessionIds = (data: TrackingData): Set<string> => {
+  const ids = new Set<string>();
+  data.projects.forEach(project => project.sessions.forEach(session => ids.add(session.id)));
+  if (data.currentSession) {
+    ids.add(data.currentSession.id);
+  }
+  return ids;
+};
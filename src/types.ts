@@ -40,8 +40,70 @@ export interface TimeSession {
   
   /** Number of cursor movements during this session */
   cursorMovements: number;
+  
+  /** Entered by hand for work the activity monitor could not see */
+  manual?: boolean;
+  
+  /** Free-text note */
+  note?: string;
+  
+  /** Free-form tags, without leading '#' */
+  tags?: string[];
+  
+  /** When the session was last corrected by hand; the corrected copy wins when windows merge */
+  editedAt?: Date;
+  
+  /** Git branch checked out while the session was recorded */
+  branch?: string;
+  
+  /** Ticket key extracted from the branch name with `ticketPattern` */
+  ticket?: string;
+  
+  /** Pomodoro work intervals finished during this session */
+  pomodoros?: number;
+  
+  /** IANA time zone the session was recorded in, e.g. "Europe/Berlin" */
+  timeZone?: string;
+  
+  /** Offset from UTC in minutes at the session start, e.g. 120 for UTC+2 */
+  utcOffset?: number;
+  
+  /** When during the session the user was active, oldest first */
+  activeSegments?: ActiveSegment[];
+  
+  /** Active time per file in focus */
+  files?: FileTime[];
+  
+  /** Part of the active time spent with the debugger halted at a breakpoint or step */
+  debugTime?: number;
+}
+
+/**
+ * A stretch of continuous activity within a session
+ */
+export interface ActiveSegment {
+  start: Date;
+  end: Date;
 }
 
+/**
+ * Active time spent on one file during a session
+ */
+export interface FileTime {
+  /** Path relative to the project folder, with forward slashes */
+  path: string;
+
+  /** VS Code language ID, e.g. "typescript" */
+  languageId: string;
+
+  time: number;
+}
+
+/**
+ * Where a session was recorded, to count and show it in that zone
+ */
+export type RecordedZone = Pick<TimeSession, 'timeZone' | 'utcOffset'>;
+
 /**
  * Statistics for a specific project
  */
@@ -69,6 +131,23 @@ export interface ProjectStats {
   
   /** Number of days this project was worked on */
   activeDays: number;
+  
+  /** Per-day totals of sessions that were moved to monthly archive files */
+  dailyRollups: DailyRollup[];
+}
+
+/**
+ * Totals of one day's archived sessions, kept in the main data file so totals stay correct
+ */
+export interface DailyRollup {
+  /** Day in YYYY-MM-DD format */
+  date: string;
+  
+  /** Active time of the archived sessions of this day in milliseconds */
+  totalTime: number;
+  
+  /** Number of archived sessions of this day */
+  sessionCount: number;
 }
 
 /**
@@ -98,6 +177,9 @@ export interface TrackingData {
   
   /** Workspace name this data belongs to (for display) */
   workspaceName?: string;
+  
+  /** Durable workspace ID that survives moves and renames (for validation) */
+  workspaceId?: string;
 }
 
 /**
@@ -127,8 +209,81 @@ export interface ExtensionConfig {
   
   /** Whether to automatically end session when switching projects */
   autoEndSessionOnProjectChange: boolean;
+  
+  /** Whether to ask how to count an absence when the user returns */
+  idleReturnPrompt: boolean;
+  
+  /** Storage backend used to persist tracking data */
+  storageBackend: StorageBackend;
+  
+  /** Number of daily backup snapshots to keep */
+  backupRetentionDays: number;
+  
+  /** Number of weekly backup snapshots to keep */
+  backupRetentionWeeks: number;
+  
+  /** Age in days after which sessions are moved to monthly archive files (0 disables archiving) */
+  archiveAfterDays: number;
+  
+  /** Regular expression extracting the ticket key from a branch name (empty disables tickets) */
+  ticketPattern: string;
+  
+  /** Pomodoro work interval in minutes */
+  pomodoroWork: number;
+  
+  /** Pomodoro short break in minutes */
+  pomodoroShortBreak: number;
+  
+  /** Pomodoro long break in minutes */
+  pomodoroLongBreak: number;
+  
+  /** Number of pomodoros before a long break */
+  pomodoroLongBreakInterval: number;
+  
+  /** Whether to warn about break and maximum working time rules */
+  workingTimeWarnings: boolean;
+  
+  /** Hours of work after which `breakRuleMinutes` of breaks are required */
+  breakRuleHours: number;
+  
+  /** Minutes of breaks required after `breakRuleHours` */
+  breakRuleMinutes: number;
+  
+  /** Hours of work after which `extendedBreakRuleMinutes` of breaks are required */
+  extendedBreakRuleHours: number;
+  
+  /** Minutes of breaks required after `extendedBreakRuleHours` */
+  extendedBreakRuleMinutes: number;
+  
+  /** Maximum hours of work per day */
+  maxDailyWorkHours: number;
+  
+  /** Daily goal in hours (0 means no goal) */
+  dailyGoalHours: number;
+  
+  /** Weekly goal in hours (0 means no goal) */
+  weeklyGoalHours: number;
+  
+  /** Goals of single projects by project name */
+  projectGoals: Record<string, { daily?: number; weekly?: number }>;
+  
+  /** Time of day (HH:MM) at which a new day begins for daily, weekly and monthly totals */
+  dayStartsAt: string;
+  
+  /** Whether reports count and show sessions in their recorded time zone or the current one */
+  reportTimeZone: ReportTimeZone;
 }
 
+/**
+ * Time zone of reports: the zone each session was recorded in, or the zone the editor runs in now
+ */
+export type ReportTimeZone = 'recorded' | 'current';
+
+/**
+ * Available storage backends
+ */
+export type StorageBackend = 'file' | 'journal';
+
 /**
  * Activity state enumeration
  */
@@ -151,7 +306,7 @@ export enum ActivityState {
  */
 export interface ActivityEvent {
   /** Type of activity that occurred */
-  type: 'text_change' | 'cursor_change' | 'window_focus' | 'window_blur' | 'sleep' | 'wake';
+  type: 'text_change' | 'cursor_change' | 'debug' | 'window_focus' | 'window_blur' | 'sleep' | 'wake';
   
   /** Timestamp of the event */
   timestamp: Date;
@@ -159,6 +314,9 @@ export interface ActivityEvent {
   /** Document URI if applicable */
   documentUri?: vscode.Uri;
   
+  /** Language ID of the document, if applicable */
+  languageId?: string;
+  
   /** Additional event data */
   data?: unknown;
 }
@@ -254,6 +412,10 @@ export interface Logger {
  */
 export interface Storage {
   load(): Promise<TrackingData | undefined>;
+
+  /** Whether the last load read the stored data itself, not defaults or a backup after an error */
+  isLoaded(): boolean;
+
   save(data: TrackingData): Promise<void>;
   backup(): Promise<void>;
   exists(): Promise<boolean>;
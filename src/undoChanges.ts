@@ -0,0 +1,326 @@
+/**
+ * The sessions an undoable operation changed, and how to revert just those changes
+ */
+
+import { TrackingData, TimeSession, ProjectStats, ActiveSegment, FileTime } from './types';
+import { serializeSession, deserializeSession } from './trackingDataCodec';
+import { recalculateProjectStats } from './projectStats';
+import { normalizeSegments, subtractSegments } from './activeSegments';
+import { findSession } from './sessionEditing';
+
+/**
+ * The sessions before an operation, to compare with the data after it
+ */
+export interface UndoState {
+  /** Serialized session JSON by session ID */
+  sessions: Map<string, string>;
+
+  projectPaths: Set<string>;
+
+  currentSessionId: string | undefined;
+}
+
+/**
+ * One session as it was before and after an operation, in storage format
+ */
+export interface SessionChange {
+  sessionId: string;
+
+  /** Missing if the operation added the session */
+  before?: any;
+
+  /** Missing if the operation removed the session */
+  after?: any;
+}
+
+/**
+ * Everything an operation changed
+ */
+export interface UndoChanges {
+  sessions: SessionChange[];
+
+  /** Running session before the operation */
+  currentBefore?: string;
+
+  /** Running session after the operation */
+  currentAfter?: string;
+
+  /** Projects the operation created */
+  addedProjects: string[];
+}
+
+/**
+ * Summary of what reverting changed
+ */
+export interface RevertResult {
+  /** Sessions restored, changed back or removed */
+  reverted: number;
+
+  /** Sessions the operation added that were worked in since and are kept */
+  kept: number;
+}
+
+/** Fields that accumulate while a session runs. Their changes are reverted by difference. */
+const ADDITIVE_FIELDS = ['totalTime', 'debugTime', 'textChanges', 'cursorMovements'];
+
+/**
+ * Take the state of all sessions before an operation
+ */
+export const captureUndoState = (data: TrackingData): UndoState => {
+  return {
+    sessions: serializeSessions(data),
+    projectPaths: new Set(data.projects.keys()),
+    currentSessionId: data.currentSession?.id
+  };
+};
+
+/**
+ * Compare the data after an operation with the state before it
+ */
+export const recordChanges = (before: UndoState, data: TrackingData): UndoChanges => {
+  const after = serializeSessions(data);
+  const sessions: SessionChange[] = [];
+  new Set([...before.sessions.keys(), ...after.keys()]).forEach(sessionId => {
+    const beforeJson = before.sessions.get(sessionId);
+    const afterJson = after.get(sessionId);
+    if (beforeJson === afterJson) {
+      return;
+    }
+    const change: SessionChange = { sessionId };
+    if (beforeJson) {
+      change.before = JSON.parse(beforeJson);
+    }
+    if (afterJson) {
+      change.after = JSON.parse(afterJson);
+    }
+    sessions.push(change);
+  });
+
+  const changes: UndoChanges = {
+    sessions,
+    addedProjects: Array.from(data.projects.keys()).filter(projectPath => !before.projectPaths.has(projectPath))
+  };
+  if (before.currentSessionId) {
+    changes.currentBefore = before.currentSessionId;
+  }
+  if (data.currentSession) {
+    changes.currentAfter = data.currentSession.id;
+  }
+  return changes;
+};
+
+/**
+ * Whether an operation changed nothing that could be undone
+ */
+export const isEmptyChange = (changes: UndoChanges): boolean => {
+  return changes.sessions.length === 0 && changes.currentBefore === changes.currentAfter;
+};
+
+/**
+ * Revert an operation's changes, in place. Only the sessions it changed are touched, and
+ * what happened to them since is kept: time tracked later stays counted, later edits of
+ * other fields win, and time tracked in a session the operation started goes to the
+ * session that was running before it. A session that ran before the operation only runs
+ * again if no other session was started since.
+ * @throws DataValidationError if a recorded session is malformed
+ */
+export const revertChanges = (data: TrackingData, changes: UndoChanges): RevertResult => {
+  const result: RevertResult = { reverted: 0, kept: 0 };
+  const touched = new Set<ProjectStats>();
+  const liveCurrentId = data.currentSession?.id;
+
+  changes.sessions.forEach(change => {
+    const found = findSession(data, change.sessionId);
+    if (change.before && change.after && found) {
+      revertSession(found.session, change.before, change.after);
+      touched.add(found.project);
+      touched.add(placeInProject(data, found.session, found.project));
+      result.reverted++;
+    } else if (change.before && !change.after && !found) {
+      const session = deserializeSession(change.before);
+      touched.add(placeInProject(data, session));
+      result.reverted++;
+    }
+  });
+
+  const previous = changes.currentBefore ? findSession(data, changes.currentBefore)?.session : undefined;
+  changes.sessions.forEach(change => {
+    const found = findSession(data, change.sessionId);
+    if (change.before || !change.after || !found) {
+      return;
+    }
+    // Added by the operation: time tracked in it since goes to the session it continued
+    const grown = found.session.totalTime > change.after.totalTime;
+    if (grown && (found.session.id !== changes.currentAfter || !previous)) {
+      result.kept++;
+      return;
+    }
+    if (grown && previous) {
+      addGrowth(previous, found.session, deserializeSession(change.after));
+    }
+    found.project.sessions = found.project.sessions.filter(session => session.id !== found.session.id);
+    touched.add(found.project);
+    if (previous) {
+      touched.add(findSession(data, previous.id)!.project);
+    }
+    result.reverted++;
+  });
+
+  if (changes.currentBefore !== changes.currentAfter) {
+    if (liveCurrentId === changes.currentAfter) {
+      if (previous) {
+        data.currentSession = previous;
+      } else {
+        delete data.currentSession;
+      }
+    } else if (previous && previous.id !== liveCurrentId && !previous.endTime) {
+      // Another session was started since: the restored one ends where that one began
+      previous.endTime = data.currentSession ? new Date(data.currentSession.startTime) : new Date(previous.lastActivity);
+      previous.isActive = false;
+    }
+  }
+
+  touched.forEach(project => {
+    project.sessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    recalculateProjectStats(project);
+  });
+  changes.addedProjects.forEach(projectPath => {
+    const project = data.projects.get(projectPath);
+    if (project && project.sessions.length === 0 && project.dailyRollups.length === 0) {
+      data.projects.delete(projectPath);
+    }
+  });
+  return result;
+};
+
+/**
+ * Change the fields an operation changed back, in place, keeping what changed since
+ */
+const revertSession = (session: TimeSession, before: any, after: any): void => {
+  const live = serializeSession(session);
+  const reverted = { ...live };
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+    if (isSameValue(before[key], after[key])) {
+      return;
+    }
+    if (ADDITIVE_FIELDS.includes(key)) {
+      reverted[key] = Math.max(0, (live[key] ?? 0) + (before[key] ?? 0) - (after[key] ?? 0));
+    } else if (key === 'activeSegments') {
+      const added = subtractSegments(toSegments(after[key]), toSegments(before[key]));
+      const removed = subtractSegments(toSegments(before[key]), toSegments(after[key]));
+      reverted[key] = fromSegments(normalizeSegments([...subtractSegments(toSegments(live[key]), added), ...removed]));
+    } else if (key === 'files') {
+      reverted[key] = addFileTimes(addFileTimes(live[key], before[key], 1), after[key], -1);
+    } else if (isSameValue(live[key], after[key])) {
+      reverted[key] = before[key];
+    }
+  });
+
+  const restored = deserializeSession(reverted);
+  Object.keys(session).forEach(key => delete (session as any)[key]);
+  Object.assign(session, restored);
+  // The reverted copy must win over copies of the operation's result in other windows
+  session.editedAt = new Date();
+};
+
+/**
+ * Add what was tracked in a session after a point to another session, in place
+ * @param since The session as it was at that point
+ */
+const addGrowth = (target: TimeSession, grown: TimeSession, since: TimeSession): void => {
+  const growth = serializeSession(grown);
+  const base = serializeSession(since);
+  const updated = serializeSession(target);
+  ADDITIVE_FIELDS.forEach(key => {
+    updated[key] = (updated[key] ?? 0) + Math.max(0, (growth[key] ?? 0) - (base[key] ?? 0));
+  });
+  updated.activeSegments = fromSegments(normalizeSegments([
+    ...toSegments(updated.activeSegments),
+    ...subtractSegments(toSegments(growth.activeSegments), toSegments(base.activeSegments))
+  ]));
+  updated.files = addFileTimes(addFileTimes(updated.files, growth.files, 1), base.files, -1);
+  if (growth.lastActivity > updated.lastActivity) {
+    updated.lastActivity = growth.lastActivity;
+  }
+  if (growth.lastActiveTime > updated.lastActiveTime) {
+    updated.lastActiveTime = growth.lastActiveTime;
+  }
+
+  const restored = deserializeSession(updated);
+  Object.keys(target).forEach(key => delete (target as any)[key]);
+  Object.assign(target, restored);
+};
+
+/**
+ * Make sure a session is listed in the project of its `projectPath`, e.g. after its move
+ * was reverted, creating the project if needed
+ * @returns The project it is listed in
+ */
+const placeInProject = (data: TrackingData, session: TimeSession, current?: ProjectStats): ProjectStats => {
+  if (current?.projectPath === session.projectPath) {
+    return current;
+  }
+  if (current) {
+    current.sessions = current.sessions.filter(candidate => candidate.id !== session.id);
+  }
+
+  let project = data.projects.get(session.projectPath);
+  if (!project) {
+    project = {
+      projectName: session.projectName,
+      projectPath: session.projectPath,
+      totalTime: 0,
+      sessions: [],
+      lastActivity: session.lastActivity,
+      firstSession: session.startTime,
+      averageSessionDuration: 0,
+      activeDays: 0,
+      dailyRollups: []
+    };
+    data.projects.set(session.projectPath, project);
+  }
+  project.sessions.push(session);
+  if (session.startTime < project.firstSession) {
+    project.firstSession = session.startTime;
+  }
+  return project;
+};
+
+const serializeSessions = (data: TrackingData): Map<string, string> => {
+  const sessions = new Map<string, string>();
+  data.projects.forEach(project => project.sessions.forEach(session => {
+    sessions.set(session.id, JSON.stringify(serializeSession(session)));
+  }));
+  if (data.currentSession && !sessions.has(data.currentSession.id)) {
+    sessions.set(data.currentSession.id, JSON.stringify(serializeSession(data.currentSession)));
+  }
+  return sessions;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const toSegments = (value: [string, string][] | undefined): ActiveSegment[] => {
+  return (value ?? []).map(([start, end]) => ({ start: new Date(start), end: new Date(end) }));
+};
+
+const fromSegments = (segments: ActiveSegment[]): [string, string][] | undefined => {
+  return segments.length > 0
+    ? segments.map(segment => [segment.start.toISOString(), segment.end.toISOString()])
+    : undefined;
+};
+
+/**
+ * Add or subtract file times by path; files left without time are dropped
+ */
+const addFileTimes = (files: FileTime[] | undefined, other: FileTime[] | undefined, sign: 1 | -1): FileTime[] | undefined => {
+  const byPath = new Map((files ?? []).map(file => [file.path, { ...file }]));
+  (other ?? []).forEach(file => {
+    const entry = byPath.get(file.path) ?? { ...file, time: 0 };
+    entry.time += sign * file.time;
+    byPath.set(file.path, entry);
+  });
+  const result = Array.from(byPath.values()).filter(file => file.time > 0);
+  return result.length > 0 ? result : undefined;
+};
@@ -0,0 +1,113 @@
+/**
+ * Undo history of tracker operations that change or discard tracked time
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TrackingData, Logger } from './types';
+import { parseStoredJson } from './trackingDataCodec';
+import { writeFileAtomic } from './fileUtils';
+import { getWorkspaceStorageDir } from './workspaceStorage';
+import { DataEncryption } from './dataEncryption';
+import { UndoState, UndoChanges, recordChanges, isEmptyChange } from './undoChanges';
+
+/**
+ * An operation that can be undone, with the sessions it changed
+ */
+export interface UndoEntry {
+  /** What the operation did, shown to the user */
+  label: string;
+
+  createdAt: Date;
+
+  changes: UndoChanges;
+}
+
+/**
+ * Stack of the most recent undoable operations, kept in memory and in `undoHistory.json`
+ * next to the data file so it survives reloading the window
+ */
+export class UndoHistory {
+  private readonly filePath: string;
+  private readonly logger: Logger;
+  private readonly encryption: DataEncryption;
+  private readonly MAX_ENTRIES = 10;
+  private entries: UndoEntry[] = [];
+
+  constructor(context: vscode.ExtensionContext, logger: Logger, encryption: DataEncryption) {
+    this.filePath = path.join(getWorkspaceStorageDir(context), 'undoHistory.json');
+    this.logger = logger;
+    this.encryption = encryption;
+  }
+
+  /**
+   * Read the persisted history. An unreadable history is dropped - it only offers convenience.
+   */
+  async load(): Promise<void> {
+    try {
+      const raw = parseStoredJson(this.encryption.decode(await fs.readFile(this.filePath, 'utf-8')));
+      this.entries = (Array.isArray(raw.entries) ? raw.entries : [])
+        // Entries of older versions hold whole data snapshots, which are not restored any more
+        .filter((entry: any) => typeof entry?.label === 'string' && Array.isArray(entry?.changes?.sessions))
+        .map((entry: any) => ({ label: entry.label, createdAt: new Date(entry.createdAt), changes: entry.changes }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Discarding unreadable undo history', { error: (error as Error).message });
+      }
+      this.entries = [];
+    }
+  }
+
+  /**
+   * Record an operation after it was applied. Operations that changed nothing are skipped.
+   * @param before Sessions before the operation, from `captureUndoState`
+   */
+  async push(label: string, before: UndoState, data: TrackingData): Promise<void> {
+    const changes = recordChanges(before, data);
+    if (isEmptyChange(changes)) {
+      return;
+    }
+    this.entries.push({ label, createdAt: new Date(), changes });
+    if (this.entries.length > this.MAX_ENTRIES) {
+      this.entries = this.entries.slice(-this.MAX_ENTRIES);
+    }
+    this.logger.debug('Undo entry recorded', { label, entries: this.entries.length });
+    await this.persist();
+  }
+
+  /**
+   * Remove the most recent operation
+   * @returns The operation, or undefined if there is nothing to undo
+   */
+  async pop(): Promise<UndoEntry | undefined> {
+    const entry = this.entries.pop();
+    if (entry) {
+      await this.persist();
+    }
+    return entry;
+  }
+
+  /**
+   * Forget all operations, e.g. when sessions moved to the archive would come back on undo
+   */
+  async clear(): Promise<void> {
+    if (this.entries.length > 0) {
+      this.entries = [];
+      await this.persist();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      const content = JSON.stringify({
+        entries: this.entries.map(entry => ({ ...entry, createdAt: entry.createdAt.toISOString() }))
+      });
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFileAtomic(this.filePath, this.encryption.encode(content));
+    } catch (error) {
+      // The in-memory history still works for this window
+      this.logger.error('Failed to save undo history', error as Error);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Daily and weekly work-time goals, globally and per project
+ */
+
+import { formatTime } from './timeUtils';
+
+/**
+ * Goal hours of a scope (0 means no goal)
+ */
+export interface WorkGoal {
+  daily: number;
+  weekly: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Goal hours of a month: the weekly goal for every seven days, or else the daily goal for every weekday
+ */
+export const getMonthGoalHours = (goal: WorkGoal, monthStart: Date): number => {
+  const daysInMonth = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0).getDate();
+  if (goal.weekly > 0) {
+    return goal.weekly * daysInMonth / 7;
+  }
+
+  let weekdays = 0;
+  for (let day = 1; day <= daysInMonth; day++) {
+    const weekday = new Date(monthStart.getFullYear(), monthStart.getMonth(), day).getDay();
+    if (weekday !== 0 && weekday !== 6) {
+      weekdays++;
+    }
+  }
+  return goal.daily * weekdays;
+};
+
+/**
+ * Goal hours of a week: the weekly goal, or else the daily goal for five weekdays
+ */
+export const getWeekGoalHours = (goal: WorkGoal): number => {
+  return goal.weekly > 0 ? goal.weekly : goal.daily * 5;
+};
+
+/**
+ * Progress against a goal, e.g. "3h 20m / 6h"
+ */
+export const formatGoalProgress = (time: number, goalHours: number): string => {
+  const format = (milliseconds: number) => formatTime(milliseconds, {
+    showSeconds: false,
+    shortFormat: true,
+    alwaysShowHours: false
+  });
+  return `${format(time)} / ${format(goalHours * HOUR)}`;
+};
+
+/**
+ * Progress against a goal in percent, with a check mark once it is reached, e.g. "56%" or "✓ 104%"
+ */
+export const formatGoalPercent = (time: number, goalHours: number): string => {
+  const percent = Math.floor(time / (goalHours * HOUR) * 100);
+  return isGoalReached(time, goalHours) ? `✓ ${percent}%` : `${percent}%`;
+};
+
+export const isGoalReached = (time: number, goalHours: number): boolean => {
+  return goalHours > 0 && time >= goalHours * HOUR;
+};
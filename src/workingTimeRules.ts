@@ -0,0 +1,101 @@
+/**
+ * Checks of a day's working time against the German Working Hours Act (ArbZG §§ 3, 4)
+ */
+
+import { TimeSession } from './types';
+import { formatDetailedTime } from './timeUtils';
+import { getActiveSegments } from './activeSegments';
+
+/**
+ * Gaps shorter than this do not count as a break - the law only accepts breaks of at least 15 minutes
+ */
+const MIN_BREAK_BLOCK = 15 * 60 * 1000;
+
+/**
+ * Thresholds of the rules, in hours and minutes as configured
+ */
+export interface WorkingTimeRules {
+  /** Working time after which a break is required */
+  breakAfterHours: number;
+
+  /** Minimum total break at that point */
+  breakMinutes: number;
+
+  /** Working time after which a longer break is required */
+  extendedBreakAfterHours: number;
+
+  /** Minimum total break at that point */
+  extendedBreakMinutes: number;
+
+  /** Maximum daily working time */
+  maxDailyHours: number;
+}
+
+export type WorkingTimeRuleId = 'break' | 'extended-break' | 'max-daily';
+
+export interface WorkingTimeViolation {
+  rule: WorkingTimeRuleId;
+
+  /** Warning shown to the user */
+  message: string;
+}
+
+/**
+ * Breaks of a day: gaps of at least 15 minutes between active segments, within and between sessions.
+ * Overlapping sessions (e.g. manual entries) are combined first.
+ * @param now End of a session that is still running
+ */
+export const getBreakTime = (sessions: TimeSession[], now: Date = new Date()): number => {
+  const intervals = sessions
+    .flatMap(session => getActiveSegments(session, now))
+    .map(segment => ({ start: segment.start.getTime(), end: segment.end.getTime() }))
+    .sort((a, b) => a.start - b.start);
+
+  let breakTime = 0;
+  let coveredUntil: number | undefined;
+  intervals.forEach(interval => {
+    if (coveredUntil !== undefined && interval.start - coveredUntil >= MIN_BREAK_BLOCK) {
+      breakTime += interval.start - coveredUntil;
+    }
+    coveredUntil = coveredUntil === undefined ? interval.end : Math.max(coveredUntil, interval.end);
+  });
+  return breakTime;
+};
+
+/**
+ * Rules broken by a day's sessions, counting active time as working time
+ */
+export const checkWorkingTimeRules = (
+  sessions: TimeSession[],
+  rules: WorkingTimeRules,
+  now: Date = new Date()
+): WorkingTimeViolation[] => {
+  const hour = 60 * 60 * 1000;
+  const minute = 60 * 1000;
+  const workTime = sessions.reduce((total, session) => total + session.totalTime, 0);
+  const breakTime = getBreakTime(sessions, now);
+  const violations: WorkingTimeViolation[] = [];
+
+  const checkBreak = (rule: WorkingTimeRuleId, afterHours: number, breakMinutes: number) => {
+    if (afterHours > 0 && workTime >= afterHours * hour && breakTime < breakMinutes * minute) {
+      violations.push({
+        rule,
+        message: `Arbeitszeit heute: ${formatDetailedTime(workTime)} mit ${formatDetailedTime(breakTime)} Pause. ` +
+          `Ab ${afterHours} Stunden sind ${breakMinutes} Minuten Pause vorgeschrieben.`
+      });
+    }
+  };
+
+  checkBreak('break', rules.breakAfterHours, rules.breakMinutes);
+  checkBreak('extended-break', rules.extendedBreakAfterHours, rules.extendedBreakMinutes);
+
+  if (rules.maxDailyHours > 0 && workTime > rules.maxDailyHours * hour) {
+    violations.push({
+      rule: 'max-daily',
+      message: `Arbeitszeit heute: ${formatDetailedTime(workTime)}. ` +
+        `Die tägliche Höchstarbeitszeit von ${rules.maxDailyHours} Stunden ist überschritten.`
+    });
+  }
+
+  return violations;
+};
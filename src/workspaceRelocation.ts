@@ -0,0 +1,207 @@
+/**
+ * Taking over the history of workspaces whose folder was moved or renamed
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TrackingData, Logger } from './types';
+import { loadWorkspaceData } from './crossWorkspaceManager';
+import { DataEncryption } from './dataEncryption';
+import { SessionArchive } from './sessionArchive';
+import { mergeTrackingData, MergeResult } from './trackingDataMerge';
+import { recalculateProjectStats } from './projectStats';
+import { WORKSPACES_DIR, readWorkspaceIndex, forgetWorkspaceDirectory } from './workspaceStorage';
+
+/** Directory below globalStorage that taken over workspace directories are moved to */
+const RELOCATED_DIR = 'relocated';
+
+/**
+ * Storage directory of a workspace that no longer exists at its last known path
+ */
+export interface OrphanedWorkspace {
+  /** Directory name below `workspaces/` */
+  dir: string;
+  dirPath: string;
+
+  /** Last known workspace name and path */
+  name: string;
+  path?: string;
+
+  data: TrackingData;
+}
+
+/**
+ * Result of taking over an orphaned workspace
+ */
+export interface RelocationResult extends MergeResult {
+  /** Archived sessions taken over into this workspace's archive */
+  archived: number;
+}
+
+/**
+ * Find storage directories of workspaces whose folders no longer exist, most recently saved first
+ */
+export const findOrphanedWorkspaces = async (
+  globalStoragePath: string,
+  currentDir: string,
+  encryption: DataEncryption,
+  logger: Logger
+): Promise<OrphanedWorkspace[]> => {
+  const workspacesDir = path.join(globalStoragePath, WORKSPACES_DIR);
+  let dirs: string[];
+  try {
+    dirs = await fs.readdir(workspacesDir);
+  } catch {
+    return [];
+  }
+
+  const index = await readWorkspaceIndex(globalStoragePath);
+  const orphans: OrphanedWorkspace[] = [];
+
+  for (const dir of dirs) {
+    const dirPath = path.join(workspacesDir, dir);
+    if (dirPath === currentDir) {
+      continue;
+    }
+
+    try {
+      const data = await loadWorkspaceData(dirPath, encryption);
+      if (!data) {
+        continue;
+      }
+
+      const entry = index.workspaces.find(candidate => candidate.dir === dir);
+      const lastPath = entry?.path ?? data.workspacePath;
+      if (lastPath && await pathsExist(lastPath)) {
+        continue;
+      }
+
+      const orphan: OrphanedWorkspace = { dir, dirPath, name: entry?.name ?? data.workspaceName ?? dir, data };
+      if (lastPath) {
+        orphan.path = lastPath;
+      }
+      orphans.push(orphan);
+    } catch (error) {
+      logger.warn('Skipping unreadable workspace directory', { dir, error: (error as Error).message });
+    }
+  }
+
+  return orphans.sort((a, b) => b.data.lastSaved.getTime() - a.data.lastSaved.getTime());
+};
+
+/**
+ * Merge an orphaned workspace's sessions and archive into the open workspace, in place.
+ * Projects whose folder no longer exists are moved to the open folder of the same name,
+ * or to the only folder of a single-folder workspace.
+ */
+export const mergeOrphanedWorkspace = async (
+  orphan: OrphanedWorkspace,
+  target: TrackingData,
+  targetArchive: SessionArchive,
+  encryption: DataEncryption,
+  logger: Logger
+): Promise<RelocationResult> => {
+  const source = orphan.data;
+  const mapping = await remapProjects(source);
+
+  // Sessions left running in the old workspace can never be continued
+  delete source.currentSession;
+  source.projects.forEach(project => {
+    project.sessions.forEach(session => {
+      if (!session.endTime) {
+        session.endTime = session.lastActiveTime > session.startTime ? session.lastActiveTime : session.lastActivity;
+        session.isActive = false;
+      }
+    });
+    // Rebuilt from the archive files below
+    project.dailyRollups = [];
+  });
+
+  const archived = await new SessionArchive(orphan.dirPath, encryption, logger).loadAll();
+  archived.forEach(session => {
+    const moved = mapping.get(session.projectPath);
+    if (moved) {
+      session.projectPath = moved.path;
+      session.projectName = moved.name;
+    }
+  });
+
+  const result = mergeTrackingData(target, source, new Set());
+  await targetArchive.importSessions(target, archived);
+
+  logger.info('Orphaned workspace merged', { dir: orphan.dir, ...result, archived: archived.length });
+  return { ...result, archived: archived.length };
+};
+
+/**
+ * Move a taken over workspace directory out of `workspaces/` so it is no longer counted
+ * in the global summary. It is kept in `relocated/` instead of being deleted.
+ */
+export const retireOrphanedWorkspace = async (
+  globalStoragePath: string,
+  orphan: OrphanedWorkspace,
+  logger: Logger
+): Promise<void> => {
+  const relocatedDir = path.join(globalStoragePath, RELOCATED_DIR);
+  await fs.mkdir(relocatedDir, { recursive: true });
+
+  const destination = path.join(relocatedDir, `${orphan.dir}-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+  await fs.rename(orphan.dirPath, destination);
+  await forgetWorkspaceDirectory(globalStoragePath, orphan.dir, logger);
+
+  logger.info('Orphaned workspace directory retired', { from: orphan.dirPath, to: destination });
+};
+
+/**
+ * Point projects whose folder no longer exists at the matching open workspace folder
+ * @returns New path and name by old project path
+ */
+const remapProjects = async (data: TrackingData): Promise<Map<string, { path: string; name: string }>> => {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const mapping = new Map<string, { path: string; name: string }>();
+
+  for (const projectPath of Array.from(data.projects.keys())) {
+    if (await pathsExist(projectPath)) {
+      continue;
+    }
+    const folder = folders.find(candidate => candidate.name === path.basename(projectPath)) ??
+      (folders.length === 1 ? folders[0] : undefined);
+    if (folder) {
+      mapping.set(projectPath, { path: folder.uri.fsPath, name: folder.name });
+    }
+  }
+
+  mapping.forEach((moved, oldPath) => {
+    const project = data.projects.get(oldPath);
+    if (!project) {
+      return;
+    }
+    data.projects.delete(oldPath);
+    project.sessions.forEach(session => {
+      session.projectPath = moved.path;
+      session.projectName = moved.name;
+    });
+
+    const existing = data.projects.get(moved.path);
+    if (existing) {
+      existing.sessions.push(...project.sessions);
+      existing.sessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+      recalculateProjectStats(existing);
+    } else {
+      data.projects.set(moved.path, { ...project, projectPath: moved.path, projectName: moved.name });
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Whether every path of a (possibly multi-root) workspace path still exists
+ */
+const pathsExist = async (workspacePath: string): Promise<boolean> => {
+  const results = await Promise.all(
+    workspacePath.split(path.delimiter).map(part => fs.access(part).then(() => true, () => false))
+  );
+  return results.every(Boolean);
+};
@@ -0,0 +1,391 @@
+/**
+ * Resolution of the per-workspace storage directory
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { execFile } from 'child_process';
+import { Logger, TrackingData, ProjectStats } from './types';
+import { CURRENT_DATA_VERSION } from './dataMigrations';
+import { FileLock } from './fileLock';
+import { writeFileAtomic, fileExists } from './fileUtils';
+
+/** Directory below globalStorage holding one directory per workspace */
+export const WORKSPACES_DIR = 'workspaces';
+
+/** Index of workspace IDs and their storage directories, in globalStorage */
+const WORKSPACE_INDEX_FILE = 'workspaceIndex.json';
+
+/** Marker file inside a repository's .git directory holding the workspace ID */
+const GIT_MARKER_FILE = 'o3-time-tracker-id';
+
+/**
+ * Storage directory of a workspace as recorded in the index
+ */
+export interface WorkspaceIndexEntry {
+  /** Durable workspace ID */
+  id: string;
+
+  /** Directory name below `workspaces/` */
+  dir: string;
+
+  /** Last known workspace path and name */
+  path: string;
+  name: string;
+
+  /** Workspace file of a multi-root workspace, which keeps its ID when folders are added or removed */
+  workspaceFile?: string;
+
+  /** IDs of the folders of a multi-root workspace, sorted */
+  folderIds?: string[];
+
+  /** Root commit and folder within the repository of a single folder, to find it again after a move */
+  repository?: string;
+
+  /** Further IDs the workspace was opened under, e.g. its path-based ID after it moved */
+  aliases?: string[];
+
+  /** ISO timestamp of the last time a window opened this workspace */
+  lastSeen: string;
+}
+
+interface WorkspaceIndex {
+  version: 1;
+  workspaces: WorkspaceIndexEntry[];
+}
+
+/**
+ * Identity of one workspace folder
+ */
+interface FolderIdentity {
+  /** Durable ID */
+  id: string;
+
+  /** Root commit and folder within the repository, e.g. "4b825dc:packages/api/" */
+  repository?: string;
+
+  /** ID that earlier versions gave the folder: its repository's root commit alone */
+  legacyId?: string;
+}
+
+/** ID and storage directory of the open workspace, once resolved */
+let resolvedWorkspace: { id: string; dir: string } | undefined;
+
+/**
+ * Generate a hash for workspace path to create unique storage directories
+ */
+export const generateWorkspaceHash = (workspacePath: string): string => {
+  // Simple hash function for workspace path
+  let hash = 0;
+  for (let i = 0; i < workspacePath.length; i++) {
+    const char = workspacePath.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash).toString(36);
+};
+
+/**
+ * Path and name identifying the open workspace
+ */
+export interface WorkspaceIdentity {
+  path: string;
+  name: string;
+}
+
+/**
+ * Identify the open workspace. A single folder is identified by its own path (as before
+ * multi-root support), a multi-root workspace by its workspace file or, while untitled,
+ * by all of its folders - never by whichever folder happens to be first.
+ */
+export const getWorkspaceIdentity = (): WorkspaceIdentity | undefined => {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const firstFolder = folders[0];
+  if (!firstFolder) {
+    return undefined;
+  }
+
+  if (folders.length === 1) {
+    return { path: firstFolder.uri.fsPath, name: firstFolder.name };
+  }
+
+  return {
+    path: vscode.workspace.workspaceFile?.fsPath ?? folders.map(folder => folder.uri.fsPath).join(path.delimiter),
+    name: vscode.workspace.name ?? folders.map(folder => folder.name).join(', ')
+  };
+};
+
+/**
+ * Get the directory holding the tracking data of the current workspace
+ */
+export const getWorkspaceStorageDir = (context: vscode.ExtensionContext): string => {
+  if (resolvedWorkspace) {
+    return path.join(context.globalStorageUri.fsPath, WORKSPACES_DIR, resolvedWorkspace.dir);
+  }
+
+  // Use workspace-specific storage instead of global storage
+  const workspace = getWorkspaceIdentity();
+  
+  if (workspace) {
+    // Store data in workspace-specific directory
+    const workspaceHash = generateWorkspaceHash(workspace.path);
+    return path.join(context.globalStorageUri.fsPath, WORKSPACES_DIR, workspaceHash);
+  }
+
+  // Fallback to global storage for files without workspace
+  return path.join(context.globalStorageUri.fsPath, 'global');
+};
+
+/**
+ * Durable ID of the open workspace, if it has been resolved
+ */
+export const getWorkspaceId = (): string | undefined => resolvedWorkspace?.id;
+
+/**
+ * Resolve the durable ID of the open workspace and its storage directory. Must run before
+ * any storage is created. On failure the path-based directory is used as before.
+ *
+ * A folder is identified by its path, or by a marker file inside `.git` (only created with
+ * `gitWorkspaceMarker`, an existing one is always used). The root commit of a repository is
+ * no ID of its own - every clone and every folder of a monorepo shares it - but together with
+ * the folder's place in the repository it finds the entry of a folder that moved: the entry
+ * is taken over if its last path no longer exists. A multi-root workspace gets an ID of its
+ * own, found again by its workspace file or its set of folders, so adding or removing a folder
+ * keeps its history. Existing path-based directories are claimed by the first ID that opens
+ * them, so no history is moved.
+ */
+export const resolveWorkspaceStorage = async (context: vscode.ExtensionContext, logger: Logger): Promise<void> => {
+  resolvedWorkspace = undefined;
+  const workspace = getWorkspaceIdentity();
+  if (!workspace) {
+    return;
+  }
+
+  try {
+    const createGitMarker = vscode.workspace.getConfiguration('o3-time-tracker').get<boolean>('gitWorkspaceMarker', false);
+    const folders = await Promise.all(
+      (vscode.workspace.workspaceFolders ?? []).map(folder => resolveFolderId(folder.uri.fsPath, createGitMarker, logger))
+    );
+    const folderIds = folders.map(folder => folder.id).sort();
+    const isMultiRoot = folders.length > 1;
+    const workspaceFile = vscode.workspace.workspaceFile?.scheme === 'file' ? vscode.workspace.workspaceFile.fsPath : undefined;
+
+    const globalStoragePath = context.globalStorageUri.fsPath;
+    await fs.mkdir(globalStoragePath, { recursive: true });
+    const lock = new FileLock(path.join(globalStoragePath, 'workspaceIndex.lock'), logger);
+
+    const resolved = await lock.withLock(async () => {
+      const index = await readWorkspaceIndex(globalStoragePath);
+      let entry = isMultiRoot
+        ? findMultiRootEntry(index, folders, workspaceFile)
+        : await findFolderEntry(index, folders[0]!, workspace.path);
+      const id = entry?.id ?? (isMultiRoot ? `multi:${crypto.randomUUID()}` : folderIds[0]!);
+
+      if (!entry) {
+        const legacyDir = generateWorkspaceHash(workspace.path);
+        const legacyClaimed = index.workspaces.some(candidate => candidate.dir === legacyDir);
+        const legacyExists = await fs.stat(path.join(globalStoragePath, WORKSPACES_DIR, legacyDir))
+          .then(stat => stat.isDirectory(), () => false);
+        entry = {
+          id,
+          dir: legacyExists && !legacyClaimed ? legacyDir : crypto.createHash('sha256').update(id).digest('hex').slice(0, 16),
+          path: workspace.path,
+          name: workspace.name,
+          lastSeen: ''
+        };
+        index.workspaces.push(entry);
+        logger.info('Workspace registered', { id, dir: entry.dir, claimedLegacyDir: entry.dir === legacyDir });
+      }
+
+      entry.path = workspace.path;
+      entry.name = workspace.name;
+      entry.lastSeen = new Date().toISOString();
+      if (isMultiRoot) {
+        entry.folderIds = folderIds;
+        if (workspaceFile) {
+          entry.workspaceFile = workspaceFile;
+        }
+      } else {
+        const folder = folders[0]!;
+        if (folder.id !== entry.id && !entry.aliases?.includes(folder.id)) {
+          entry.aliases = [...(entry.aliases ?? []), folder.id];
+          logger.info('Workspace found again by its repository', { id: entry.id, alias: folder.id });
+        }
+        if (folder.repository) {
+          entry.repository = folder.repository;
+        }
+      }
+      await writeFileAtomic(path.join(globalStoragePath, WORKSPACE_INDEX_FILE), JSON.stringify(index, null, 2));
+      return { id, dir: entry.dir };
+    });
+
+    resolvedWorkspace = resolved;
+    logger.debug('Workspace storage resolved', resolvedWorkspace);
+  } catch (error) {
+    logger.error('Failed to resolve workspace ID - using path-based storage', error as Error);
+  }
+};
+
+/**
+ * Index entry of an open single-folder workspace: by its ID, or else by its repository if the
+ * entry's folder moved away. Entries of earlier versions carry the root commit as their ID and
+ * are taken over at their own path, too.
+ */
+const findFolderEntry = async (
+  index: WorkspaceIndex,
+  folder: FolderIdentity,
+  folderPath: string
+): Promise<WorkspaceIndexEntry | undefined> => {
+  const entry = index.workspaces.find(candidate => candidate.id === folder.id || candidate.aliases?.includes(folder.id));
+  if (entry || !folder.repository) {
+    return entry;
+  }
+
+  for (const candidate of index.workspaces) {
+    const sameRepository = candidate.repository === folder.repository || candidate.id === folder.legacyId;
+    const isFolderEntry = !candidate.folderIds && !candidate.id.startsWith('multi:');
+    if (sameRepository && isFolderEntry && (candidate.path === folderPath || !(await fileExists(candidate.path)))) {
+      return candidate;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Index entry of an open multi-root workspace: by its workspace file, or else by its folders.
+ * Entries from before multi-root IDs were kept in the index carry the folders in their ID;
+ * entries of earlier versions identify git folders by their root commit.
+ */
+const findMultiRootEntry = (
+  index: WorkspaceIndex,
+  folders: FolderIdentity[],
+  workspaceFile: string | undefined
+): WorkspaceIndexEntry | undefined => {
+  const folderKeys = [
+    folders.map(folder => folder.id).sort().join(','),
+    folders.map(folder => folder.legacyId ?? folder.id).sort().join(',')
+  ];
+  return (workspaceFile ? index.workspaces.find(candidate => candidate.workspaceFile === workspaceFile) : undefined) ??
+    index.workspaces.find(candidate => folderKeys.some(folderKey =>
+      candidate.id === `multi:${folderKey}` || candidate.folderIds?.join(',') === folderKey
+    ));
+};
+
+/**
+ * Read the workspace index; a missing or unreadable index is treated as empty
+ */
+export const readWorkspaceIndex = async (globalStoragePath: string): Promise<WorkspaceIndex> => {
+  try {
+    const parsed = JSON.parse(await fs.readFile(path.join(globalStoragePath, WORKSPACE_INDEX_FILE), 'utf-8'));
+    if (Array.isArray(parsed?.workspaces)) {
+      return { version: 1, workspaces: parsed.workspaces as WorkspaceIndexEntry[] };
+    }
+  } catch {
+    // No index yet
+  }
+  return { version: 1, workspaces: [] };
+};
+
+/**
+ * Remove a storage directory from the workspace index
+ */
+export const forgetWorkspaceDirectory = async (globalStoragePath: string, dir: string, logger: Logger): Promise<void> => {
+  const lock = new FileLock(path.join(globalStoragePath, 'workspaceIndex.lock'), logger);
+  await lock.withLock(async () => {
+    const index = await readWorkspaceIndex(globalStoragePath);
+    index.workspaces = index.workspaces.filter(entry => entry.dir !== dir);
+    await writeFileAtomic(path.join(globalStoragePath, WORKSPACE_INDEX_FILE), JSON.stringify(index, null, 2));
+  });
+};
+
+/**
+ * Whether loaded data was written for a different workspace than the open one.
+ * Data carrying a workspace ID is matched by ID, so moved workspaces keep their data.
+ */
+export const belongsToOtherWorkspace = (data: TrackingData): boolean => {
+  const workspaceId = getWorkspaceId();
+  if (data.workspaceId && workspaceId) {
+    return data.workspaceId !== workspaceId;
+  }
+  const workspace = getWorkspaceIdentity();
+  return !!workspace && !!data.workspacePath && data.workspacePath !== workspace.path;
+};
+
+/**
+ * Record the open workspace's ID, path and name in the data (paths change when a workspace moves)
+ */
+export const stampWorkspace = (data: TrackingData): void => {
+  const workspace = getWorkspaceIdentity();
+  if (workspace) {
+    data.workspacePath = workspace.path;
+    data.workspaceName = workspace.name;
+  }
+  const workspaceId = getWorkspaceId();
+  if (workspaceId) {
+    data.workspaceId = workspaceId;
+  }
+};
+
+/**
+ * Create default empty tracking data for the current workspace
+ */
+export const createDefaultTrackingData = (): TrackingData => {
+  const data: TrackingData = {
+    projects: new Map<string, ProjectStats>(),
+    lastActivity: new Date(),
+    totalTimeTracked: 0,
+    version: CURRENT_DATA_VERSION,
+    lastSaved: new Date()
+  };
+
+  stampWorkspace(data);
+
+  return data;
+};
+
+/**
+ * Durable ID of one workspace folder, and where it is in its repository
+ * @param createGitMarker Write a marker into `.git` if the repository has none yet
+ */
+const resolveFolderId = async (folderPath: string, createGitMarker: boolean, logger: Logger): Promise<FolderIdentity> => {
+  const gitDir = path.join(folderPath, '.git');
+  const isGitDirectory = await fs.stat(gitDir).then(stat => stat.isDirectory(), () => false);
+
+  if (isGitDirectory) {
+    const markerPath = path.join(gitDir, GIT_MARKER_FILE);
+    if (createGitMarker) {
+      try {
+        await fs.writeFile(markerPath, crypto.randomUUID(), { encoding: 'utf-8', flag: 'wx' });
+        logger.info('Workspace marker created', { markerPath });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+    const marker = await fs.readFile(markerPath, 'utf-8').then(content => content.trim(), () => '');
+    if (marker) {
+      return { id: `git:${marker}` };
+    }
+  }
+
+  const identity: FolderIdentity = { id: `path:${folderPath}` };
+  const rootCommit = (await runGit(folderPath, ['rev-list', '--max-parents=0', 'HEAD']))?.sort()[0];
+  if (rootCommit) {
+    const prefix = (await runGit(folderPath, ['rev-parse', '--show-prefix']))?.[0] ?? '';
+    identity.repository = `${rootCommit}:${prefix}`;
+    identity.legacyId = `git-root:${rootCommit}`;
+  }
+  return identity;
+};
+
+/**
+ * Non-empty output lines of a git command run in a folder, if git is available
+ */
+const runGit = (folderPath: string, args: string[]): Promise<string[] | undefined> => new Promise(resolve => {
+  execFile('git', args, { cwd: folderPath, timeout: 5000 }, (error, stdout) => {
+    resolve(error ? undefined : stdout.split('\n').map(line => line.trim()).filter(Boolean));
+  });
+});